@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import type { Transaction } from 'prosemirror-state';
+import { createCollabServer } from './collabServer';
+import type { CollabServer } from './collabServer';
+import { mySchema } from '../src/schema/editorSchema';
+import { createCollabPlugins, getCollabVersion, getConfirmedDocument, getSendableSteps, reapplySteps, receiveRemoteSteps } from '../src/plugins/collabPlugin';
+import { createCollabSession } from '../src/services/collab/collabSession';
+import type { CollabEditor, CollabSession } from '../src/services/collab/collabSession';
+import type { DocJSON, PeerSelection } from '../src/services/collab/protocol';
+
+// Editor without a view: the same collab plugins and steps as the ProseMirrorEditor handle
+function headlessEditor(text: string) {
+  let state = EditorState.create({ doc: mySchema.node('doc', null, [mySchema.node('paragraph', null, [mySchema.text(text)])]) });
+  let onUpdate: ((selection: PeerSelection) => void) | null = null;
+
+  const apply = (tr: Transaction) => {
+    state = state.apply(tr);
+    onUpdate?.({ anchor: state.selection.anchor, head: state.selection.head }); // What the collab plugin's view hook does
+  };
+
+  const editor: CollabEditor = {
+    getDocumentJSON: () => state.doc.toJSON() as DocJSON,
+    startCollab: (doc, version, clientID, update, pending) => {
+      state = EditorState.create({ doc: mySchema.nodeFromJSON(doc), plugins: createCollabPlugins({ version, clientID, onUpdate: () => {} }) });
+      onUpdate = update;
+      if (pending.length) apply(reapplySteps(state, pending));
+    },
+    stopCollab: () => {
+      onUpdate = null;
+    },
+    receiveSteps: (steps, clientIDs) => apply(receiveRemoteSteps(state, steps, clientIDs)),
+    getSendableSteps: () => getSendableSteps(state),
+    getCollabVersion: () => getCollabVersion(state),
+    getConfirmedDocumentJSON: () => (getConfirmedDocument(state)?.toJSON() as DocJSON | undefined) ?? null,
+    setPeers: () => {},
+  };
+
+  return {
+    editor,
+    text: () => state.doc.textContent,
+    // Type at the start or the end of the paragraph
+    type: (value: string, at: 'start' | 'end') => {
+      const pos = at === 'start' ? 1 : state.doc.content.size - 1;
+      apply(state.tr.setSelection(TextSelection.create(state.doc, pos)).insertText(value));
+    },
+    unconfirmed: () => getSendableSteps(state)?.steps.length ?? 0,
+  };
+}
+
+// Wait until a condition holds (the sessions talk to the server over real sockets)
+async function eventually(condition: () => boolean, timeout = 10000) {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) throw new Error('Timed out waiting for the condition.');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('collaboration server', () => {
+  let server: CollabServer | null = null;
+  const sessions: CollabSession[] = [];
+
+  // Connect a headless editor to a room, keeping its sockets so the connection can be dropped (or held back)
+  function connect(room: string, text: string, name: string) {
+    const editor = headlessEditor(text);
+    const sockets: WebSocket[] = [];
+    let held = false; // Reconnect attempts fail while held
+    const session = createCollabSession({
+      url: `ws://localhost:${server!.port}`,
+      room,
+      user: { name, color: '#000' },
+      createSocket: (url) => {
+        const socket = new WebSocket(held ? 'ws://localhost:9' : url);
+        sockets.push(socket);
+        return socket as unknown as globalThis.WebSocket; // Same onopen / onmessage / onclose interface as the browser's
+      },
+    });
+    sessions.push(session);
+    session.start(editor.editor);
+    return {
+      ...editor,
+      session,
+      joined: () => session.getSnapshot().status === 'connected' && editor.editor.getCollabVersion() !== null,
+      drop: () => sockets.at(-1)?.close(),
+      hold: () => {
+        held = true;
+      },
+      release: () => {
+        held = false;
+      },
+    };
+  }
+
+  afterEach(async () => {
+    sessions.splice(0).forEach((session) => session.stop());
+    await server?.close();
+    server = null;
+  });
+
+  it('brings a dropped editor back in step, keeping the edits made on both sides', async () => {
+    server = await createCollabServer({ port: 0 });
+    const ann = connect('room', 'Hello', 'Ann');
+    await eventually(ann.joined);
+    const bob = connect('room', 'Ignored', 'Bob');
+    await eventually(() => bob.joined() && bob.text() === 'Hello'); // The room's document replaces Bob's
+
+    bob.drop();
+    await eventually(() => bob.session.getSnapshot().status === 'offline');
+    ann.type(' world', 'end');
+    bob.type('Oh, ', 'start'); // Offline: stays unconfirmed
+
+    await eventually(() => bob.joined() && ann.text() === bob.text() && bob.unconfirmed() === 0 && ann.unconfirmed() === 0);
+    expect(ann.text()).toBe('Oh, Hello world');
+  });
+
+  it('closes a room once the last editor leaves', async () => {
+    server = await createCollabServer({ port: 0 });
+    const ann = connect('room', 'First', 'Ann');
+    await eventually(ann.joined);
+    ann.type('!', 'end');
+    await eventually(() => ann.unconfirmed() === 0);
+    ann.session.stop();
+
+    const bob = connect('room', 'Second', 'Bob');
+    await eventually(bob.joined);
+    expect(bob.text()).toBe('Second'); // Started again from Bob's document
+  });
+
+  it('starts a forgotten room again where the editors left it, keeping their offline edits', async () => {
+    server = await createCollabServer({ port: 0 });
+    const { port } = server;
+    const ann = connect('room', 'Hello', 'Ann');
+    await eventually(ann.joined);
+    const bob = connect('room', 'Ignored', 'Bob');
+    await eventually(() => bob.joined() && bob.text() === 'Hello');
+    ann.type(' there', 'end');
+    await eventually(() => bob.text() === 'Hello there' && ann.unconfirmed() === 0); // Version 1 on both sides
+
+    await server.close(); // The server restarts and forgets the room
+    await eventually(() => ann.session.getSnapshot().status === 'offline' && bob.session.getSnapshot().status === 'offline');
+    ann.type(' world', 'end');
+    bob.type('Oh, ', 'start');
+    server = await createCollabServer({ port });
+
+    await eventually(() => ann.joined() && bob.joined() && ann.text() === bob.text() && ann.unconfirmed() + bob.unconfirmed() === 0, 20000);
+    expect(ann.text()).toBe('Oh, Hello there world'); // Whoever rejoins first, nothing is lost or applied twice
+  }, 30000);
+
+  it('puts unconfirmed edits on top of the snapshot when the room moved on without them', async () => {
+    server = await createCollabServer({ port: 0 });
+    const { port } = server;
+    const bob = connect('room', 'Hello', 'Bob');
+    await eventually(bob.joined);
+    bob.type(' there', 'end');
+    await eventually(() => bob.unconfirmed() === 0); // Version 1
+
+    bob.hold();
+    await server.close();
+    await eventually(() => bob.session.getSnapshot().status === 'offline');
+    bob.type('Oh, ', 'start');
+    server = await createCollabServer({ port });
+    const carol = connect('room', 'Hello there', 'Carol'); // Starts the room again at version 0, before Bob is back
+    await eventually(carol.joined);
+    bob.release();
+
+    await eventually(() => bob.joined() && bob.text() === carol.text() && bob.unconfirmed() === 0, 20000);
+    expect(carol.text()).toBe('Oh, Hello there');
+  }, 30000);
+
+  it('reports what the server rejects', async () => {
+    server = await createCollabServer({ port: 0 });
+    const socket = new WebSocket(`ws://localhost:${server.port}`);
+    const reply = new Promise<string>((resolve) => socket.once('message', (data) => resolve(String(data))));
+    await new Promise((resolve) => socket.once('open', resolve));
+    socket.send('not json');
+
+    expect(JSON.parse(await reply)).toMatchObject({ type: 'error' });
+    socket.close();
+  });
+});
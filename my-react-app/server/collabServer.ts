@@ -0,0 +1,149 @@
+/**
+ * Collaboration authority: keeps each room's document and the steps that built it, accepts steps made on top
+ * of the current version and broadcasts them (with presence) to everyone in the room. Rooms live in memory.
+ */
+import { WebSocketServer } from 'ws';
+import type { RawData, WebSocket } from 'ws';
+import { Step } from 'prosemirror-transform';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import { mySchema } from '../src/schema/editorSchema';
+import '../src/schema/comments'; // Registers the step type review threads are changed with
+import type { ClientMessage, CollabPeer, DocJSON, ServerMessage, StepJSON } from '../src/services/collab/protocol';
+
+const MAX_STEP_HISTORY = 10000; // Steps kept per room for catching up; editors further behind get a snapshot
+
+// A shared document
+interface Room {
+  name: string;
+  doc: ProseMirrorNode;
+  version: number; // Steps applied since the room started (a rejoining editor restarts it at its own version)
+  steps: { step: StepJSON; clientID: string }[]; // The last steps, ending at version
+  clients: Map<WebSocket, CollabPeer>;
+}
+
+export interface CollabServerOptions {
+  port: number;
+  log?: (message: string) => void;
+}
+
+export interface CollabServer {
+  port: number; // Port actually listened on (useful with port 0)
+  close: () => Promise<void>;
+}
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage) => {
+  for (const socket of room.clients.keys()) send(socket, message);
+};
+
+const broadcastPresence = (room: Room) => broadcast(room, { type: 'presence', peers: [...room.clients.values()] });
+
+/**
+ * Start the server (resolves once it is listening)
+ */
+export function createCollabServer({ port, log = () => {} }: CollabServerOptions): Promise<CollabServer> {
+  const rooms = new Map<string, Room>();
+  const wss = new WebSocketServer({ port });
+
+  // Bring an editor to the room's current version: the missing steps when they are still kept, the document otherwise
+  const catchUp = (socket: WebSocket, room: Room, version: number | null) => {
+    const oldest = room.version - room.steps.length;
+    if (version === null || version < oldest || version > room.version) {
+      send(socket, { type: 'snapshot', doc: room.doc.toJSON() as DocJSON, version: room.version });
+      return;
+    }
+    const missing = room.steps.slice(version - oldest);
+    if (missing.length) {
+      send(socket, { type: 'steps', from: version, steps: missing.map((s) => s.step), clientIDs: missing.map((s) => s.clientID) });
+    }
+  };
+
+  // Apply steps made on top of the current version; anything else is dropped (the editor rebases and sends again)
+  const receiveSteps = (room: Room, clientID: string, version: number, steps: StepJSON[]): boolean => {
+    if (version !== room.version) return true;
+    let doc = room.doc;
+    for (const json of steps) {
+      const result = Step.fromJSON(mySchema, json).apply(doc);
+      if (!result.doc) return false; // Doesn't fit the document - the editor is out of sync
+      doc = result.doc;
+    }
+    room.doc = doc;
+    room.version += steps.length;
+    room.steps.push(...steps.map((step) => ({ step, clientID })));
+    if (room.steps.length > MAX_STEP_HISTORY) room.steps.splice(0, room.steps.length - MAX_STEP_HISTORY);
+    broadcast(room, { type: 'steps', from: version, steps, clientIDs: steps.map(() => clientID) });
+    return true;
+  };
+
+  // Take an editor out of a room; the last one out closes it (a later join starts it again from that editor's document)
+  const leave = (socket: WebSocket, room: Room) => {
+    room.clients.delete(socket);
+    if (room.clients.size > 0) {
+      broadcastPresence(room);
+    } else if (rooms.get(room.name) === room) {
+      rooms.delete(room.name);
+      log(`Room "${room.name}" closed`);
+    }
+  };
+
+  wss.on('connection', (socket) => {
+    let room: Room | null = null;
+
+    const handle = (message: ClientMessage) => {
+      if (message.type === 'join') {
+        if (room && room.name !== message.room) leave(socket, room); // Joining again (to catch up) keeps the room
+        let joined = rooms.get(message.room);
+        if (!joined) {
+          joined = { name: message.room, doc: mySchema.nodeFromJSON(message.doc), version: message.version ?? 0, steps: [], clients: new Map() };
+          rooms.set(message.room, joined);
+          log(`Room "${message.room}" started by ${message.user.name}`);
+        }
+        room = joined;
+        room.clients.set(socket, { clientID: message.clientID, user: message.user, selection: null });
+        catchUp(socket, room, message.version);
+        broadcastPresence(room);
+        return;
+      }
+      if (!room) {
+        send(socket, { type: 'error', message: 'Join a room first.' });
+        return;
+      }
+      const peer = room.clients.get(socket)!;
+      if (message.type === 'steps') {
+        if (!receiveSteps(room, peer.clientID, message.version, message.steps)) catchUp(socket, room, null);
+      } else if (message.type === 'presence') {
+        peer.selection = message.selection;
+        broadcastPresence(room);
+      }
+    };
+
+    socket.on('message', (data: RawData) => {
+      try {
+        handle(JSON.parse(data.toString()) as ClientMessage);
+      } catch (error) {
+        send(socket, { type: 'error', message: error instanceof Error ? error.message : 'Invalid message' });
+      }
+    });
+
+    socket.on('close', () => {
+      if (room) leave(socket, room);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const address = wss.address();
+      resolve({
+        port: address && typeof address === 'object' ? address.port : port,
+        close: () => new Promise<void>((done) => {
+          for (const client of wss.clients) client.terminate();
+          wss.close(() => done());
+        }),
+      });
+    });
+  });
+}
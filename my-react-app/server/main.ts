@@ -0,0 +1,14 @@
+/**
+ * Run the collaboration server locally: npm run collab-server (COLLAB_PORT to change the port)
+ */
+import { createCollabServer } from './collabServer';
+import { DEFAULT_COLLAB_PORT } from '../src/services/collab/protocol';
+
+const port = Number(process.env.COLLAB_PORT) || DEFAULT_COLLAB_PORT;
+
+const server = await createCollabServer({ port, log: (message) => console.log(message) });
+console.log(`Collaboration server listening on ws://localhost:${server.port}`);
+
+const shutdown = () => void server.close().then(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
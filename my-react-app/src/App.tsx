@@ -1,56 +1,350 @@
-import { useRef, useState } from 'react';
-import { useMachine } from '@xstate/react';
-import { editorMachine } from './machines/editorMachine';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useActorRef, useSelector } from '@xstate/react';
+import { TextSelection } from 'prosemirror-state';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import {
+  editorMachine,
+  rewriteEvent,
+  selectActivity,
+  selectCanContinue,
+  selectCandidateIndex,
+  selectCandidates,
+  selectError,
+  selectCanRetry,
+  selectHasSelection,
+  selectIsIdle,
+  selectIsReviewing,
+  selectIsWorking,
+} from './machines/editorMachine';
+import type { EditorActivity, EditorSelection } from './machines/editorMachine';
 import { ProseMirrorEditor } from './components/ProseMirrorEditor';
 import type { ProseMirrorEditorHandle } from './components/ProseMirrorEditor';
-import { continueWriting } from './services/aiService';
+import { SelectionToolbar } from './components/SelectionToolbar';
+import { DocumentSidebar } from './components/DocumentSidebar';
+import { FileMenu } from './components/FileMenu';
+import { GenerationHistoryPanel } from './components/GenerationHistoryPanel';
+import { GenerationSettingsPanel } from './components/GenerationSettingsPanel';
+import { PromptLibrary } from './components/PromptLibrary';
+import { OfflineQueuePanel } from './components/OfflineQueuePanel';
+import { ResponseCachePanel } from './components/ResponseCachePanel';
+import { UsagePanel } from './components/UsagePanel';
+import { CollaborationPanel } from './components/CollaborationPanel';
+import { useDocuments } from './hooks/useDocuments';
+import { useGenerationHistory } from './hooks/useGenerationHistory';
+import { useGenerationSettings } from './hooks/useGenerationSettings';
+import { usePromptTemplates } from './hooks/usePromptTemplates';
+import { useOfflineQueue } from './hooks/useOfflineQueue';
+import { useUsage } from './hooks/useUsage';
+import { useCollaboration } from './hooks/useCollaboration';
+import type { SuggestionOutcome } from './plugins/suggestionPlugin';
+import { DEFAULT_CANDIDATE_COUNT, DEFAULT_CONTEXT_WINDOW, responseCache } from './services/aiService';
+import { InvalidSettingsError } from './services/aiErrors';
+import type { RewriteCommand, RewriteTone, SlideAction } from './services/aiService';
+import { toGenerationRecord } from './services/generationHistory';
+import { buildPromptVariables } from './services/prompts';
+import type { PromptTemplate, PromptVariables } from './services/prompts';
+import { downloadFile } from './services/download';
+import { DOCUMENT_FORMATS, formatFromFileName } from './schema/formats';
+import { serializeDeck } from './schema/slides';
+import type { Slide } from './schema/slides';
+import type { CommentThread } from './schema/comments';
+import type { DocumentFormat } from './schema/formats';
+import { BLOCK_SLASH_COMMANDS, createSlashCommandRegistry } from './commands/slashCommands';
+import { saveSelectedProviderId } from './services/providers';
+import type { AIProvider } from './services/providers';
+import type { DocumentStorage, GenerationHistoryStorage, StoredDocument } from './services/storage';
 import './App.css';
 
-function App() {
+// Continue Writing button text while the AI works
+const ACTIVITY_LABELS: Record<NonNullable<EditorActivity>, string> = {
+  thinking: 'AI is thinking...',
+  writing: 'AI is writing...',
+  rewriting: 'AI is rewriting...',
+  retrying: 'Retrying...',
+};
+
+interface AppProps {
+  providers: AIProvider[]; // AI backends available at runtime (injected from main.tsx)
+  defaultProviderId: string; // Provider selected on first render
+  storage: DocumentStorage; // Where documents are persisted (injected from main.tsx)
+  historyStorage: GenerationHistoryStorage; // Where AI generation history is persisted (injected from main.tsx)
+}
+
+function App({ providers, defaultProviderId, storage, historyStorage }: AppProps) {
   const editorRef = useRef<ProseMirrorEditorHandle>(null);
-  const [state, send] = useMachine(editorMachine);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const [providerId, setProviderId] = useState(defaultProviderId);
+  const provider = providers.find((p) => p.id === providerId) ?? providers[0];
+  const [slashCommands] = useState(() => createSlashCommandRegistry(BLOCK_SLASH_COMMANDS)); // Stable: the editor's plugins depend on it
+  const offlineQueue = useOfflineQueue();
+  const queuedItems = offlineQueue.items;
+  const setQueuedPosition = offlineQueue.setPosition;
+  const removeQueued = offlineQueue.remove;
+
+  // The editor machine runs every AI request; the app sends it what the user asked for and shows what it selects
+  const editorActor = useActorRef(editorMachine, { input: { editor: editorRef, provider, online: offlineQueue.online } });
+  const { send } = editorActor;
+  const isWorking = useSelector(editorActor, selectIsWorking);
+  const isIdle = useSelector(editorActor, selectIsIdle);
+  const isReviewing = useSelector(editorActor, selectIsReviewing);
+  const canContinue = useSelector(editorActor, selectCanContinue);
+  const hasSelection = useSelector(editorActor, selectHasSelection);
+  const activity = useSelector(editorActor, selectActivity);
+  const candidates = useSelector(editorActor, selectCandidates);
+  const candidateIndex = useSelector(editorActor, selectCandidateIndex);
+  const error = useSelector(editorActor, selectError);
+  const canRetry = useSelector(editorActor, selectCanRetry); // The failed request can be sent again
 
-  const handleContentChange = (content: string) => {
-    send({ type: 'CONTENT_UPDATED', content });
+  // Put a stored document into the editor and tell the machine (stops any AI work on the previous one)
+  const handleDocumentOpen = useCallback((document: StoredDocument) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.getQueuedPositions().forEach((position, id) => setQueuedPosition(id, position)); // Kept until that document is open again
+    const doc = editor.loadDocument(document.content);
+    if (!doc) return;
+    queuedItems.forEach((item) => {
+      if (item.documentId === document.id && item.position !== undefined) editor.queueAt(item.id, item.position);
+    });
+    send({ type: 'DOCUMENT_LOADED', documentId: document.id, doc });
+  }, [send, queuedItems, setQueuedPosition]);
+
+  const documents = useDocuments(storage, handleDocumentOpen);
+  const history = useGenerationHistory(historyStorage, documents.activeId);
+  const generationSettings = useGenerationSettings(documents.activeId);
+  const [showSettings, setShowSettings] = useState(false);
+  const templates = usePromptTemplates();
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showCache, setShowCache] = useState(false);
+  const usage = useUsage(documents.activeId);
+  const collaboration = useCollaboration(editorRef, documents.activeId);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showCollaboration, setShowCollaboration] = useState(false);
+  const [showSlides, setShowSlides] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null); // Result of the last template import
+  const [templateError, setTemplateError] = useState<string | null>(null); // Why the last template import failed
+  const [importError, setImportError] = useState<string | null>(null);
+  const activeTitle = documents.documents.find((d) => d.id === documents.activeId)?.title ?? 'Untitled';
+
+  const handleExport = (format: DocumentFormat) => {
+    const content = editorRef.current?.exportDocument(format, activeTitle);
+    if (content === undefined) return;
+    const { extension, mimeType } = DOCUMENT_FORMATS[format];
+    downloadFile(`${activeTitle}.${extension}`, content, mimeType);
   };
 
-  const handleContinueWriting = async () => {
-    const textContent = state.context.content;
+  // Save the slides as a standalone HTML presentation
+  const handleExportSlides = (slides: Slide[]) => {
+    downloadFile(`${activeTitle} (slides).html`, serializeDeck(slides, activeTitle), DOCUMENT_FORMATS.html.mimeType);
+  };
 
-    if (!textContent.trim()) {
+  const handleImport = async (file: File) => {
+    const format = formatFromFileName(file.name);
+    if (!format) {
+      setImportError(`Unsupported file type: ${file.name}`);
       return;
     }
+    try {
+      editorRef.current?.importDocument(await file.text(), format);
+      setImportError(null);
+    } catch (error) {
+      setImportError(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'invalid file'}`);
+    }
+  };
+
+  // Deleting a document also deletes its AI history, settings, usage totals and queued requests
+  const handleDelete = async (id: string) => {
+    if (!(await documents.remove(id))) return; // Shown in the sidebar - the document and what belongs to it stay
+    queuedItems.filter((item) => item.documentId === id).forEach((item) => removeQueued(item.id));
+    generationSettings.forget(id);
+    usage.forgetDocument(id);
+    await history.clear(id);
+  };
+
+  // AI output committed to the document (accepted suggestion or applied rewrite)
+  const handleAIInsert = (before: ProseMirrorNode, after: ProseMirrorNode) => {
+    send({ type: 'AI_INSERTED', before, after });
+  };
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    saveSelectedProviderId(id);
+    const { settings } = generationSettings;
+    const next = providers.find((p) => p.id === id);
+    if (settings.model && next && !next.listModels().includes(settings.model)) {
+      generationSettings.update({ ...settings, model: null }); // The picked model belongs to the previous provider
+    }
+  };
+
+  const handleDocumentChange = (doc: ProseMirrorNode) => {
+    documents.scheduleSave(doc);
+    send({ type: 'DOCUMENT_CHANGED', doc });
+  };
+
+  const handleSelectionChange = (selection: EditorSelection) => {
+    send({ type: 'SELECTION_CHANGED', selection });
+  };
+
+  const handleCancelQueued = (id: string) => {
+    offlineQueue.remove(id);
+    editorRef.current?.dropQueued(id);
+  };
+
+  const handleCancelAllQueued = () => {
+    offlineQueue.items.forEach((item) => editorRef.current?.dropQueued(item.id));
+    offlineQueue.clear();
+  };
 
+  // Queued instead while offline (the machine decides)
+  const handleContinueWriting = () => {
     send({ type: 'CONTINUE_WRITING' });
+  };
+
+  // Ask for several continuations at once; the first is shown as the suggestion and the picker switches between them
+  const handleAlternatives = () => {
+    send({ type: 'CONTINUE_ALTERNATIVES' });
+  };
 
+  // Show another alternative as the suggestion (not once part of the suggestion has been accepted)
+  const handlePickCandidate = (index: number) => {
+    send({ type: 'PICK_CANDIDATE', index });
+  };
+
+  const handleSummarize = () => {
+    send({ type: 'SUMMARIZE' });
+  };
+
+  const handleRewrite = (command: RewriteCommand, tone?: RewriteTone) => {
+    send(rewriteEvent(command, tone));
+  };
+
+  // AI action on one slide of the deck (the whole slide, speaker notes included, is replaced)
+  const handleSlideAction = (slide: Slide, action: SlideAction) => {
+    send({ type: 'SLIDE_ACTION', range: { from: slide.from, to: slide.to }, action });
+  };
+
+  // Generate a deck outline of a topic (or of the document) and insert it as headings, bullet lists and speaker notes
+  const handleGenerateOutline = (topic: string) => {
+    send({ type: 'GENERATE_OUTLINE', topic });
+  };
+
+  // Ask the AI to answer in a review thread (the anchored text and the thread are the context)
+  const handleAskAIComment = (thread: CommentThread, quote: string) => {
+    send({ type: 'ASK_AI_COMMENT', thread, quote });
+  };
+
+  // Template variables from the editor and the generation settings
+  const getPromptVariables = (): PromptVariables => {
+    const editor = editorRef.current;
+    return buildPromptVariables({
+      ...editor?.getContextAround(DEFAULT_CONTEXT_WINDOW),
+      selection: editor?.getSelectedContent(),
+      document: editor?.getContent(),
+      title: activeTitle,
+    }, generationSettings.settings);
+  };
+
+  // Run a prompt template: stream a suggestion at the cursor, or replace the selection
+  const handleRunTemplate = (template: PromptTemplate) => {
+    send({ type: 'RUN_TEMPLATE', template, variables: getPromptVariables() });
+  };
+
+  const handleTemplateImport = async (file: File) => {
     try {
-      const response = await continueWriting({ text: textContent });
-      send({ type: 'AI_RESPONSE', content: response.continuation });
-      
-      const formattedContinuation = '\n\n' + response.continuation;
-      
-      if (editorRef.current) {
-        // Start streaming - keep animation active
-        setIsStreaming(true);
-        await editorRef.current.streamContent(formattedContinuation, () => {
-          // Streaming complete - turn off animation
-          setIsStreaming(false);
-          requestAnimationFrame(() => {
-            editorRef.current?.focus();
-          });
-        });
-      }
+      const count = templates.importJSON(await file.text());
+      setTemplateMessage(`Imported ${count} template${count === 1 ? '' : 's'}.`);
+      setTemplateError(null);
     } catch (error) {
-      setIsStreaming(false);
-      send({ 
-        type: 'ERROR', 
-        error: error instanceof Error ? error.message : 'Failed to continue writing' 
-      });
+      setTemplateMessage(null);
+      setTemplateError(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'invalid file'}`);
     }
   };
 
-  const canContinue = state.context.content.trim().length > 0 && !state.context.isLoading;
+  const handleTemplateExport = () => {
+    downloadFile('prompt-templates.json', templates.exportJSON(), 'application/json');
+  };
+
+  const handleStop = () => {
+    send({ type: 'CANCEL' });
+  };
+
+  const handleSuggestionResolved = (outcome: SuggestionOutcome) => {
+    send({ type: outcome === 'accepted' ? 'SUGGESTION_ACCEPTED' : 'SUGGESTION_REJECTED' });
+  };
+
+  // Keep the machine in step with the provider, the settings, the connection and today's usage against the budget
+  useEffect(() => {
+    send({ type: 'PROVIDER_CHANGED', provider });
+  }, [send, provider]);
+
+  useEffect(() => {
+    send({ type: 'SETTINGS_CHANGED', settings: generationSettings.settings });
+  }, [send, generationSettings.settings]);
+
+  useEffect(() => {
+    send({ type: 'CONNECTION_CHANGED', online: offlineQueue.online });
+  }, [send, offlineQueue.online]);
+
+  useEffect(() => {
+    send({ type: 'BUDGET_CHANGED', status: usage.status });
+  }, [send, usage.status]);
+
+  // What the machine reports: finished generations go into the history, token usage into the ledger, queued requests into the queue
+  const addToHistory = history.add;
+  const recordUsage = usage.record;
+  const queueRequest = offlineQueue.add;
+  useEffect(() => {
+    const subscriptions = [
+      editorActor.on('generationFinished', ({ documentId, generation, resolution }) => {
+        const editor = editorRef.current;
+        const record = editor && toGenerationRecord(generation, documentId, resolution, editor.getDocumentJSON());
+        if (record) void addToHistory(record);
+      }),
+      editorActor.on('usage', ({ documentId, model, usage }) => recordUsage({ documentId, model, usage })),
+      editorActor.on('continuationQueued', ({ item }) => queueRequest(item)),
+    ];
+    return () => subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }, [editorActor, addToHistory, recordUsage, queueRequest]);
+
+  // Replay requests queued while offline, oldest first, once the connection is back and no other AI work is running.
+  // Requests made in another document wait until it is open again.
+  const { online } = offlineQueue;
+  const activeId = documents.activeId;
+  useEffect(() => {
+    const next = queuedItems.find((item) => item.documentId === activeId);
+    const editor = editorRef.current;
+    if (!next || !editor || !online || !isIdle) return;
+    if (!editor.resumeQueued(next.id)) {
+      removeQueued(next.id); // Its position was deleted - nowhere left to continue
+      return;
+    }
+    send({ type: 'CONTINUE_WRITING' }); // At the queued position, with the text around it now
+    if (editorActor.getSnapshot().hasTag('working')) {
+      removeQueued(next.id);
+    } else {
+      editor.queueAtCursor(next.id); // Not started (e.g. over budget) - keep it queued where it was
+    }
+  }, [editorActor, send, queuedItems, removeQueued, activeId, online, isIdle]);
+
+  // AI actions in the "/" menu; re-registered every render so they always use the current handlers
+  useEffect(() => slashCommands.register(
+    { id: 'continue', title: 'Continue writing', description: 'AI continues from here', keywords: ['ai', 'write'], group: 'AI', run: handleContinueWriting },
+    { id: 'summarize', title: 'Summarize', description: 'AI summary of the document', keywords: ['ai', 'summary', 'tldr'], group: 'AI', run: handleSummarize },
+    { id: 'outline', title: 'Outline a deck', description: 'AI slide outline of the document', keywords: ['ai', 'slides', 'presentation'], group: 'AI', run: () => handleGenerateOutline('') },
+    {
+      id: 'rewrite',
+      title: 'Rewrite paragraph',
+      description: 'AI rephrases the current paragraph',
+      keywords: ['ai', 'rephrase'],
+      group: 'AI',
+      run: (view) => {
+        const { $from } = view.state.selection;
+        if ($from.parent.content.size === 0 || !editorActor.getSnapshot().matches('idle')) return;
+        const selection = TextSelection.create(view.state.doc, $from.start(), $from.end()); // Select the whole paragraph
+        view.dispatch(view.state.tr.setSelection(selection)); // Reported to the machine before the rewrite is asked for
+        handleRewrite('rephrase');
+      },
+    },
+  ));
 
   return (
     <div className="app-container">
@@ -79,64 +373,293 @@ function App() {
         <p className="hero-subtitle">Create stunning presentations. No design skills required.</p>
       </div>
 
-      {/* Editor Section */}
-      <div className="editor-section">
-        <div className={`editor-container ${state.context.isLoading || isStreaming ? 'ai-writing' : ''}`}>
-          <ProseMirrorEditor
-            ref={editorRef}
-            onChange={handleContentChange}
-            placeholder="Start typing your text here..."
-            isAiWriting={state.context.isLoading || isStreaming}
+      <div className="workspace">
+        <DocumentSidebar
+          documents={documents.documents}
+          activeId={documents.activeId}
+          saveStatus={documents.saveStatus}
+          error={documents.error}
+          disabled={isWorking}
+          onOpen={documents.open}
+          onCreate={documents.create}
+          onRename={documents.rename}
+          onDuplicate={documents.duplicate}
+          onDelete={handleDelete}
+        />
+
+        {/* Editor Section */}
+        <div className="editor-section">
+          <FileMenu
+            disabled={isWorking}
+            onImport={handleImport}
+            onExport={handleExport}
           />
-        </div>
 
-        <div className="controls-container">
-          <button
-            className={`continue-button ${!canContinue ? 'disabled' : ''} ${state.context.isLoading ? 'loading' : ''}`}
-            onClick={handleContinueWriting}
-            disabled={!canContinue}
-          >
-            {state.context.isLoading ? (
-              <>
-                <span className="spinner"></span>
-                <span>AI is writing...</span>
-              </>
-            ) : (
-              'Continue Writing'
-            )}
-          </button>
-
-          {state.context.error && (
-            <div className="error-message">
-              <p>{state.context.error}</p>
-              {(state.context.error.includes('overloaded') || 
-                state.context.error.includes('503') ||
-                state.context.error.includes('quota') ||
-                state.context.error.includes('429')) && (
-                <button
-                  className="retry-button"
-                  onClick={handleContinueWriting}
-                  disabled={state.context.isLoading}
-                >
-                  {state.context.isLoading ? 'Retrying...' : 'Retry'}
-                </button>
-              )}
+          {importError && (
+            <div className="error-message import-error">
+              <p>{importError}</p>
             </div>
           )}
+
+          <div className={`editor-container ${isWorking ? 'ai-writing' : ''}`}>
+            <ProseMirrorEditor
+              ref={editorRef}
+              placeholder="Start typing your text here..."
+              isAiWriting={isWorking}
+              onSuggestionResolved={handleSuggestionResolved}
+              onSelectionChange={handleSelectionChange}
+              onDocumentChange={handleDocumentChange}
+              onImportError={setImportError}
+              slashCommands={slashCommands}
+              onAIInsert={handleAIInsert}
+              candidates={candidates}
+              candidateIndex={candidateIndex}
+              onPickCandidate={handlePickCandidate}
+              showSlides={showSlides}
+              onExportSlides={handleExportSlides}
+              onSlideAction={handleSlideAction}
+              onGenerateOutline={handleGenerateOutline}
+              showComments={showComments}
+              commentAuthor={collaboration.user}
+              onAskAIComment={handleAskAIComment}
+            />
+          </div>
+
+          {hasSelection && (
+            <SelectionToolbar disabled={!isIdle} onCommand={handleRewrite} />
+          )}
+
+          <div className="controls-container">
+            <button
+              className={`continue-button ${!canContinue ? 'disabled' : ''} ${isWorking ? 'loading' : ''}`}
+              onClick={handleContinueWriting}
+              disabled={!canContinue}
+            >
+              {isWorking ? (
+                <>
+                  <span className="spinner"></span>
+                  <span>{ACTIVITY_LABELS[activity ?? 'thinking']}</span>
+                </>
+              ) : (
+                'Continue Writing'
+              )}
+            </button>
+
+            {!isWorking && (
+              <button
+                className="toolbar-button"
+                onClick={handleAlternatives}
+                disabled={!canContinue}
+                title={`Generate ${DEFAULT_CANDIDATE_COUNT} continuations to choose from`}
+                type="button"
+              >
+                Alternatives
+              </button>
+            )}
+
+            {isWorking && (
+              <button className="stop-button" onClick={handleStop} type="button">
+                Stop
+              </button>
+            )}
+
+            {isReviewing && (
+              <div className="review-message">
+                <p>Review the AI suggestion</p>
+                <div className="review-actions">
+                  <button className="retry-button" onClick={() => editorRef.current?.acceptSuggestion()} type="button">
+                    Accept (Tab)
+                  </button>
+                  <button className="stop-button" onClick={() => editorRef.current?.rejectSuggestion()} type="button">
+                    Reject (Esc)
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <select
+              className="provider-select"
+              value={provider.id}
+              onChange={(e) => handleProviderChange(e.target.value)}
+              disabled={isWorking}
+              title="AI provider"
+            >
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+
+            <button
+              className={`toolbar-button ${showSettings ? 'active' : ''}`}
+              onClick={() => setShowSettings((show) => !show)}
+              title="Generation settings"
+              type="button"
+            >
+              Settings
+            </button>
+
+            <button
+              className={`toolbar-button ${showTemplates ? 'active' : ''}`}
+              onClick={() => setShowTemplates((show) => !show)}
+              title="Prompt templates"
+              type="button"
+            >
+              Prompts
+            </button>
+
+            <button
+              className={`toolbar-button ${showCache ? 'active' : ''}`}
+              onClick={() => setShowCache((show) => !show)}
+              title="Cached AI responses"
+              type="button"
+            >
+              Cache
+            </button>
+
+            <button
+              className={`toolbar-button ${showSlides ? 'active' : ''}`}
+              onClick={() => setShowSlides((show) => !show)}
+              title="Slide deck: thumbnails, presenter view and export"
+              type="button"
+            >
+              Slides
+            </button>
+
+            <button
+              className={`toolbar-button ${showComments ? 'active' : ''}`}
+              onClick={() => setShowComments((show) => !show)}
+              title="Review threads on the document"
+              type="button"
+            >
+              Comments
+            </button>
+
+            <button
+              className={`toolbar-button ${showUsage ? 'active' : ''}`}
+              onClick={() => setShowUsage((show) => !show)}
+              title="Token usage, cost and budget"
+              type="button"
+            >
+              Usage
+            </button>
+
+            <button
+              className={`toolbar-button ${showCollaboration || collaboration.room ? 'active' : ''}`}
+              onClick={() => setShowCollaboration((show) => !show)}
+              title="Edit this document together with others"
+              type="button"
+            >
+              {collaboration.room ? `Shared (${collaboration.peers.length + 1})` : 'Share'}
+            </button>
+
+            {usage.status === 'warning' && isIdle && !error && (
+              <div className="budget-warning">Today's AI usage is past your warning limit.</div>
+            )}
+
+            {error && (
+              <div className="error-message">
+                <p>{error.message}</p>
+                {error instanceof InvalidSettingsError && !showSettings && (
+                  <button className="retry-button" onClick={() => setShowSettings(true)}>
+                    Open generation settings
+                  </button>
+                )}
+                {canRetry && (
+                  <button className="retry-button" onClick={() => send({ type: 'RETRY' })}>
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {(!offlineQueue.online || offlineQueue.items.length > 0) && (
+            <OfflineQueuePanel
+              online={offlineQueue.online}
+              items={offlineQueue.items}
+              onCancel={handleCancelQueued}
+              onCancelAll={handleCancelAllQueued}
+            />
+          )}
+
+          {showSettings && (
+            <GenerationSettingsPanel
+              settings={generationSettings.settings}
+              models={provider.listModels()}
+              scope={generationSettings.scope}
+              disabled={isWorking}
+              onChange={generationSettings.update}
+              onScopeChange={generationSettings.changeScope}
+            />
+          )}
+
+          {showTemplates && (
+            <PromptLibrary
+              templates={templates.templates}
+              disabled={!isIdle}
+              hasSelection={hasSelection}
+              getVariables={getPromptVariables}
+              onRun={handleRunTemplate}
+              onSave={templates.save}
+              onDelete={templates.remove}
+              onImport={handleTemplateImport}
+              onExport={handleTemplateExport}
+              message={templateMessage}
+              error={templateError}
+            />
+          )}
+
+          {showCache && <ResponseCachePanel cache={responseCache} />}
+
+          {showUsage && (
+            <UsagePanel
+              ledger={usage.ledger}
+              today={usage.today}
+              document={usage.document}
+              budget={usage.budget}
+              status={usage.status}
+              onBudgetChange={usage.updateBudget}
+              onReset={usage.reset}
+            />
+          )}
+
+          {showCollaboration && (
+            <CollaborationPanel
+              documentId={documents.activeId}
+              room={collaboration.room}
+              status={collaboration.status}
+              peers={collaboration.peers}
+              error={collaboration.error}
+              user={collaboration.user}
+              onUserChange={collaboration.updateUser}
+              onJoin={collaboration.join}
+              onLeave={collaboration.leave}
+            />
+          )}
+
+          <GenerationHistoryPanel
+            records={history.records}
+            error={history.error}
+            disabled={isWorking}
+            onRestore={(snapshot) => editorRef.current?.restoreDocument(snapshot)}
+            onClear={() => {
+              if (documents.activeId) void history.clear(documents.activeId);
+            }}
+          />
         </div>
       </div>
 
       {/* Info Section */}
       <div className="info-section">
         <p className="info-text">
-          💡 <strong>Tip:</strong> Type some text and click "Continue Writing" to have Gemini AI complete your paragraph naturally.
+          💡 <strong>Tip:</strong> Type some text, place the cursor where you want more, and click "Continue Writing" to have AI continue from there.
         </p>
         <p className="info-text">
-          ⌨️ <strong>Shortcuts:</strong> Ctrl+Z (Undo), Ctrl+Y (Redo), Ctrl+B (Bold), Ctrl+I (Italic), Ctrl+U (Underline)
+          ⌨️ <strong>Shortcuts:</strong> Ctrl+Z (Undo), Ctrl+Y (Redo), Ctrl+B (Bold), Ctrl+I (Italic), Ctrl+U (Underline), Tab (Accept suggestion), Esc (Reject suggestion)
         </p>
-        {!import.meta.env.VITE_GEMINI_API_KEY && (
+        {provider.id === 'gemini' && !import.meta.env.VITE_GEMINI_API_KEY && (
           <p className="info-text warning">
-            ⚠️ <strong>Setup Required:</strong> Please configure your Gemini API key in the .env file (VITE_GEMINI_API_KEY) to use the AI features.
+            ⚠️ <strong>Setup Required:</strong> Please configure your Gemini API key in the .env file (VITE_GEMINI_API_KEY) to use the AI features, or switch to the local mock provider.
           </p>
         )}
       </div>
@@ -0,0 +1,192 @@
+import { chainCommands, exitCode, lift, setBlockType, toggleMark, wrapIn } from 'prosemirror-commands';
+import type { Command, EditorState } from 'prosemirror-state';
+import { keymap } from 'prosemirror-keymap';
+import type { Plugin } from 'prosemirror-state';
+import type { NodeType, ResolvedPos } from 'prosemirror-model';
+import { liftListItem, sinkListItem, splitListItem, wrapInList } from 'prosemirror-schema-list';
+import { mySchema } from '../schema/editorSchema';
+
+const { nodes, marks } = mySchema;
+
+// DOM event the toolbar listens for to open its link editor (fired by Mod-K)
+export const EDIT_LINK_EVENT = 'prosemirror-edit-link';
+
+// Block types offered in the toolbar's block type select
+export type BlockTypeName = 'paragraph' | 'heading1' | 'heading2' | 'heading3' | 'heading4' | 'heading5' | 'heading6' | 'code_block';
+
+// Switch the selected textblocks to a paragraph, heading or code block
+export const setBlock = (name: BlockTypeName): Command => {
+  if (name === 'paragraph') return setBlockType(nodes.paragraph);
+  if (name === 'code_block') return setBlockType(nodes.code_block);
+  return setBlockType(nodes.heading, { level: Number(name.slice('heading'.length)) });
+};
+
+// Wrap the selection in a wrapper node, or lift it out when it is already inside one
+const toggleWrap = (type: NodeType, wrap: Command): Command => (state, dispatch, view) =>
+  getBlockState(state).wrappers.has(type.name) ? lift(state, dispatch, view) : wrap(state, dispatch, view);
+
+export const toggleBlockquote = toggleWrap(nodes.blockquote, wrapIn(nodes.blockquote));
+export const toggleSpeakerNotes = toggleWrap(nodes.speaker_notes, wrapIn(nodes.speaker_notes)); // Paragraphs shown only in the presenter view
+
+// Toggle a list: lift out when the selection is already in a list of that type
+const toggleList = (type: NodeType): Command => (state, dispatch, view) =>
+  getBlockState(state).wrappers.has(type.name)
+    ? liftListItem(nodes.list_item)(state, dispatch, view)
+    : wrapInList(type)(state, dispatch, view);
+
+export const toggleBulletList = toggleList(nodes.bullet_list);
+export const toggleOrderedList = toggleList(nodes.ordered_list);
+export const liftItem = liftListItem(nodes.list_item); // Outdent a list item
+export const sinkItem = sinkListItem(nodes.list_item); // Indent a list item
+
+// Replace the selection with a horizontal rule
+export const insertHorizontalRule: Command = (state, dispatch) => {
+  if (dispatch) {
+    dispatch(state.tr.replaceSelectionWith(nodes.horizontal_rule.create()).scrollIntoView());
+  }
+  return true;
+};
+
+// Replace the selection with a slide break (the following blocks start a new slide)
+export const insertSlideBreak: Command = (state, dispatch) => {
+  if (dispatch) {
+    dispatch(state.tr.replaceSelectionWith(nodes.slide_break.create()).scrollIntoView());
+  }
+  return true;
+};
+
+// Insert a hard break (Shift-Enter; also leaves a code block with Mod-Enter via exitCode first)
+const insertHardBreak: Command = (state, dispatch) => {
+  if (dispatch) {
+    dispatch(state.tr.replaceSelectionWith(nodes.hard_break.create()).scrollIntoView());
+  }
+  return true;
+};
+
+// Range of the link under the cursor (whole run of text sharing the link mark)
+export interface LinkRange {
+  from: number;
+  to: number;
+  href: string;
+}
+
+// Find the link mark next to $pos and extend it across neighbouring text nodes
+function linkAround($pos: ResolvedPos): LinkRange | null {
+  const parent = $pos.parent;
+  for (const { node, index, offset } of [parent.childAfter($pos.parentOffset), parent.childBefore($pos.parentOffset)]) {
+    const mark = node && marks.link.isInSet(node.marks);
+    if (!node || !mark) continue;
+    let from = $pos.start() + offset;
+    let to = from + node.nodeSize;
+    for (let i = index - 1; i >= 0 && mark.isInSet(parent.child(i).marks); i--) from -= parent.child(i).nodeSize;
+    for (let i = index + 1; i < parent.childCount && mark.isInSet(parent.child(i).marks); i++) to += parent.child(i).nodeSize;
+    return { from, to, href: mark.attrs.href as string };
+  }
+  return null;
+}
+
+// The link at the cursor or selection start (null when there is none)
+export function getLink(state: EditorState): LinkRange | null {
+  return linkAround(state.selection.$from);
+}
+
+// Link the selection (or update the link at the cursor); with nothing selected, insert the URL as linked text
+export const setLink = (href: string): Command => (state, dispatch) => {
+  const { empty, from, to } = state.selection;
+  const range = empty ? getLink(state) : { from, to };
+  if (dispatch) {
+    const tr = state.tr;
+    const link = marks.link.create({ href });
+    if (range) {
+      tr.removeMark(range.from, range.to, marks.link).addMark(range.from, range.to, link);
+    } else {
+      tr.replaceSelectionWith(mySchema.text(href, [link]), false);
+    }
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
+
+// Remove the link from the selection, or from the whole link at the cursor
+export const removeLink: Command = (state, dispatch) => {
+  const { empty, from, to } = state.selection;
+  const range = empty ? getLink(state) : { from, to };
+  if (!range || !state.doc.rangeHasMark(range.from, range.to, marks.link)) return false;
+  if (dispatch) {
+    dispatch(state.tr.removeMark(range.from, range.to, marks.link));
+  }
+  return true;
+};
+
+// Ask the toolbar to open its link editor
+export const openLinkEditor: Command = (_state, dispatch, view) => {
+  if (!view) return false;
+  if (dispatch) view.dom.dispatchEvent(new Event(EDIT_LINK_EVENT));
+  return true;
+};
+
+// Block formatting of the selection, for toolbar active states
+export interface BlockState {
+  blockType: BlockTypeName | null; // Shared by every selected textblock (null when mixed)
+  wrappers: Set<string>; // Wrapper nodes (lists, blockquote) around every selected textblock
+}
+
+// Toolbar name of a textblock
+const blockTypeName = (type: NodeType, level: number): BlockTypeName | null => {
+  if (type === nodes.paragraph) return 'paragraph';
+  if (type === nodes.code_block) return 'code_block';
+  if (type === nodes.heading) return `heading${level}` as BlockTypeName;
+  return null;
+};
+
+/**
+ * Block type and wrappers that apply to the whole selection (same rule as mark detection: active only if everywhere)
+ */
+export function getBlockState(state: EditorState): BlockState {
+  const { from, to } = state.selection;
+  let blockType: BlockTypeName | null | undefined;
+  let wrappers: Set<string> | null = null;
+
+  state.doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) return true;
+    const name = blockTypeName(node.type, node.attrs.level as number);
+    blockType = blockType === undefined || blockType === name ? name : null;
+
+    const $pos = state.doc.resolve(pos + 1);
+    const ancestors = new Set<string>();
+    for (let depth = $pos.depth - 1; depth > 0; depth--) ancestors.add($pos.node(depth).type.name);
+    wrappers = wrappers === null ? ancestors : new Set([...wrappers].filter((n) => ancestors.has(n)));
+    return false;
+  });
+
+  return { blockType: blockType ?? null, wrappers: wrappers ?? new Set() };
+}
+
+/**
+ * Block formatting shortcuts (bindings follow prosemirror-example-setup).
+ * Tab / Shift-Tab indent and outdent list items once no AI suggestion is claiming Tab.
+ */
+export function createFormattingKeymap(): Plugin {
+  const bindings: Record<string, Command> = {
+    'Mod-k': openLinkEditor, // Edit the link at the cursor
+    'Shift-Ctrl-0': setBlock('paragraph'),
+    'Shift-Ctrl-\\': setBlock('code_block'),
+    'Shift-Ctrl-8': toggleBulletList,
+    'Shift-Ctrl-9': toggleOrderedList,
+    'Ctrl->': toggleBlockquote,
+    'Mod-_': insertHorizontalRule,
+    'Mod-Shift-Enter': insertSlideBreak,
+    'Mod-Enter': chainCommands(exitCode, insertHardBreak), // Leave a code block, otherwise hard break
+    'Shift-Enter': chainCommands(exitCode, insertHardBreak),
+    Enter: splitListItem(nodes.list_item), // New list item (falls through to baseKeymap outside lists)
+    'Mod-[': liftItem,
+    'Mod-]': sinkItem,
+    Tab: sinkItem,
+    'Shift-Tab': liftItem,
+    'Mod-`': toggleMark(marks.code), // Inline code
+  };
+  for (let level = 1; level <= 6; level++) {
+    bindings[`Shift-Ctrl-${level}`] = setBlock(`heading${level}` as BlockTypeName);
+  }
+  return keymap(bindings);
+}
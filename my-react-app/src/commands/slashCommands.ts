@@ -0,0 +1,73 @@
+import type { EditorView } from 'prosemirror-view';
+import type { Command } from 'prosemirror-state';
+import {
+  insertHorizontalRule,
+  insertSlideBreak,
+  setBlock,
+  toggleBlockquote,
+  toggleBulletList,
+  toggleOrderedList,
+  toggleSpeakerNotes,
+} from './formatting';
+
+// An entry in the "/" menu
+export interface SlashCommand {
+  id: string; // Unique id (registering the same id again replaces the entry)
+  title: string; // Shown in the menu and matched against the query
+  description?: string; // Secondary line in the menu
+  keywords?: string[]; // Extra words the query can match
+  group: string; // Menu section ("Blocks", "AI", ...)
+  run: (view: EditorView) => void; // Executed after the "/query" text has been removed
+}
+
+/**
+ * Slash commands shown in the menu. Anything can add entries (block types, AI actions, plugins)
+ * without touching the menu component.
+ */
+export interface SlashCommandRegistry {
+  register: (...commands: SlashCommand[]) => () => void; // Returns a function that removes the entries again
+  getAll: () => SlashCommand[]; // In registration order
+}
+
+export function createSlashCommandRegistry(initial: SlashCommand[] = []): SlashCommandRegistry {
+  const commands = new Map<string, SlashCommand>(initial.map((command) => [command.id, command]));
+  return {
+    register(...added) {
+      added.forEach((command) => commands.set(command.id, command));
+      return () => added.forEach((command) => {
+        if (commands.get(command.id) === command) commands.delete(command.id); // Leave newer registrations alone
+      });
+    },
+    getAll: () => [...commands.values()],
+  };
+}
+
+// Commands whose title, id or keywords start with (or contain) the query, prefix matches first
+export function filterSlashCommands(commands: SlashCommand[], query: string): SlashCommand[] {
+  const q = query.toLowerCase();
+  if (!q) return commands;
+  const words = (c: SlashCommand) => [c.title, c.id, ...(c.keywords ?? [])].map((w) => w.toLowerCase());
+  const prefix = commands.filter((c) => words(c).some((w) => w.split(/\s+/).some((part) => part.startsWith(q))));
+  const contains = commands.filter((c) => !prefix.includes(c) && words(c).some((w) => w.includes(q)));
+  return [...prefix, ...contains];
+}
+
+// Run a ProseMirror command against the view
+const runCommand = (command: Command) => (view: EditorView) => {
+  command(view.state, view.dispatch, view);
+};
+
+// Block types offered by the "/" menu
+export const BLOCK_SLASH_COMMANDS: SlashCommand[] = [
+  { id: 'paragraph', title: 'Text', description: 'Plain paragraph', keywords: ['paragraph'], group: 'Blocks', run: runCommand(setBlock('paragraph')) },
+  { id: 'heading1', title: 'Heading 1', description: 'Large section heading', keywords: ['h1', 'title'], group: 'Blocks', run: runCommand(setBlock('heading1')) },
+  { id: 'heading2', title: 'Heading 2', description: 'Medium section heading', keywords: ['h2', 'subtitle'], group: 'Blocks', run: runCommand(setBlock('heading2')) },
+  { id: 'heading3', title: 'Heading 3', description: 'Small section heading', keywords: ['h3'], group: 'Blocks', run: runCommand(setBlock('heading3')) },
+  { id: 'bulletList', title: 'Bullet list', description: 'Unordered list', keywords: ['ul', 'unordered'], group: 'Blocks', run: runCommand(toggleBulletList) },
+  { id: 'orderedList', title: 'Numbered list', description: 'Ordered list', keywords: ['ol', 'ordered'], group: 'Blocks', run: runCommand(toggleOrderedList) },
+  { id: 'blockquote', title: 'Quote', description: 'Blockquote', keywords: ['blockquote'], group: 'Blocks', run: runCommand(toggleBlockquote) },
+  { id: 'codeBlock', title: 'Code block', description: 'Monospaced code', keywords: ['pre'], group: 'Blocks', run: runCommand(setBlock('code_block')) },
+  { id: 'divider', title: 'Divider', description: 'Horizontal rule', keywords: ['hr', 'rule', 'separator'], group: 'Blocks', run: runCommand(insertHorizontalRule) },
+  { id: 'slideBreak', title: 'Slide break', description: 'Start a new slide', keywords: ['slide', 'page', 'presentation'], group: 'Slides', run: runCommand(insertSlideBreak) },
+  { id: 'speakerNotes', title: 'Speaker notes', description: 'Notes for the presenter view', keywords: ['notes', 'presenter'], group: 'Slides', run: runCommand(toggleSpeakerNotes) },
+];
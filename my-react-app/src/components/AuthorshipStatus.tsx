@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { EditorView } from 'prosemirror-view';
+import { getAuthorshipStats } from '../plugins/authorshipPlugin';
+
+interface AuthorshipStatusProps {
+  view: EditorView | null;
+  highlight: boolean; // AI text highlighted in the editor
+  onHighlightChange: (highlight: boolean) => void;
+}
+
+// AI / human share of the document, with the toggle that highlights AI-written text
+export const AuthorshipStatus = ({ view, highlight, onHighlightChange }: AuthorshipStatusProps) => {
+  const [, setRevision] = useState(0); // Bumped to re-render from the editor state
+
+  useEffect(() => {
+    if (!view) return;
+    const update = () => setRevision((n) => n + 1);
+    view.dom.addEventListener('prosemirror-update', update); // Same event the formatting toolbar listens to
+    return () => view.dom.removeEventListener('prosemirror-update', update);
+  }, [view]);
+
+  const doc = view && !view.isDestroyed ? view.state.doc : null;
+  const stats = useMemo(() => (doc ? getAuthorshipStats(doc) : null), [doc]); // Re-counted only when the document changed
+  if (!stats) return null;
+  const aiPercent = Math.round(stats.aiRatio * 100);
+
+  return (
+    <div className="authorship-status">
+      <span title={`${stats.aiChars} of ${stats.totalChars} characters written by the AI`}>
+        AI {aiPercent}% · Human {stats.totalChars ? 100 - aiPercent : 0}%
+      </span>
+      <label className="authorship-toggle">
+        <input type="checkbox" checked={highlight} onChange={(e) => onHighlightChange(e.target.checked)} />
+        Highlight AI text
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import type { EditorView } from 'prosemirror-view';
+import { getSuggestion } from '../plugins/suggestionPlugin';
+
+interface CandidatePickerProps {
+  view: EditorView | null;
+  candidates: string[]; // Alternative continuations
+  index: number; // Alternative shown as the suggestion
+  onPick: (index: number) => void;
+}
+
+// Popover above the suggestion showing the alternatives side by side (the picked one is the ghost text)
+export const CandidatePicker = ({ view, candidates, index, onPick }: CandidatePickerProps) => {
+  const [, setRevision] = useState(0); // Bumped to re-render from the editor state
+
+  useEffect(() => {
+    if (!view) return;
+    const update = () => setRevision((n) => n + 1);
+    view.dom.addEventListener('prosemirror-update', update); // Follow the suggestion as the document changes
+    return () => view.dom.removeEventListener('prosemirror-update', update);
+  }, [view]);
+
+  if (!view || view.isDestroyed || candidates.length < 2) return null;
+  const suggestion = getSuggestion(view.state);
+  if (!suggestion?.text) return null;
+
+  // Anchor at the insertion point (relative to the editor wrapper, which is the positioned ancestor)
+  const wrapper = view.dom.closest('.prosemirror-editor-wrapper');
+  const coords = view.coordsAtPos(suggestion.pos);
+  const origin = wrapper?.getBoundingClientRect() ?? { left: 0, top: 0 };
+
+  return (
+    <div className="candidate-picker" style={{ left: coords.left - origin.left, top: coords.top - origin.top - 8 }}>
+      <div className="candidate-picker-cards">
+        {candidates.map((candidate, i) => (
+          <button
+            key={i}
+            className={`candidate-card ${i === index ? 'active' : ''}`}
+            onMouseDown={(e) => e.preventDefault()} // Keep the editor selection
+            onClick={() => onPick(i)}
+            type="button"
+          >
+            <span className="candidate-number">{i + 1}</span>
+            <span className="candidate-text">{candidate}</span>
+          </button>
+        ))}
+      </div>
+      <div className="candidate-picker-hint">Alt+[ / Alt+] switch · Tab insert · Esc dismiss</div>
+    </div>
+  );
+};
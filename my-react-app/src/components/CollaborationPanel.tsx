@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { COLLAB_COLORS } from '../services/collab';
+import type { CollabPeer, CollabStatus, CollabUser } from '../services/collab';
+
+interface CollaborationPanelProps {
+  documentId: string | null; // Suggested room name for sharing the open document
+  room: string | null; // Room the document is shared in (null when not collaborating)
+  status: CollabStatus;
+  peers: CollabPeer[];
+  error: string | null; // Problem reported by the server or with its messages
+  user: CollabUser;
+  onUserChange: (user: CollabUser) => void;
+  onJoin: (room: string) => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  offline: 'Offline - reconnecting…',
+};
+
+// Share the open document in a room on the collaboration server, and who else is editing it
+export const CollaborationPanel = ({ documentId, room, status, peers, error, user, onUserChange, onJoin, onLeave }: CollaborationPanelProps) => {
+  const [roomInput, setRoomInput] = useState(''); // Empty = the document's own room
+
+  // Commit the name when editing is done (each change of user rejoins the room)
+  const commitName = (name: string) => {
+    if (name.trim() && name.trim() !== user.name) onUserChange({ ...user, name: name.trim() });
+  };
+
+  return (
+    <section className="history-panel">
+      <div className="history-header">
+        <span className="document-sidebar-title">Collaboration</span>
+        {room && <span className={`collab-status collab-status-${status}`}>{STATUS_LABELS[status]}</span>}
+      </div>
+
+      <div className="collab-user">
+        <input
+          className="collab-input"
+          defaultValue={user.name}
+          key={user.name} // Reset the field when the name changes elsewhere
+          onBlur={(e) => commitName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && commitName(e.currentTarget.value)}
+          aria-label="Your name"
+          maxLength={40}
+        />
+        {COLLAB_COLORS.map((color) => (
+          <button
+            key={color}
+            className={`collab-color ${color === user.color ? 'active' : ''}`}
+            style={{ background: color }}
+            onClick={() => onUserChange({ ...user, color })}
+            aria-label={`Cursor color ${color}`}
+            type="button"
+          />
+        ))}
+      </div>
+
+      {room ? (
+        <>
+          <p className="history-note">
+            Sharing in room <code>{room}</code> - others join it with the same room name.{' '}
+            <button className="toolbar-button" onClick={() => void navigator.clipboard?.writeText(room)} type="button">Copy</button>
+          </p>
+          {error && <p className="error-message">{error}</p>}
+          <ul className="collab-peers">
+            {peers.length === 0 && <li className="history-note">Nobody else is here yet.</li>}
+            {peers.map((peer) => (
+              <li key={peer.clientID}>
+                <span className="collab-dot" style={{ background: peer.user.color }} />
+                {peer.user.name}
+              </li>
+            ))}
+          </ul>
+          <button className="toolbar-button" onClick={onLeave} type="button">Stop sharing</button>
+        </>
+      ) : (
+        <form
+          className="collab-join"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onJoin(roomInput.trim() || documentId || '');
+          }}
+        >
+          <input
+            className="collab-input"
+            value={roomInput}
+            onChange={(e) => setRoomInput(e.target.value)}
+            placeholder="Room name (empty = share this document)"
+            aria-label="Room name"
+          />
+          <button className="toolbar-button" disabled={!documentId} type="submit">Share / Join</button>
+          <p className="history-note">Joining a room that already exists replaces this document with the shared one.</p>
+        </form>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import type { EditorView } from 'prosemirror-view';
+import { TextSelection } from 'prosemirror-state';
+import { addThread, commentRanges, deleteThread, getThreads, replyToThread, setThreadResolved } from '../schema/comments';
+import type { CommentMessage, CommentThread } from '../schema/comments';
+import { getCommentsState, setActiveThread, setCommentDraft } from '../plugins/commentsPlugin';
+import type { CollabUser } from '../services/collab';
+
+interface CommentsPanelProps {
+  view: EditorView | null;
+  open: boolean; // Show the threads (the panel also opens while a comment is being written)
+  author: CollabUser; // Name and color on comments and replies
+  onAskAI?: (thread: CommentThread, quote: string) => void; // Ask the AI to answer in a thread (no button when omitted)
+  aiBusy?: boolean; // An AI request is running - "Ask AI" is disabled
+}
+
+const newMessage = (author: CollabUser, text: string): CommentMessage => ({
+  id: crypto.randomUUID(),
+  author: author.name,
+  color: author.color,
+  text,
+  createdAt: Date.now(),
+});
+
+// Review threads of the document with their replies, and the form for a new comment on the selected text
+export const CommentsPanel = ({ view, open, author, onAskAI, aiBusy = false }: CommentsPanelProps) => {
+  const [, setRevision] = useState(0); // Bumped to re-render from the editor state
+  const [draftText, setDraftText] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({}); // Reply being written per thread
+  const [showResolved, setShowResolved] = useState(false);
+
+  useEffect(() => {
+    if (!view) return;
+    const update = () => setRevision((n) => n + 1);
+    view.dom.addEventListener('prosemirror-update', update); // Threads follow every edit
+    return () => view.dom.removeEventListener('prosemirror-update', update);
+  }, [view]);
+
+  if (!view || view.isDestroyed) return null;
+  const { draft, active } = getCommentsState(view.state);
+  if (!open && !draft) return null;
+
+  const { doc } = view.state;
+  const ranges = commentRanges(doc);
+  const threads = getThreads(doc);
+  const visible = threads.filter((thread) => showResolved || !thread.resolved || thread.id === active);
+  const resolvedCount = threads.filter((thread) => thread.resolved).length;
+  const anchoredText = (thread: CommentThread) =>
+    (ranges.get(thread.id) ?? []).map(({ from, to }) => doc.textBetween(from, to, ' ')).join(' … ');
+
+  const postComment = () => {
+    if (!draft || !draftText.trim()) return;
+    view.dispatch(setCommentDraft(addThread(view.state.tr, draft.from, draft.to, newMessage(author, draftText.trim())), null));
+    setDraftText('');
+    view.focus();
+  };
+
+  const cancelComment = () => {
+    view.dispatch(setCommentDraft(view.state.tr, null));
+    setDraftText('');
+    view.focus();
+  };
+
+  const postReply = (thread: CommentThread) => {
+    const text = replies[thread.id]?.trim();
+    if (!text) return;
+    view.dispatch(replyToThread(view.state.tr, thread.id, newMessage(author, text)));
+    setReplies({ ...replies, [thread.id]: '' });
+  };
+
+  // Select the text a thread is anchored to
+  const goToThread = (thread: CommentThread) => {
+    const first = ranges.get(thread.id)?.[0];
+    const tr = setActiveThread(view.state.tr, thread.id);
+    view.dispatch(first ? tr.setSelection(TextSelection.create(doc, first.from, first.to)).scrollIntoView() : tr);
+  };
+
+  const removeThread = (thread: CommentThread) => {
+    if (window.confirm('Delete this comment thread?')) view.dispatch(deleteThread(view.state.tr, thread.id));
+  };
+
+  return (
+    <section className="history-panel comments-panel">
+      <div className="history-header">
+        <span className="document-sidebar-title">Comments ({threads.length - resolvedCount})</span>
+        {resolvedCount > 0 && (
+          <label className="comments-filter">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            Show resolved ({resolvedCount})
+          </label>
+        )}
+      </div>
+
+      {draft && (
+        <form
+          className="comment-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            postComment();
+          }}
+        >
+          <blockquote className="comment-quote">{doc.textBetween(draft.from, draft.to, ' ')}</blockquote>
+          <textarea
+            className="comment-input"
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && cancelComment()}
+            placeholder="Add a comment…"
+            aria-label="Comment"
+            autoFocus
+          />
+          <div className="history-actions">
+            <button className="toolbar-button" disabled={!draftText.trim()} type="submit">Comment</button>
+            <button className="toolbar-button" onClick={cancelComment} type="button">Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {visible.length === 0 && !draft ? (
+        <p className="history-note">Select text and press Ctrl+Alt+M (or the 💬 button) to comment on it.</p>
+      ) : (
+        <ul className="comment-threads">
+          {visible.map((thread) => {
+            const text = anchoredText(thread);
+            return (
+              <li key={thread.id} className={`comment-thread ${thread.id === active ? 'active' : ''} ${thread.resolved ? 'resolved' : ''}`}>
+                <button className="comment-quote" onClick={() => goToThread(thread)} title="Show in the document" type="button">
+                  {text || <><s>{thread.quote}</s> (text deleted)</>}
+                </button>
+                <ul className="comment-messages">
+                  {thread.messages.map((entry) => (
+                    <li key={entry.id}>
+                      <span className="comment-author">
+                        <span className={`collab-dot ${entry.model ? 'comment-ai' : ''}`} style={entry.color ? { background: entry.color } : undefined} />
+                        {entry.author}{entry.model && ` (${entry.model})`}
+                      </span>
+                      <span className="history-meta">{new Date(entry.createdAt).toLocaleString()}</span>
+                      <p className="comment-text">{entry.text}</p>
+                    </li>
+                  ))}
+                </ul>
+                {!thread.resolved && (
+                  <form
+                    className="comment-reply"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      postReply(thread);
+                    }}
+                  >
+                    <input
+                      className="collab-input"
+                      value={replies[thread.id] ?? ''}
+                      onChange={(e) => setReplies({ ...replies, [thread.id]: e.target.value })}
+                      placeholder="Reply…"
+                      aria-label="Reply"
+                    />
+                    <button className="toolbar-button" disabled={!replies[thread.id]?.trim()} type="submit">Reply</button>
+                  </form>
+                )}
+                <div className="history-actions">
+                  {onAskAI && !thread.resolved && (
+                    <button
+                      className="toolbar-button"
+                      onClick={() => onAskAI(thread, text || thread.quote)}
+                      disabled={aiBusy}
+                      title="Ask the AI to answer in this thread"
+                      type="button"
+                    >
+                      Ask AI
+                    </button>
+                  )}
+                  <button
+                    className="toolbar-button"
+                    onClick={() => view.dispatch(setThreadResolved(view.state.tr, thread.id, !thread.resolved))}
+                    type="button"
+                  >
+                    {thread.resolved ? 'Reopen' : 'Resolve'}
+                  </button>
+                  <button className="toolbar-button" onClick={() => removeThread(thread)} type="button">Delete</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
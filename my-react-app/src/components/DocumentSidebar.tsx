@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { DocumentMeta } from '../services/storage';
+import type { SaveStatus } from '../hooks/useDocuments';
+
+interface DocumentSidebarProps {
+  documents: DocumentMeta[]; // Most recently updated first
+  activeId: string | null; // Document open in the editor
+  saveStatus: SaveStatus;
+  error: string | null; // Why saving or loading documents failed
+  disabled: boolean; // True while the AI is working on the open document
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  loading: 'Loading…',
+  saved: 'All changes saved',
+  unsaved: 'Unsaved changes',
+  saving: 'Saving…',
+  error: 'Could not save',
+};
+
+export const DocumentSidebar = ({
+  documents,
+  activeId,
+  saveStatus,
+  error,
+  disabled,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DocumentSidebarProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null); // Document whose title is being edited
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (doc: DocumentMeta) => {
+    setEditingId(doc.id);
+    setDraftTitle(doc.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const confirmDelete = (doc: DocumentMeta) => {
+    if (window.confirm(`Delete "${doc.title}"? This cannot be undone.`)) {
+      onDelete(doc.id);
+    }
+  };
+
+  return (
+    <aside className="document-sidebar">
+      <div className="document-sidebar-header">
+        <span className="document-sidebar-title">Documents</span>
+        <button className="toolbar-button" onClick={onCreate} disabled={disabled} title="New document" type="button">
+          +
+        </button>
+      </div>
+
+      <ul className="document-list">
+        {documents.map((doc) => (
+          <li key={doc.id} className={`document-item ${doc.id === activeId ? 'active' : ''}`}>
+            {editingId === doc.id ? (
+              <input
+                className="document-title-input"
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                autoFocus
+              />
+            ) : (
+              <button
+                className="document-open"
+                onClick={() => onOpen(doc.id)}
+                onDoubleClick={() => startRename(doc)}
+                disabled={disabled && doc.id !== activeId}
+                title={`Last edited ${new Date(doc.updatedAt).toLocaleString()}`}
+                type="button"
+              >
+                {doc.title}
+              </button>
+            )}
+            <div className="document-actions">
+              <button className="document-action" onClick={() => startRename(doc)} title="Rename" type="button">✎</button>
+              <button className="document-action" onClick={() => onDuplicate(doc.id)} disabled={disabled} title="Duplicate" type="button">⧉</button>
+              <button className="document-action" onClick={() => confirmDelete(doc)} disabled={disabled} title="Delete" type="button">✕</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="error-message">{error}</p>}
+      <div className={`save-status save-status-${saveStatus}`}>{SAVE_STATUS_LABELS[saveStatus]}</div>
+    </aside>
+  );
+};
@@ -0,0 +1,52 @@
+import { useRef } from 'react';
+import { DOCUMENT_FORMATS } from '../schema/formats';
+import type { DocumentFormat } from '../schema/formats';
+
+interface FileMenuProps {
+  disabled: boolean; // True while the AI is working on the document
+  onImport: (file: File) => void;
+  onExport: (format: DocumentFormat) => void;
+}
+
+// File types offered by the import dialog
+const IMPORT_ACCEPT = '.md,.markdown,.html,.htm,.txt,.json';
+
+export const FileMenu = ({ disabled, onImport, onExport }: FileMenuProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="file-menu">
+      <button
+        className="toolbar-button file-menu-button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title="Import a Markdown, HTML, text or JSON file (replaces the document - or drop files onto the editor to insert them)"
+        type="button"
+      >
+        Import
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMPORT_ACCEPT}
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = ''; // Allow importing the same file again
+        }}
+      />
+      <select
+        className="toolbar-select"
+        value=""
+        onChange={(e) => onExport(e.target.value as DocumentFormat)}
+        title="Export the document"
+      >
+        <option value="" disabled>Export…</option>
+        {(Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).map((format) => (
+          <option key={format} value={format}>{DOCUMENT_FORMATS[format].label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -1,14 +1,52 @@
 import { useState, useEffect } from 'react';
 import { EditorView } from 'prosemirror-view';
 import { toggleMark } from 'prosemirror-commands';
+import type { Command } from 'prosemirror-state';
+import {
+  EDIT_LINK_EVENT,
+  getBlockState,
+  getLink,
+  insertHorizontalRule,
+  liftItem,
+  removeLink,
+  setBlock,
+  setLink,
+  sinkItem,
+  toggleBlockquote,
+  toggleBulletList,
+  toggleOrderedList,
+} from '../commands/formatting';
+import type { BlockState, BlockTypeName } from '../commands/formatting';
+import { isSafeUrl } from '../schema/formats';
+import { startComment } from '../plugins/commentsPlugin';
 
 interface FormattingToolbarProps {
   view: EditorView | null;
 }
 
+// Options of the block type select
+const BLOCK_TYPES: { name: BlockTypeName; label: string }[] = [
+  { name: 'paragraph', label: 'Paragraph' },
+  { name: 'heading1', label: 'Heading 1' },
+  { name: 'heading2', label: 'Heading 2' },
+  { name: 'heading3', label: 'Heading 3' },
+  { name: 'heading4', label: 'Heading 4' },
+  { name: 'heading5', label: 'Heading 5' },
+  { name: 'heading6', label: 'Heading 6' },
+  { name: 'code_block', label: 'Code block' },
+];
+
+// Add https:// to bare domains ("example.com" -> "https://example.com")
+const normalizeHref = (href: string) =>
+  /^([a-z][\w+.-]*:|\/|#)/i.test(href) ? href : `https://${href}`;
+
 export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
   const [activeMarks, setActiveMarks] = useState<Set<string>>(new Set());
   const [fontSize, setFontSize] = useState<string>('16px');
+  const [blockState, setBlockState] = useState<BlockState>({ blockType: 'paragraph', wrappers: new Set() });
+  const [canIndent, setCanIndent] = useState({ lift: false, sink: false }); // List item indent/outdent availability
+  const [linkHref, setLinkHref] = useState<string | null>(null); // Link editor input (null when closed)
+  const [hasLink, setHasLink] = useState(false);
 
   useEffect(() => {
     if (!view) return;
@@ -63,20 +101,14 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
 
       setActiveMarks(marks);
       setFontSize(currentFontSize);
+      setBlockState(getBlockState(state));
+      setCanIndent({ lift: liftItem(state), sink: sinkItem(state) });
+      setHasLink(getLink(state) !== null || (!selection.empty && state.doc.rangeHasMark(selection.from, selection.to, state.schema.marks.link)));
     };
 
-    // Update toolbar on selection changes using ProseMirror's update event
-    const handleUpdate = () => {
-      updateToolbar();
-    };
-
-    // Subscribe to ProseMirror's update event
-    const plugin = {
-      view() {
-        return {
-          update: handleUpdate,
-        };
-      },
+    // Open the link editor prefilled with the link at the cursor (Mod-K or the toolbar button)
+    const openLinkEditor = () => {
+      setLinkHref(getLink(view.state)?.href ?? '');
     };
 
     // Initial update
@@ -97,6 +129,7 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
     view.dom.addEventListener('mouseup', update);
     view.dom.addEventListener('keyup', update);
     view.dom.addEventListener('prosemirror-update', update);
+    view.dom.addEventListener(EDIT_LINK_EVENT, openLinkEditor);
     
     // Listen for selection changes in the document
     document.addEventListener('selectionchange', handleSelectionChange);
@@ -107,26 +140,17 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
       view.dom.removeEventListener('mouseup', update);
       view.dom.removeEventListener('keyup', update);
       view.dom.removeEventListener('prosemirror-update', update);
+      view.dom.removeEventListener(EDIT_LINK_EVENT, openLinkEditor);
       document.removeEventListener('selectionchange', handleSelectionChange);
     };
   }, [view]);
 
   if (!view) return null;
 
-  const toggleBold = (e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
+  // Run a command against the current state, then refresh the toolbar and return focus to the editor
+  const runCommand = (command: Command) => {
     if (!view) return;
-    
-    // Get fresh state and dispatch
-    const { state, dispatch } = view;
-    const markType = state.schema.marks.strong;
-    if (!markType) return;
-    
-    // Execute the toggle command
-    const command = toggleMark(markType);
-    const executed = command(state, dispatch);
-    
+    const executed = command(view.state, view.dispatch, view);
     if (executed) {
       // Force toolbar update after command
       requestAnimationFrame(() => {
@@ -137,52 +161,24 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
     }
   };
 
-  const toggleItalic = (e: React.MouseEvent) => {
+  // Toolbar click handler for a command (keeps the editor selection)
+  const handleCommand = (command: Command) => (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    if (!view) return;
-    
-    // Get fresh state and dispatch
-    const { state, dispatch } = view;
-    const markType = state.schema.marks.em;
-    if (!markType) return;
-    
-    // Execute the toggle command
-    const command = toggleMark(markType);
-    const executed = command(state, dispatch);
-    
-    if (executed) {
-      // Force toolbar update after command
-      requestAnimationFrame(() => {
-        const event = new Event('prosemirror-update');
-        view.dom.dispatchEvent(event);
-        view.focus();
-      });
-    }
+    runCommand(command);
   };
 
-  const toggleUnderline = (e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (!view) return;
-    
-    // Get fresh state and dispatch
-    const { state, dispatch } = view;
-    const markType = state.schema.marks.underline;
-    if (!markType) return;
-    
-    // Execute the toggle command
-    const command = toggleMark(markType);
-    const executed = command(state, dispatch);
-    
-    if (executed) {
-      // Force toolbar update after command
-      requestAnimationFrame(() => {
-        const event = new Event('prosemirror-update');
-        view.dom.dispatchEvent(event);
-        view.focus();
-      });
+  const applyLink = () => {
+    const href = linkHref?.trim();
+    if (href && isSafeUrl(href)) {
+      runCommand(setLink(normalizeHref(href)));
     }
+    setLinkHref(null);
+  };
+
+  const unlink = () => {
+    runCommand(removeLink);
+    setLinkHref(null);
   };
 
   const changeFontSize = (size: string) => {
@@ -210,12 +206,14 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
   const isBold = activeMarks.has('strong');
   const isItalic = activeMarks.has('em');
   const isUnderline = activeMarks.has('underline');
+  const isCode = activeMarks.has('code');
+  const { blockType, wrappers } = blockState;
 
   return (
     <div className="formatting-toolbar">
       <button
         className={`toolbar-button ${isBold ? 'active' : ''}`}
-        onClick={toggleBold}
+        onClick={handleCommand(toggleMark(view.state.schema.marks.strong))}
         onMouseDown={(e) => e.preventDefault()}
         title="Bold (Ctrl+B)"
         type="button"
@@ -224,7 +222,7 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
       </button>
       <button
         className={`toolbar-button ${isItalic ? 'active' : ''}`}
-        onClick={toggleItalic}
+        onClick={handleCommand(toggleMark(view.state.schema.marks.em))}
         onMouseDown={(e) => e.preventDefault()}
         title="Italic (Ctrl+I)"
         type="button"
@@ -233,13 +231,142 @@ export const FormattingToolbar = ({ view }: FormattingToolbarProps) => {
       </button>
       <button
         className={`toolbar-button ${isUnderline ? 'active' : ''}`}
-        onClick={toggleUnderline}
+        onClick={handleCommand(toggleMark(view.state.schema.marks.underline))}
         onMouseDown={(e) => e.preventDefault()}
         title="Underline (Ctrl+U)"
         type="button"
       >
         <u>U</u>
       </button>
+      <button
+        className={`toolbar-button ${isCode ? 'active' : ''}`}
+        onClick={handleCommand(toggleMark(view.state.schema.marks.code))}
+        onMouseDown={(e) => e.preventDefault()}
+        title="Inline code (Ctrl+`)"
+        type="button"
+      >
+        <code>{'<>'}</code>
+      </button>
+      <div className="toolbar-link">
+        <button
+          className={`toolbar-button ${hasLink ? 'active' : ''}`}
+          onClick={(e) => {
+            e.preventDefault();
+            setLinkHref(linkHref === null ? getLink(view.state)?.href ?? '' : null);
+          }}
+          onMouseDown={(e) => e.preventDefault()}
+          title="Link (Ctrl+K)"
+          type="button"
+        >
+          🔗
+        </button>
+        {linkHref !== null && (
+          <div className="link-popover">
+            <input
+              className="link-popover-input"
+              value={linkHref}
+              onChange={(e) => setLinkHref(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyLink();
+                if (e.key === 'Escape') {
+                  setLinkHref(null);
+                  view.focus();
+                }
+              }}
+              placeholder="https://example.com"
+              autoFocus
+            />
+            <button className="toolbar-button" onClick={applyLink} disabled={!linkHref.trim() || !isSafeUrl(linkHref.trim())} type="button">
+              Apply
+            </button>
+            {hasLink && (
+              <button className="toolbar-button" onClick={unlink} type="button">
+                Remove
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="toolbar-separator"></div>
+      <select
+        className="toolbar-select"
+        value={blockType ?? ''}
+        onChange={(e) => runCommand(setBlock(e.target.value as BlockTypeName))}
+        title="Block type (Ctrl+Shift+0-6)"
+      >
+        {blockType === null && <option value="" disabled>Mixed</option>}
+        {BLOCK_TYPES.map(({ name, label }) => (
+          <option key={name} value={name}>{label}</option>
+        ))}
+      </select>
+      <button
+        className={`toolbar-button ${wrappers.has('bullet_list') ? 'active' : ''}`}
+        onClick={handleCommand(toggleBulletList)}
+        onMouseDown={(e) => e.preventDefault()}
+        title="Bullet list (Ctrl+Shift+8)"
+        type="button"
+      >
+        •
+      </button>
+      <button
+        className={`toolbar-button ${wrappers.has('ordered_list') ? 'active' : ''}`}
+        onClick={handleCommand(toggleOrderedList)}
+        onMouseDown={(e) => e.preventDefault()}
+        title="Numbered list (Ctrl+Shift+9)"
+        type="button"
+      >
+        1.
+      </button>
+      <button
+        className="toolbar-button"
+        onClick={handleCommand(liftItem)}
+        onMouseDown={(e) => e.preventDefault()}
+        disabled={!canIndent.lift}
+        title="Outdent list item (Shift+Tab)"
+        type="button"
+      >
+        ⇤
+      </button>
+      <button
+        className="toolbar-button"
+        onClick={handleCommand(sinkItem)}
+        onMouseDown={(e) => e.preventDefault()}
+        disabled={!canIndent.sink}
+        title="Indent list item (Tab)"
+        type="button"
+      >
+        ⇥
+      </button>
+      <button
+        className={`toolbar-button ${wrappers.has('blockquote') ? 'active' : ''}`}
+        onClick={handleCommand(toggleBlockquote)}
+        onMouseDown={(e) => e.preventDefault()}
+        title="Blockquote (Ctrl+>)"
+        type="button"
+      >
+        ❝
+      </button>
+      <button
+        className="toolbar-button"
+        onClick={handleCommand(insertHorizontalRule)}
+        onMouseDown={(e) => e.preventDefault()}
+        title="Horizontal rule (Ctrl+_)"
+        type="button"
+      >
+        ―
+      </button>
+      <button
+        className="toolbar-button"
+        onClick={(e) => {
+          e.preventDefault();
+          startComment(view.state, view.dispatch); // Focus moves to the comment form, not back to the editor
+        }}
+        onMouseDown={(e) => e.preventDefault()}
+        title="Comment on the selection (Ctrl+Alt+M)"
+        type="button"
+      >
+        💬
+      </button>
       <div className="toolbar-separator"></div>
       <select
         className="toolbar-select"
@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { mySchema } from '../schema/editorSchema';
+import { toMarkdown } from '../schema/markdown';
+import { diffWords } from '../services/textDiff';
+import { costOf, formatCost } from '../services/usage';
+import type { GenerationKind, GenerationOutcome, GenerationRecord } from '../services/storage';
+import type { TokenUsage } from '../services/providers';
+
+interface GenerationHistoryPanelProps {
+  records: GenerationRecord[]; // Newest first
+  error: string | null; // Why loading or saving the history failed
+  disabled: boolean; // True while the AI is working on the open document
+  onRestore: (snapshot: Record<string, unknown>) => void; // Replace the document with a snapshot
+  onClear: () => void;
+}
+
+const KIND_LABELS: Record<GenerationKind, string> = {
+  continue: 'Continue writing',
+  summarize: 'Summary',
+  rewrite: 'Rewrite',
+  template: 'Prompt template',
+  outline: 'Deck outline',
+  slide: 'Slide action',
+  comment: 'Comment reply',
+};
+
+const OUTCOME_LABELS: Record<GenerationOutcome, string> = {
+  accepted: 'Accepted',
+  partial: 'Partly accepted',
+  rejected: 'Rejected',
+  applied: 'Applied',
+};
+
+// Markdown of a stored snapshot (what the diff compares)
+const snapshotMarkdown = (json: Record<string, unknown>): string => toMarkdown(mySchema.nodeFromJSON(json));
+
+// Tokens a generation used and, for models with a known price, what they cost
+const UsageSummary = ({ model, usage }: { model: string; usage: TokenUsage }) => {
+  const cost = costOf(model, usage);
+  return (
+    <p className="history-meta">
+      {usage.promptTokens} prompt + {usage.outputTokens} output tokens{cost !== null && ` · ${formatCost(cost)}`}
+    </p>
+  );
+};
+
+// Word diff between the snapshots before and after a generation
+const SnapshotDiff = ({ record }: { record: GenerationRecord }) => {
+  const parts = useMemo(
+    () => (record.after ? diffWords(snapshotMarkdown(record.before), snapshotMarkdown(record.after)) : []),
+    [record]
+  );
+  if (!record.after) {
+    return <p className="history-note">Nothing was inserted.</p>;
+  }
+  return (
+    <pre className="history-diff">
+      {parts.map((part, i) => (
+        <span key={i} className={`diff-${part.type}`}>{part.text}</span>
+      ))}
+    </pre>
+  );
+};
+
+export const GenerationHistoryPanel = ({ records, error, disabled, onRestore, onClear }: GenerationHistoryPanelProps) => {
+  const [openId, setOpenId] = useState<string | null>(null); // Expanded entry
+
+  const confirmClear = () => {
+    if (window.confirm('Clear the AI history of this document?')) onClear();
+  };
+
+  return (
+    <section className="history-panel">
+      <div className="history-header">
+        <span className="document-sidebar-title">AI history</span>
+        {records.length > 0 && (
+          <button className="toolbar-button" onClick={confirmClear} disabled={disabled} title="Clear history" type="button">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+      {records.length === 0 ? (
+        <p className="history-note">AI generations on this document will appear here.</p>
+      ) : (
+        <ul className="history-list">
+          {records.map((record) => (
+            <li key={record.id} className={`history-item ${record.id === openId ? 'open' : ''}`}>
+              <button
+                className="history-summary"
+                onClick={() => setOpenId(record.id === openId ? null : record.id)}
+                type="button"
+              >
+                <span className="history-kind">{KIND_LABELS[record.kind]}</span>
+                <span className={`history-outcome history-outcome-${record.outcome}`}>{OUTCOME_LABELS[record.outcome]}</span>
+                <span className="history-meta">
+                  {new Date(record.createdAt).toLocaleString()} · {record.provider} / {record.model}{record.cached && ' (cached)'}
+                </span>
+              </button>
+
+              {record.id === openId && (
+                <div className="history-details">
+                  <details>
+                    <summary>Prompt</summary>
+                    <pre className="history-prompt">{record.prompt}</pre>
+                  </details>
+                  <p className="history-meta">
+                    Temperature {record.config.temperature} · top-p {record.config.topP} · top-k {record.config.topK} · max {record.config.maxOutputTokens} tokens
+                  </p>
+                  {record.usage && <UsageSummary model={record.model} usage={record.usage} />}
+                  <SnapshotDiff record={record} />
+                  <div className="history-actions">
+                    <button className="toolbar-button" onClick={() => onRestore(record.before)} disabled={disabled} type="button">
+                      Restore before
+                    </button>
+                    {record.after && (
+                      <button className="toolbar-button" onClick={() => record.after && onRestore(record.after)} disabled={disabled} type="button">
+                        Restore after
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
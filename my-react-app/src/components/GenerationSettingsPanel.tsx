@@ -0,0 +1,108 @@
+import {
+  GENERATION_TONES,
+  MAX_AUDIENCE_LENGTH,
+  TARGET_LENGTHS,
+  getSettingsErrors,
+} from '../services/generationSettings';
+import type { GenerationSettings, GenerationTone, TargetLength } from '../services/generationSettings';
+import type { SettingsScope } from '../hooks/useGenerationSettings';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  models: string[]; // Models of the selected provider
+  scope: SettingsScope; // Whether edits apply to every document or only the open one
+  disabled: boolean; // True while the AI is working
+  onChange: (settings: GenerationSettings) => void;
+  onScopeChange: (scope: SettingsScope) => void;
+}
+
+// Capitalize a tone for display ("match" reads better spelled out)
+const toneLabel = (tone: GenerationTone) => (tone === 'match' ? 'Match document' : tone[0].toUpperCase() + tone.slice(1));
+
+// Settings for Continue Writing: model, creativity, target length, tone and audience
+export const GenerationSettingsPanel = ({ settings, models, scope, disabled, onChange, onScopeChange }: GenerationSettingsPanelProps) => {
+  const errors = getSettingsErrors(settings, models);
+  const set = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <fieldset className="settings-panel" disabled={disabled}>
+      <label className="settings-field">
+        <span>Model</span>
+        <select className="provider-select" value={settings.model ?? ''} onChange={(e) => set('model', e.target.value || null)}>
+          <option value="">Automatic (fallback chain)</option>
+          {models.map((model) => (
+            <option key={model} value={model}>{model}</option>
+          ))}
+          {settings.model !== null && !models.includes(settings.model) && (
+            <option value={settings.model}>{settings.model} (unavailable)</option>
+          )}
+        </select>
+      </label>
+
+      <label className="settings-field">
+        <span>Creativity {settings.temperature.toFixed(1)}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.1}
+          value={settings.temperature}
+          onChange={(e) => set('temperature', Number(e.target.value))}
+        />
+      </label>
+
+      <label className="settings-field">
+        <span>Length</span>
+        <select className="provider-select" value={settings.length} onChange={(e) => set('length', e.target.value as TargetLength)}>
+          {(Object.keys(TARGET_LENGTHS) as TargetLength[]).map((length) => (
+            <option key={length} value={length}>{TARGET_LENGTHS[length].label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="settings-field">
+        <span>Tone</span>
+        <select className="provider-select" value={settings.tone} onChange={(e) => set('tone', e.target.value as GenerationTone)}>
+          {GENERATION_TONES.map((tone) => (
+            <option key={tone} value={tone}>{toneLabel(tone)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="settings-field settings-field-wide">
+        <span>Audience</span>
+        <input
+          className="settings-input"
+          value={settings.audience}
+          maxLength={MAX_AUDIENCE_LENGTH}
+          placeholder="e.g. engineers new to the project"
+          onChange={(e) => set('audience', e.target.value)}
+        />
+      </label>
+
+      <label className="settings-field settings-field-wide settings-scope">
+        <input
+          type="checkbox"
+          checked={settings.reuseCached}
+          onChange={(e) => set('reuseCached', e.target.checked)}
+        />
+        <span>Reuse a recent response when the prompt and settings are unchanged</span>
+      </label>
+
+      <label className="settings-field settings-field-wide settings-scope">
+        <input
+          type="checkbox"
+          checked={scope === 'document'}
+          onChange={(e) => onScopeChange(e.target.checked ? 'document' : 'user')}
+        />
+        <span>Use these settings for this document only</span>
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="settings-errors">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </fieldset>
+  );
+};
@@ -0,0 +1,33 @@
+import type { QueuedRequest } from '../services/offlineQueue';
+
+interface OfflineQueuePanelProps {
+  online: boolean;
+  items: QueuedRequest[]; // Oldest first
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+}
+
+// Connection notice and the Continue Writing requests waiting for it
+export const OfflineQueuePanel = ({ online, items, onCancel, onCancelAll }: OfflineQueuePanelProps) => (
+  <section className="offline-queue">
+    <div className="history-header">
+      <span className="document-sidebar-title">
+        {online ? 'Back online - resuming queued requests' : 'Offline - Continue Writing is queued until the connection is back'}
+      </span>
+      {items.length > 1 && (
+        <button className="toolbar-button" onClick={onCancelAll} type="button">Cancel all</button>
+      )}
+    </div>
+    {items.length > 0 && (
+      <ul className="offline-queue-list">
+        {items.map((item) => (
+          <li key={item.id} className="offline-queue-item">
+            <span className="offline-queue-preview">…{item.preview || '(start of document)'}</span>
+            <span className="history-meta">{new Date(item.createdAt).toLocaleTimeString()}</span>
+            <button className="toolbar-button" onClick={() => onCancel(item.id)} type="button">Cancel</button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { SlideFrame } from './SlideFrame';
+import type { Slide } from '../schema/slides';
+
+interface PresenterViewProps {
+  slides: Slide[];
+  startIndex: number;
+  onClose: () => void;
+}
+
+// Elapsed time as m:ss
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Full-window presenter view: current slide, next slide, speaker notes and a timer
+export const PresenterView = ({ slides, startIndex, onClose }: PresenterViewProps) => {
+  const [index, setIndex] = useState(startIndex);
+  const [startedAt] = useState(Date.now);
+  const [now, setNow] = useState(Date.now);
+  const last = slides.length - 1;
+  const current = Math.min(index, last); // The deck can shrink while presenting
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Keyboard navigation (same keys as the exported deck)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(event.key)) setIndex((i) => Math.min(last, i + 1));
+      else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(event.key)) setIndex((i) => Math.max(0, Math.min(last, i) - 1));
+      else if (event.key === 'Home') setIndex(0);
+      else if (event.key === 'End') setIndex(last);
+      else if (event.key === 'Escape') onClose();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [last, onClose]);
+
+  if (current < 0) return null;
+  const next = slides[current + 1];
+
+  return (
+    <div className="presenter-view" role="dialog" aria-label="Presenter view">
+      <div className="presenter-main">
+        <SlideFrame slide={slides[current]} className="presenter-current" />
+      </div>
+      <div className="presenter-side">
+        <div className="presenter-status">
+          <span>{current + 1} / {slides.length}</span>
+          <span>{formatElapsed(now - startedAt)}</span>
+          <button className="toolbar-button" onClick={onClose} type="button">Exit (Esc)</button>
+        </div>
+        {next ? (
+          <>
+            <span className="presenter-label">Next</span>
+            <SlideFrame slide={next} className="presenter-next" />
+          </>
+        ) : (
+          <span className="presenter-label">Last slide</span>
+        )}
+        <span className="presenter-label">Notes</span>
+        <div className="presenter-notes">{slides[current].notes || 'No speaker notes for this slide.'}</div>
+      </div>
+    </div>
+  );
+};
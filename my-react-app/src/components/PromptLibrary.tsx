@@ -0,0 +1,221 @@
+import { useRef, useState } from 'react';
+import { PROMPT_VARIABLES, getTemplateErrors, renderPrompt, templateVariables } from '../services/prompts';
+import type { PromptTemplate, PromptVariable, PromptVariables, TemplateOutput } from '../services/prompts';
+
+interface PromptLibraryProps {
+  templates: PromptTemplate[]; // Built-ins first, then the user's
+  disabled: boolean; // True while the AI is working
+  hasSelection: boolean; // 'replace' templates need selected text
+  getVariables: () => PromptVariables; // Current values, for the preview
+  onRun: (template: PromptTemplate) => void;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  message: string | null; // Result of the last import
+  error: string | null; // Why the last import failed
+}
+
+// Blank template for "New"
+const newTemplate = (): PromptTemplate => ({
+  id: crypto.randomUUID(),
+  name: '',
+  description: '',
+  version: 1,
+  output: 'insert',
+  body: '',
+});
+
+// Form for creating or editing a user template
+const TemplateEditor = ({ draft, onChange, onSave, onCancel }: {
+  draft: PromptTemplate;
+  onChange: (draft: PromptTemplate) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) => {
+  const errors = getTemplateErrors(draft);
+  return (
+    <div className="template-editor">
+      <label className="settings-field">
+        <span>Name</span>
+        <input className="settings-input" value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} />
+      </label>
+      <label className="settings-field">
+        <span>Description</span>
+        <input className="settings-input" value={draft.description} onChange={(e) => onChange({ ...draft, description: e.target.value })} />
+      </label>
+      <label className="settings-field">
+        <span>Answer</span>
+        <select
+          className="provider-select"
+          value={draft.output}
+          onChange={(e) => onChange({ ...draft, output: e.target.value as TemplateOutput })}
+        >
+          <option value="insert">Suggest at the cursor</option>
+          <option value="replace">Replace the selection</option>
+        </select>
+      </label>
+      <label className="settings-field">
+        <span>Prompt</span>
+        <textarea
+          className="settings-input template-body"
+          value={draft.body}
+          rows={10}
+          spellCheck={false}
+          onChange={(e) => onChange({ ...draft, body: e.target.value })}
+        />
+      </label>
+      <details className="template-variables">
+        <summary>Variables</summary>
+        <ul>
+          {(Object.keys(PROMPT_VARIABLES) as PromptVariable[]).map((name) => (
+            <li key={name}><code>{`{{${name}}}`}</code> {PROMPT_VARIABLES[name]}</li>
+          ))}
+        </ul>
+        <p>
+          <code>{'{{#name}}…{{/name}}'}</code> is kept only when the variable has a value, <code>{'{{^name}}…{{/name}}'}</code> only when it is empty.
+        </p>
+      </details>
+      {errors.length > 0 && (
+        <ul className="settings-errors">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <div className="history-actions">
+        <button className="toolbar-button" onClick={onSave} disabled={errors.length > 0} type="button">Save</button>
+        <button className="toolbar-button" onClick={onCancel} type="button">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+// Prompt template library: pick, preview and run templates; create, edit, import and export your own
+export const PromptLibrary = ({
+  templates,
+  disabled,
+  hasSelection,
+  getVariables,
+  onRun,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+  message,
+  error,
+}: PromptLibraryProps) => {
+  const [selectedId, setSelectedId] = useState(templates[0]?.id ?? '');
+  const [draft, setDraft] = useState<PromptTemplate | null>(null); // Template being edited
+  const [showPreview, setShowPreview] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = templates.find((t) => t.id === selectedId) ?? templates[0];
+
+  if (draft) {
+    return (
+      <section className="history-panel prompt-library">
+        <span className="document-sidebar-title">{templates.some((t) => t.id === draft.id) ? 'Edit template' : 'New template'}</span>
+        <TemplateEditor
+          draft={draft}
+          onChange={setDraft}
+          onSave={() => {
+            onSave(draft);
+            setSelectedId(draft.id);
+            setDraft(null);
+          }}
+          onCancel={() => setDraft(null)}
+        />
+      </section>
+    );
+  }
+
+  const confirmDelete = (template: PromptTemplate) => {
+    if (window.confirm(`Delete the template "${template.name}"?`)) onDelete(template.id);
+  };
+
+  const needsSelection = selected?.output === 'replace' && !hasSelection;
+  let preview = '';
+  if (showPreview && selected) {
+    try {
+      preview = renderPrompt(selected, getVariables());
+    } catch (error) {
+      preview = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return (
+    <section className="history-panel prompt-library">
+      <div className="history-header">
+        <span className="document-sidebar-title">Prompt templates</span>
+        <div className="history-actions">
+          <button className="toolbar-button" onClick={() => setDraft(newTemplate())} type="button">New</button>
+          <button className="toolbar-button" onClick={() => fileInputRef.current?.click()} type="button">Import</button>
+          <button className="toolbar-button" onClick={onExport} type="button">Export</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = ''; // Allow importing the same file again
+            }}
+          />
+        </div>
+      </div>
+
+      {message && <p className="history-note">{message}</p>}
+      {error && <p className="error-message">{error}</p>}
+
+      {selected && (
+        <>
+          <select className="provider-select" value={selected.id} onChange={(e) => setSelectedId(e.target.value)}>
+            <optgroup label="Built-in">
+              {templates.filter((t) => t.builtIn).map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+            {templates.some((t) => !t.builtIn) && (
+              <optgroup label="My templates">
+                {templates.filter((t) => !t.builtIn).map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+
+          <p className="history-meta">
+            {selected.description || 'No description'} · v{selected.version} · {selected.output === 'insert' ? 'suggests at the cursor' : 'replaces the selection'}
+            {templateVariables(selected.body).length > 0 && ` · uses ${templateVariables(selected.body).join(', ')}`}
+          </p>
+
+          <div className="history-actions">
+            <button
+              className="toolbar-button"
+              onClick={() => onRun(selected)}
+              disabled={disabled || needsSelection}
+              title={needsSelection ? 'Select the text to replace first' : undefined}
+              type="button"
+            >
+              Run
+            </button>
+            <button className={`toolbar-button ${showPreview ? 'active' : ''}`} onClick={() => setShowPreview((show) => !show)} type="button">
+              Preview
+            </button>
+            {selected.builtIn ? (
+              <button
+                className="toolbar-button"
+                onClick={() => setDraft({ ...selected, id: crypto.randomUUID(), name: `${selected.name} (copy)`, builtIn: undefined })}
+                type="button"
+              >
+                Duplicate
+              </button>
+            ) : (
+              <>
+                <button className="toolbar-button" onClick={() => setDraft(selected)} type="button">Edit</button>
+                <button className="toolbar-button" onClick={() => confirmDelete(selected)} type="button">Delete</button>
+              </>
+            )}
+          </div>
+
+          {showPreview && <pre className="history-prompt">{preview}</pre>}
+        </>
+      )}
+    </section>
+  );
+};
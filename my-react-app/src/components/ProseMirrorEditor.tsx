@@ -1,22 +1,92 @@
 import { useEffect, useRef, useImperativeHandle, forwardRef, useState, useMemo } from 'react';
-import { EditorState, Plugin } from 'prosemirror-state'; // Core state management for ProseMirror
+import { EditorState, Plugin, Selection, TextSelection } from 'prosemirror-state'; // Core state management for ProseMirror
 import { EditorView } from 'prosemirror-view'; // View layer that renders the editor
-import { Schema } from 'prosemirror-model'; // Document model schema definition
-import { schema } from 'prosemirror-schema-basic'; // Basic schema with paragraphs, headings, etc.
-import { addListNodes } from 'prosemirror-schema-list'; // Adds list node types (ul, ol)
 import { keymap } from 'prosemirror-keymap'; // Plugin for keyboard shortcuts
 import { baseKeymap, toggleMark } from 'prosemirror-commands'; // Commands for text manipulation
 import { history, redo, undo } from 'prosemirror-history'; // Undo/redo functionality
-import { TextSelection } from 'prosemirror-state'; // Text selection utilities
+import type { Node as ProseMirrorNode } from 'prosemirror-model'; // Document node type
 import { FormattingToolbar } from './FormattingToolbar';
+import { SlashMenu } from './SlashMenu';
+import { CandidatePicker } from './CandidatePicker';
+import { SlideDeckPanel } from './SlideDeckPanel';
+import { CommentsPanel } from './CommentsPanel';
+import type { Slide } from '../schema/slides';
+import { mySchema } from '../schema/editorSchema'; // Shared document schema
+import { insertMarkdown, parseMarkdown, rangeToMarkdown, toMarkdown } from '../schema/markdown'; // Markdown in, ProseMirror nodes out
+import {
+  acceptSuggestion,
+  appendSuggestion,
+  clearSuggestion,
+  createSuggestionPlugins,
+  getSuggestion,
+  rejectSuggestion,
+  replaceSuggestionText,
+  showSuggestion,
+} from '../plugins/suggestionPlugin'; // Ghost text for AI suggestions
+import {
+  clearPendingRange,
+  createPendingRangePlugin,
+  replacePendingRange,
+  setPendingRange,
+} from '../plugins/pendingRangePlugin'; // Highlight and track a selection being rewritten
+import type { PendingRange } from '../plugins/pendingRangePlugin';
+import { createFormattingKeymap } from '../commands/formatting'; // Block formatting shortcuts
+import { createMarkdownInputRules } from '../plugins/inputRulesPlugin'; // "# ", "- ", "**bold**" ... shortcuts
+import { createSlashMenuPlugin } from '../plugins/slashMenuPlugin'; // "/" command menu
+import type { SlashCommandRegistry } from '../commands/slashCommands';
+import { createFileDropPlugin } from '../plugins/fileDropPlugin'; // Drop .md/.html/.txt files into the document
+import { parseDocument, serializeDocument } from '../schema/formats'; // Import/export formats
+import type { DocumentFormat } from '../schema/formats';
+import { isAIInsert, markAIInsert } from '../plugins/aiInsert'; // Flags transactions that insert AI output
+import { createAuthorshipPlugin, setAIAuthor } from '../plugins/authorshipPlugin'; // aiGenerated marks on AI-written text
+import type { AIAuthor } from '../plugins/authorshipPlugin';
+import { createOfflineQueuePlugin, getQueuedPosition, getQueuedPositions, queuePosition, unqueuePosition } from '../plugins/offlineQueuePlugin'; // Targets of requests queued offline
+import { createCollabPlugins, getCollabVersion, getConfirmedDocument, getSendableSteps, isCollaborative, reapplySteps, receiveRemoteSteps } from '../plugins/collabPlugin'; // Shared editing
+import { setPeers } from '../plugins/presencePlugin'; // Collaborators' cursors
+import { createCommentsPlugin, startComment } from '../plugins/commentsPlugin'; // Comment being written and the open thread
+import { replyToThread } from '../schema/comments';
+import type { CommentMessage, CommentThread } from '../schema/comments';
+import type { CollabPeer, CollabUser, DocJSON, PeerSelection, StepJSON } from '../services/collab';
+import { AuthorshipStatus } from './AuthorshipStatus';
+import type { SuggestionOutcome } from '../plugins/suggestionPlugin';
+import type { AIContinuationRequest, ContextWindow, SlideAction } from '../services/aiService';
+import type { EditorSelection } from '../machines/editorMachine';
 
 // Interface defining methods exposed to parent components via ref
 export interface ProseMirrorEditorHandle {
-  getContent: () => string; // Returns current editor text content
-  setContent: (content: string) => void; // Replaces entire editor content
-  appendContent: (content: string) => void; // Appends text to end of document
-  streamContent: (content: string, onComplete?: () => void) => Promise<void>; // Character-by-character streaming animation
+  getContent: () => string; // Returns current editor content as Markdown
+  setContent: (content: string) => void; // Replaces entire editor content with parsed Markdown
+  appendContent: (content: string) => void; // Appends Markdown to end of document
+  insertBlocks: (content: string) => void; // Inserts Markdown as AI output after the block at the cursor (replacing it when empty)
+  getContextAround: (window: ContextWindow) => AIContinuationRequest; // Text before/after the cursor for the AI prompt
+  streamContent: (chunks: AsyncIterable<string>, onChunk?: (chunk: string) => void, signal?: AbortSignal) => Promise<string>; // Streams chunks into a ghost text suggestion at the cursor, resolves with the full text
+  beginRewrite: (range?: PendingRange) => string | null; // Marks the selection (or a given range) as pending rewrite, returns its text (null when empty)
+  completeRewrite: (text: string) => boolean; // Replaces the pending range with rewritten text (single undoable step; false when the range is gone)
+  cancelRewrite: () => void; // Stops tracking the pending range without changing the document
+  acceptSuggestion: () => void; // Commits the pending suggestion to the document
+  rejectSuggestion: () => void; // Drops the pending suggestion
   focus: () => void; // Focuses the editor
+  getDocumentJSON: () => Record<string, unknown>; // Current document as ProseMirror JSON (for storage)
+  loadDocument: (json: Record<string, unknown>) => ProseMirrorNode | null; // Replaces the document with stored JSON (fresh undo history), returns it
+  exportDocument: (format: DocumentFormat, title?: string) => string; // Serializes the document for download
+  importDocument: (content: string, format: DocumentFormat) => void; // Replaces the document with imported content (undoable)
+  restoreDocument: (json: Record<string, unknown>) => void; // Replaces the document with a stored snapshot (undoable)
+  getSelectedContent: () => string; // Selected text as Markdown (empty without a selection)
+  setAIAuthor: (author: AIAuthor | null) => void; // Model and generation recorded on AI output committed from now on
+  queueAtCursor: (id: string) => void; // Marks the cursor as the target of a request queued while offline
+  queueAt: (id: string, pos: number) => void; // Marks a position as the target of a queued request (when its document is opened again)
+  getQueuedPositions: () => Map<string, number>; // Targets of the requests queued in this document, by id
+  resumeQueued: (id: string) => boolean; // Moves the cursor to a queued request's target and unmarks it (false when it is gone)
+  dropQueued: (id: string) => void; // Unmarks a cancelled queued request
+  replaceSuggestion: (text: string) => void; // Shows another alternative as the pending suggestion
+  startCollab: (doc: DocJSON, version: number, clientID: string, onUpdate: (selection: PeerSelection) => void, pending: StepJSON[]) => void; // Shows a room's document (with pending local steps re-applied) and tracks steps for the server
+  stopCollab: () => void; // Leaves collaboration, keeping the document
+  receiveSteps: (steps: StepJSON[], clientIDs: string[]) => void; // Applies steps confirmed by the server
+  getSendableSteps: () => { version: number; steps: StepJSON[] } | null; // Local steps not yet confirmed
+  getCollabVersion: () => number | null; // Server version the document is at (null when not collaborating)
+  getConfirmedDocumentJSON: () => DocJSON | null; // Document as of that version, without unconfirmed local steps
+  setPeers: (peers: CollabPeer[]) => void; // Collaborators' cursors to show
+  addCommentReply: (threadId: string, message: CommentMessage) => void; // Adds a message to a review thread (e.g. the AI's answer)
 }
 
 // Props interface for the editor component
@@ -24,36 +94,24 @@ interface ProseMirrorEditorProps {
   onChange?: (content: string) => void; // Callback when content changes
   placeholder?: string; // Placeholder text when editor is empty
   isAiWriting?: boolean; // Flag to show AI writing animation state
+  onSuggestionResolved?: (outcome: SuggestionOutcome) => void; // Called when a suggestion is fully accepted or rejected
+  onSelectionChange?: (selection: EditorSelection) => void; // Callback when the cursor or selection moves (after onDocumentChange when both changed)
+  onDocumentChange?: (doc: ProseMirrorNode) => void; // Called on every document change (not debounced - used for autosave and the editor machine)
+  onImportError?: (message: string) => void; // Called when dropped files can't be imported
+  slashCommands?: SlashCommandRegistry; // Entries for the "/" menu (no menu when omitted)
+  onAIInsert?: (before: ProseMirrorNode, after: ProseMirrorNode) => void; // Called when AI output is committed to the document
+  candidates?: string[]; // Alternatives for the pending suggestion (picker shown when there are two or more)
+  candidateIndex?: number; // Alternative currently shown
+  onPickCandidate?: (index: number) => void; // Called when the user picks or cycles to another alternative
+  showSlides?: boolean; // Show the slide deck panel under the editor
+  onExportSlides?: (slides: Slide[]) => void; // Called by the deck panel's export button
+  onSlideAction?: (slide: Slide, action: SlideAction) => void; // AI action picked on a slide thumbnail
+  onGenerateOutline?: (topic: string) => void; // Deck outline asked for in the deck panel (empty topic = this document)
+  showComments?: boolean; // Show the review threads under the editor (also shown while a comment is being written)
+  commentAuthor?: CollabUser; // Name and color on new comments and replies
+  onAskAIComment?: (thread: CommentThread, quote: string) => void; // "Ask AI" in a thread, with the text it is anchored to
 }
 
-// Create schema once outside component for performance (avoids recreation on each render)
-const mySchema = new Schema({
-  nodes: addListNodes(schema.spec.nodes, 'paragraph block*', 'block'), // Extend basic schema with list nodes (ul, ol)
-  marks: schema.spec.marks
-    .append({
-      underline: { // Custom underline mark definition
-        parseDOM: [{ tag: 'u' }], 
-        toDOM() {
-          return ['u', 0]; 
-        },
-      },
-      fontSize: { // Custom font size mark with configurable size attribute
-        attrs: { size: { default: '16px' } }, // Default font size attribute
-        parseDOM: [
-          {
-            style: 'font-size', 
-            getAttrs: (value: string) => {
-              return { size: value }; 
-            },
-          },
-        ],
-        toDOM(node: any) {
-          return ['span', { style: `font-size: ${node.attrs.size}` }, 0]; // Render as span with inline style
-        },
-      },
-    }),
-});
-
 // Optimized placeholder plugin - only updates when needed 
 const createPlaceholderPlugin = (placeholder: string) => {
   let lastIsEmpty: boolean | null = null; // Track previous empty state to avoid unnecessary updates
@@ -98,24 +156,121 @@ const createPlaceholderPlugin = (placeholder: string) => {
   });
 };
 
+// Move the AI-writing gradient to the end of the ghost text, or the cursor (CSS custom properties for dynamic gradient)
+const updateCursorGradient = (view: EditorView) => {
+  const editorElement = view.dom.closest('.prosemirror-editor') as HTMLElement | null;
+  if (!editorElement) return;
+
+  const ghostRects = view.dom.querySelector('.ai-suggestion')?.getClientRects(); // One rect per rendered line
+  const coords = ghostRects && ghostRects.length > 0
+    ? ghostRects[ghostRects.length - 1] // Last line of the suggestion
+    : view.coordsAtPos(view.state.selection.head); // Get screen coordinates of cursor
+  const editorRect = editorElement.getBoundingClientRect();
+  const x = ((coords.left - editorRect.left) / editorRect.width) * 100; // Convert to percentage
+  const y = ((coords.top - editorRect.top) / editorRect.height) * 100;
+  editorElement.style.setProperty('--cursor-x', `${Math.max(5, Math.min(95, x))}%`); // Clamp between 5-95%
+  editorElement.style.setProperty('--cursor-y', `${Math.max(5, Math.min(95, y))}%`); // Update CSS vars for gradient
+};
+
+// Replace the whole document in a transaction, so it can be undone and is autosaved
+const replaceDocument = (view: EditorView, doc: ProseMirrorNode) => {
+  const { tr } = view.state;
+  tr.replaceWith(0, tr.doc.content.size, doc.content).setDocAttribute('comments', doc.attrs.comments); // Threads go with the text they are anchored to
+  view.dispatch(tr.setSelection(Selection.atStart(tr.doc)).scrollIntoView());
+  view.focus();
+};
+
+const DEFAULT_COMMENT_AUTHOR: CollabUser = { name: 'You', color: '#8ab4ff' };
+
 // Main editor component using forwardRef to expose methods to parent via ref
 export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirrorEditorProps>(
-  ({ onChange, placeholder = 'Start typing...', isAiWriting = false }, ref) => {
+  ({
+    onChange,
+    placeholder = 'Start typing...',
+    isAiWriting = false,
+    onSuggestionResolved,
+    onSelectionChange,
+    onDocumentChange,
+    onImportError,
+    slashCommands,
+    onAIInsert,
+    candidates = [],
+    candidateIndex = 0,
+    onPickCandidate,
+    showSlides = false,
+    onExportSlides,
+    onSlideAction,
+    onGenerateOutline,
+    showComments = false,
+    commentAuthor = DEFAULT_COMMENT_AUTHOR,
+    onAskAIComment,
+  }, ref) => {
     const editorRef = useRef<HTMLDivElement>(null); // Ref to the DOM container element
     const viewRef = useRef<EditorView | null>(null); // Ref to ProseMirror EditorView instance
     const onChangeRef = useRef(onChange); // Ref to onChange callback (avoids stale closures)
     const [editorView, setEditorView] = useState<EditorView | null>(null); // State for EditorView (used by FormattingToolbar)
+    const [highlightAI, setHighlightAI] = useState(false); // Highlight AI-written text
     const onChangeTimeoutRef = useRef<number | null>(null); // Ref to debounce timeout ID
+    const onSuggestionResolvedRef = useRef(onSuggestionResolved); // Ref to suggestion callback (plugins are created once)
+    const onSelectionChangeRef = useRef(onSelectionChange); // Ref to selection callback (avoids stale closures)
+    const onDocumentChangeRef = useRef(onDocumentChange); // Ref to autosave callback (avoids stale closures)
+    const onImportErrorRef = useRef(onImportError); // Ref to import error callback (plugins are created once)
+    const onAIInsertRef = useRef(onAIInsert); // Ref to AI insertion callback (avoids stale closures)
+    const candidatesRef = useRef({ candidates, index: candidateIndex }); // Alternatives for the cycling keys (plugins are created once)
+    const onPickCandidateRef = useRef(onPickCandidate); // Ref to candidate callback (plugins are created once)
 
     // Keep onChange ref up to date when prop changes (prevents stale closures in debounced handler)
     useEffect(() => {
       onChangeRef.current = onChange;
     }, [onChange]);
 
+    useEffect(() => {
+      onSuggestionResolvedRef.current = onSuggestionResolved;
+    }, [onSuggestionResolved]);
+
+    useEffect(() => {
+      onSelectionChangeRef.current = onSelectionChange;
+    }, [onSelectionChange]);
+
+    useEffect(() => {
+      onDocumentChangeRef.current = onDocumentChange;
+    }, [onDocumentChange]);
+
+    useEffect(() => {
+      onImportErrorRef.current = onImportError;
+    }, [onImportError]);
+
+    useEffect(() => {
+      onAIInsertRef.current = onAIInsert;
+    }, [onAIInsert]);
+
+    useEffect(() => {
+      candidatesRef.current = { candidates, index: candidateIndex };
+      onPickCandidateRef.current = onPickCandidate;
+    }, [candidates, candidateIndex, onPickCandidate]);
+
+    // Switch to the next / previous alternative while a suggestion with alternatives is shown
+    const cycleCandidate = (step: number) => (state: EditorState) => {
+      const { candidates, index } = candidatesRef.current;
+      if (candidates.length < 2 || !getSuggestion(state) || !onPickCandidateRef.current) return false;
+      onPickCandidateRef.current((index + step + candidates.length) % candidates.length);
+      return true;
+    };
+
     // Memoize plugins to avoid recreation on every render (performance optimization)
     const plugins = useMemo(() => [
       history(), // Undo/redo history plugin
       createPlaceholderPlugin(placeholder), // Custom placeholder plugin
+      ...(slashCommands ? [createSlashMenuPlugin(slashCommands)] : []), // "/" menu (claims arrows/Enter/Tab/Esc while open)
+      ...createSuggestionPlugins((outcome) => onSuggestionResolvedRef.current?.(outcome)), // AI ghost text (Tab/Esc keys)
+      keymap({ 'Alt-]': cycleCandidate(1), 'Alt-[': cycleCandidate(-1) }), // Cycle through alternatives
+      createPendingRangePlugin(), // Selection being rewritten by the AI
+      createAuthorshipPlugin(), // Marks AI-written text (after the plugins that commit AI output)
+      createOfflineQueuePlugin(), // Where requests queued while offline will continue
+      createCommentsPlugin(), // Comment drafts and the open review thread
+      createFileDropPlugin((message) => onImportErrorRef.current?.(message)), // Drag and drop import
+      createFormattingKeymap(), // Headings, lists, blockquote, code block, links (after suggestions so Tab accepts first)
+      ...createMarkdownInputRules(), // Markdown-style shortcuts while typing
       keymap({
         'Mod-z': undo, // Ctrl/Cmd+Z for undo
         'Mod-y': redo, // Ctrl/Cmd+Y for redo
@@ -123,9 +278,10 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
         'Mod-b': toggleMark(mySchema.marks.strong), // Ctrl/Cmd+B for bold
         'Mod-i': toggleMark(mySchema.marks.em), // Ctrl/Cmd+I for italic
         'Mod-u': toggleMark(mySchema.marks.underline), // Ctrl/Cmd+U for underline
+        'Mod-Alt-m': startComment, // Ctrl/Cmd+Alt+M to comment on the selection
       }),
       keymap(baseKeymap), // Base keyboard shortcuts (Enter, Backspace, etc.)
-    ], [placeholder]);
+    ], [placeholder, slashCommands]);
 
     // Debounced onChange handler - using ref to avoid recreation (prevents new function on each render)
     const handleChange = useRef((textContent: string) => {
@@ -143,20 +299,12 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
     useImperativeHandle(ref, () => ({
       getContent: () => {
         if (!viewRef.current) return '';
-        return viewRef.current.state.doc.textContent; // Extract plain text from document
+        return toMarkdown(viewRef.current.state.doc); // Markdown keeps headings, lists and marks
       },
       setContent: (content: string) => {
         if (!viewRef.current) return;
         const state = EditorState.create({
-          doc: mySchema.nodeFromJSON({
-            type: 'doc',
-            content: [
-              {
-                type: 'paragraph',
-                content: content ? [{ type: 'text', text: content }] : [], // Create paragraph node with text
-              },
-            ],
-          }),
+          doc: parseMarkdown(content), // Content is Markdown - parsed into real nodes and marks
           plugins,
         });
         viewRef.current.updateState(state); // Replace entire editor content
@@ -165,107 +313,217 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
         if (!viewRef.current) return;
         const { state, dispatch } = viewRef.current;
         const { tr } = state; // Create transaction for document modification
-        const endPos = state.doc.content.size; // Get position at end of document
+        const endPos = Selection.atEnd(state.doc).from; // End of the last textblock
         const lastChar = state.doc.textContent[state.doc.textContent.length - 1];
         const insertText = (lastChar && !lastChar.match(/\s/)) ? ' ' + content : content; // Add space if needed
-        tr.insertText(insertText, endPos); // Insert text at end position
+        insertMarkdown(tr, endPos, endPos, insertText, { block: false }); // Insert Markdown at end position
         dispatch(tr); // Apply transaction to update editor
       },
-      streamContent: async (content: string, onComplete?: () => void) => {
-        if (!viewRef.current) return;
-        
-        // Handle leading newlines (extract them separately for proper rendering)
-        let textToStream = content;
-        let leadingNewlines = '';
-        while (textToStream.startsWith('\n')) {
-          leadingNewlines += '\n';
-          textToStream = textToStream.slice(1); // Remove newline from text to stream
-        }
-        
-        // Add space if needed (ensures proper word spacing when appending)
-        if (leadingNewlines === '') {
-          const currentState = viewRef.current.state;
-          const lastChar = currentState.doc.textContent[currentState.doc.textContent.length - 1];
-          if (lastChar && !lastChar.match(/\s/)) {
-            textToStream = ' ' + textToStream; // Add space before content if last char isn't whitespace
+      insertBlocks: (content: string) => {
+        const view = viewRef.current;
+        if (!view) return;
+        const { state } = view;
+        const { $from } = state.selection;
+        const current = $from.depth > 0 ? $from.node(1) : null; // Top-level block holding the cursor (none for a selected block)
+        const replace = !!current?.isTextblock && current.content.size === 0; // An empty paragraph is taken over
+        const from = current ? $from.before(1) : state.selection.to;
+        const to = current ? $from.after(1) : state.selection.to;
+        const tr = state.tr;
+        const end = insertMarkdown(tr, replace ? from : to, to, content, { block: true });
+        tr.setSelection(TextSelection.near(tr.doc.resolve(end), -1));
+        view.dispatch(markAIInsert(tr).scrollIntoView()); // AI authorship and generation history, like an accepted suggestion
+        view.focus();
+      },
+      getContextAround: (window: ContextWindow) => {
+        if (!viewRef.current) return { before: '', after: '' };
+        const { doc, selection } = viewRef.current.state;
+        return {
+          before: rangeToMarkdown(doc, 0, selection.to).slice(-window.before), // Closest text before the cursor (as Markdown)
+          after: rangeToMarkdown(doc, selection.to, doc.content.size).slice(0, window.after), // Closest text after it
+        };
+      },
+      streamContent: async (chunks: AsyncIterable<string>, onChunk?: (chunk: string) => void, signal?: AbortSignal) => {
+        let streamed = ''; // Full text received so far
+        const startView = viewRef.current;
+        if (!startView) return streamed;
+
+        // Anchor the suggestion at the cursor now; the plugin maps it through edits made while the model works
+        const $cursor = startView.state.selection.$to;
+        const inTextblock = $cursor.parent.isTextblock;
+        const atEndOfBlock = inTextblock && $cursor.parentOffset === $cursor.parent.content.size;
+        const block = !inTextblock || (atEndOfBlock && $cursor.parent.content.size > 0); // End of a non-empty block: suggest a new paragraph
+        const charBefore = inTextblock ? $cursor.parent.textBetween(0, $cursor.parentOffset).slice(-1) : '';
+        let needsSpace = !block && !!charBefore && !/\s/.test(charBefore); // Mid-text: separate from the preceding word
+        const anchor = inTextblock && block ? $cursor.after() : $cursor.pos; // After the current paragraph, or right at the cursor
+        startView.dispatch(showSuggestion(startView.state.tr, anchor, block));
+
+        try {
+          for await (const chunk of chunks) {
+            const view = viewRef.current;
+            if (!view || signal?.aborted) break; // Exit if editor was unmounted or generation was stopped
+
+            const text = needsSpace && !/^\s/.test(chunk) ? ' ' + chunk : chunk;
+            needsSpace = false;
+            view.dispatch(appendSuggestion(view.state.tr, text)); // Ghost text only - the document is untouched until accepted
+
+            streamed += chunk;
+            updateCursorGradient(view); // Keep the gradient following the suggestion
+            onChunk?.(chunk);
           }
-        }
-        
-        // Insert leading newlines first (if any exist)
-        if (leadingNewlines) {
-          const { state, dispatch } = viewRef.current;
-          const { tr } = state;
-          tr.insertText(leadingNewlines, state.doc.content.size); // Insert newlines at end
-          dispatch(tr); // Apply transaction
-          await new Promise(resolve => setTimeout(resolve, 30)); // Brief pause after newlines
-        }
-        
-        // Character-by-character streaming for typewriter effect
-        for (let i = 0; i < textToStream.length; i++) {
-          if (!viewRef.current) break; // Exit if editor was unmounted
-          
-          const char = textToStream[i];
-          const { state, dispatch } = viewRef.current;
-          const { tr } = state;
-          const endPos = state.doc.content.size; // Get end position of document
-          const selection = TextSelection.near(state.doc.resolve(endPos)); // Create selection at end
-          tr.setSelection(selection); // Set cursor position
-          tr.insertText(char); // Insert single character
-          dispatch(tr); // Apply transaction to update editor
-          
-          // Update cursor position for gradient effect (CSS custom properties for dynamic gradient)
-          if (viewRef.current) {
-            const editorElement = viewRef.current.dom.closest('.prosemirror-editor') as HTMLElement;
-            if (editorElement) {
-              // Get cursor coordinates from ProseMirror view (primary method)
-              const { state } = viewRef.current;
-              const { selection: pmSelection } = state;
-              const coords = viewRef.current.coordsAtPos(pmSelection.head); // Get screen coordinates of cursor
-              
-              if (coords) {
-                const editorRect = editorElement.getBoundingClientRect();
-                const x = ((coords.left - editorRect.left) / editorRect.width) * 100; // Convert to percentage
-                const y = ((coords.top - editorRect.top) / editorRect.height) * 100;
-                editorElement.style.setProperty('--cursor-x', `${Math.max(5, Math.min(95, x))}%`); // Clamp between 5-95%
-                editorElement.style.setProperty('--cursor-y', `${Math.max(5, Math.min(95, y))}%`); // Update CSS vars for gradient
-              } else {
-                // Fallback: use DOM selection API if ProseMirror coordinates unavailable
-                setTimeout(() => {
-                  const domSelection = window.getSelection();
-                  if (domSelection && domSelection.rangeCount > 0) {
-                    const range = domSelection.getRangeAt(0);
-                    const rect = range.getBoundingClientRect();
-                    const editorRect = editorElement.getBoundingClientRect();
-                    const x = ((rect.left + rect.width / 2 - editorRect.left) / editorRect.width) * 100;
-                    const y = ((rect.top + rect.height / 2 - editorRect.top) / editorRect.height) * 100;
-                    editorElement.style.setProperty('--cursor-x', `${Math.max(5, Math.min(95, x))}%`);
-                    editorElement.style.setProperty('--cursor-y', `${Math.max(5, Math.min(95, y))}%`);
-                  }
-                }, 0);
-              }
-            }
+        } finally {
+          // Nothing arrived (cancelled or failed before the first chunk): remove the empty anchor
+          if (!streamed && viewRef.current) {
+            viewRef.current.dispatch(clearSuggestion(viewRef.current.state.tr));
           }
-          
-          // Variable delays for natural typing rhythm (different speeds for different character types)
-          let delay = 30; // Base delay for default characters
-          if (char.match(/\s/)) {
-            delay = 15; // Spaces are very fast (no visual delay needed)
-          } else if (char.match(/[.,!?;:]/)) {
-            delay = 60; // Punctuation has slight pause (natural reading rhythm)
-          } else if (char.match(/[a-zA-Z]/)) {
-            delay = 40; // Letters at moderate speed (readable but not slow)
-          }
-          
-          await new Promise(resolve => setTimeout(resolve, delay)); // Wait before next character
-        }
-        
-        if (onComplete) {
-          onComplete(); // Call completion callback when streaming finishes
         }
+
+        return streamed;
+      },
+      beginRewrite: (range?: PendingRange) => {
+        const view = viewRef.current;
+        if (!view) return null;
+        const { from, to } = range ?? view.state.selection;
+        if (from >= to) return null;
+        view.dispatch(setPendingRange(view.state.tr, { from, to }));
+        return rangeToMarkdown(view.state.doc, from, to).trim(); // Markdown keeps the selection's formatting
+      },
+      completeRewrite: (text: string) => {
+        const view = viewRef.current;
+        if (!view) return false;
+        const tr = replacePendingRange(view.state, text);
+        if (tr) view.dispatch(tr);
+        view.focus();
+        return tr !== null;
+      },
+      cancelRewrite: () => {
+        const view = viewRef.current;
+        if (!view) return;
+        view.dispatch(clearPendingRange(view.state.tr));
+      },
+      acceptSuggestion: () => {
+        const view = viewRef.current;
+        if (!view) return;
+        acceptSuggestion(view.state, view.dispatch);
+        view.focus();
+      },
+      rejectSuggestion: () => {
+        const view = viewRef.current;
+        if (!view) return;
+        rejectSuggestion(view.state, view.dispatch);
+        view.focus();
       },
       focus: () => {
         viewRef.current?.focus(); // Focus the editor (moves cursor to editor)
       },
+      getDocumentJSON: () => {
+        if (!viewRef.current) return {};
+        return viewRef.current.state.doc.toJSON() as Record<string, unknown>;
+      },
+      loadDocument: (json: Record<string, unknown>) => {
+        if (!viewRef.current) return null;
+        const state = EditorState.create({
+          doc: mySchema.nodeFromJSON(json), // Stored JSON keeps every node and mark, including ones Markdown can't express
+          plugins, // Fresh plugin state: no undo history or suggestion carried over from the previous document
+        });
+        viewRef.current.updateState(state);
+        return state.doc;
+      },
+      exportDocument: (format: DocumentFormat, title?: string) => {
+        if (!viewRef.current) return '';
+        return serializeDocument(viewRef.current.state.doc, format, title);
+      },
+      importDocument: (content: string, format: DocumentFormat) => {
+        const view = viewRef.current;
+        if (!view) return;
+        replaceDocument(view, parseDocument(content, format)); // Throws on malformed JSON - caller reports it
+      },
+      restoreDocument: (json: Record<string, unknown>) => {
+        const view = viewRef.current;
+        if (!view) return;
+        replaceDocument(view, mySchema.nodeFromJSON(json));
+      },
+      getSelectedContent: () => {
+        if (!viewRef.current) return '';
+        const { doc, selection } = viewRef.current.state;
+        return selection.empty ? '' : rangeToMarkdown(doc, selection.from, selection.to).trim();
+      },
+      setAIAuthor: (author: AIAuthor | null) => {
+        const view = viewRef.current;
+        if (!view) return;
+        view.dispatch(setAIAuthor(view.state.tr, author));
+      },
+      queueAtCursor: (id: string) => {
+        const view = viewRef.current;
+        if (!view) return;
+        view.dispatch(queuePosition(view.state.tr, id, view.state.selection.to));
+      },
+      queueAt: (id: string, pos: number) => {
+        const view = viewRef.current;
+        if (!view) return;
+        view.dispatch(queuePosition(view.state.tr, id, Math.min(pos, view.state.doc.content.size)));
+      },
+      getQueuedPositions: () => (viewRef.current ? getQueuedPositions(viewRef.current.state) : new Map()),
+      resumeQueued: (id: string) => {
+        const view = viewRef.current;
+        const pos = view && getQueuedPosition(view.state, id);
+        if (!view || pos === null) return false;
+        const selection = TextSelection.near(view.state.doc.resolve(pos));
+        view.dispatch(unqueuePosition(view.state.tr.setSelection(selection), id).scrollIntoView());
+        return true;
+      },
+      dropQueued: (id: string) => {
+        const view = viewRef.current;
+        if (!view) return;
+        view.dispatch(unqueuePosition(view.state.tr, id));
+      },
+      replaceSuggestion: (text: string) => {
+        const view = viewRef.current;
+        const tr = view && replaceSuggestionText(view.state, text);
+        if (tr) view.dispatch(tr);
+      },
+      startCollab: (doc: DocJSON, version: number, clientID: string, onUpdate: (selection: PeerSelection) => void, pending: StepJSON[]) => {
+        const view = viewRef.current;
+        if (!view) return;
+        const state = EditorState.create({
+          doc: mySchema.nodeFromJSON(doc),
+          plugins: [...plugins, ...createCollabPlugins({
+            version,
+            clientID,
+            onUpdate: ({ selection }) => onUpdate({ anchor: selection.anchor, head: selection.head }),
+          })],
+        });
+        view.updateState(state); // Fresh undo history: local history can't be undone over others' edits
+        onDocumentChangeRef.current?.(state.doc); // The room's document is saved as this document
+        handleChange(state.doc.textContent);
+        onSelectionChangeRef.current?.({ from: state.selection.from, to: state.selection.to });
+        if (pending.length) view.dispatch(reapplySteps(view.state, pending)); // Unconfirmed edits made on the replaced document
+      },
+      stopCollab: () => {
+        const view = viewRef.current;
+        if (!view || !isCollaborative(view.state)) return;
+        view.updateState(view.state.reconfigure({ plugins }));
+      },
+      receiveSteps: (steps: StepJSON[], clientIDs: string[]) => {
+        const view = viewRef.current;
+        if (!view || !isCollaborative(view.state)) return;
+        view.dispatch(receiveRemoteSteps(view.state, steps, clientIDs));
+      },
+      getSendableSteps: () => (viewRef.current ? getSendableSteps(viewRef.current.state) : null),
+      getCollabVersion: () => (viewRef.current ? getCollabVersion(viewRef.current.state) : null),
+      getConfirmedDocumentJSON: () => {
+        const confirmed = viewRef.current && getConfirmedDocument(viewRef.current.state);
+        return confirmed ? (confirmed.toJSON() as DocJSON) : null;
+      },
+      setPeers: (peers: CollabPeer[]) => {
+        const view = viewRef.current;
+        if (!view || !isCollaborative(view.state)) return;
+        view.dispatch(setPeers(view.state.tr, peers));
+      },
+      addCommentReply: (threadId: string, message: CommentMessage) => {
+        const view = viewRef.current;
+        if (!view) return;
+        view.dispatch(replyToThread(view.state.tr, threadId, message));
+      },
     }));
 
     // Initialize ProseMirror editor when component mounts or plugins change
@@ -302,8 +560,11 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
           if (!viewRef.current) return;
           
           const newState = view.state.apply(transaction); // Apply transaction to get new state
+          if (transaction.docChanged && isAIInsert(transaction)) {
+            onAIInsertRef.current?.(view.state.doc, newState.doc); // Generation history (before plugin views report the suggestion resolved)
+          }
           view.updateState(newState); // Update view with new state
-          
+
           // Trigger toolbar update (notify FormattingToolbar of state change)
           requestAnimationFrame(() => {
             const event = new Event('prosemirror-update');
@@ -311,8 +572,13 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
           });
           
           // Debounced onChange callback (notify parent component of content change)
-          const textContent = newState.doc.textContent;
-          handleChange(textContent);
+          if (transaction.docChanged) {
+            handleChange(newState.doc.textContent);
+            onDocumentChangeRef.current?.(newState.doc); // Autosave (debounced by the caller)
+          }
+          if (transaction.selectionSet || transaction.docChanged) {
+            onSelectionChangeRef.current?.({ from: newState.selection.from, to: newState.selection.to }); // Not debounced - positions match the document just reported
+          }
         },
       });
 
@@ -342,12 +608,33 @@ export const ProseMirrorEditor = forwardRef<ProseMirrorEditorHandle, ProseMirror
 
     // Render editor wrapper with formatting toolbar and editor container
     return (
-      <div className={`prosemirror-editor-wrapper ${isAiWriting ? 'ai-writing-active' : ''}`}>
+      <div className={`prosemirror-editor-wrapper ${isAiWriting ? 'ai-writing-active' : ''} ${highlightAI ? 'show-ai-authorship' : ''}`}>
         <FormattingToolbar view={editorView} /> {/* Formatting toolbar (bold, italic, etc.) */}
+        {slashCommands && <SlashMenu view={editorView} registry={slashCommands} />} {/* "/" command popup */}
+        {onPickCandidate && (
+          <CandidatePicker view={editorView} candidates={candidates} index={candidateIndex} onPick={onPickCandidate} />
+        )} {/* Alternatives for the pending suggestion */}
         <div
           ref={editorRef}
           className={`prosemirror-editor ${isAiWriting ? 'ai-writing-active' : ''}`} // Container where ProseMirror will mount
         />
+        <AuthorshipStatus view={editorView} highlight={highlightAI} onHighlightChange={setHighlightAI} /> {/* AI / human ratio */}
+        {showSlides && onExportSlides && (
+          <SlideDeckPanel
+            view={editorView}
+            onExport={onExportSlides}
+            onSlideAction={onSlideAction}
+            onGenerateOutline={onGenerateOutline}
+            aiBusy={isAiWriting}
+          />
+        )} {/* Document as slides */}
+        <CommentsPanel
+          view={editorView}
+          open={showComments}
+          author={commentAuthor}
+          onAskAI={onAskAIComment}
+          aiBusy={isAiWriting}
+        /> {/* Review threads */}
       </div>
     );
   }
@@ -0,0 +1,48 @@
+import { useSyncExternalStore } from 'react';
+import { RESPONSE_CACHE_LIMIT } from '../services/responseCache';
+import type { ResponseCache } from '../services/responseCache';
+
+interface ResponseCachePanelProps {
+  cache: ResponseCache;
+}
+
+// Last characters of a prompt - where the text being continued ends
+const promptTail = (prompt: string) => (prompt.length > 120 ? `…${prompt.slice(-120)}` : prompt);
+
+// Recent prompt/response pairs kept for reuse, most recently used first
+export const ResponseCachePanel = ({ cache }: ResponseCachePanelProps) => {
+  const entries = useSyncExternalStore(cache.subscribe, cache.entries);
+
+  return (
+    <section className="history-panel">
+      <div className="history-header">
+        <span className="document-sidebar-title">Response cache ({entries.length}/{RESPONSE_CACHE_LIMIT})</span>
+        {entries.length > 0 && (
+          <button className="toolbar-button" onClick={cache.clear} type="button">Clear</button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="history-note">Responses are cached here as they arrive. Turn on reuse in Settings to answer repeated requests from the cache.</p>
+      ) : (
+        <ul className="history-list">
+          {entries.map((entry) => (
+            <li key={entry.key} className="history-item">
+              <div className="history-meta">
+                {new Date(entry.createdAt).toLocaleTimeString()} · {entry.provider} / {entry.model} · reused {entry.hits}×
+              </div>
+              <details className="history-details">
+                <summary>{promptTail(entry.prompt.trim())}</summary>
+                <pre className="history-prompt">{entry.prompt}</pre>
+                <pre className="history-prompt">{entry.text}</pre>
+              </details>
+              <div className="history-actions">
+                <button className="toolbar-button" onClick={() => cache.remove(entry.key)} type="button">Remove</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
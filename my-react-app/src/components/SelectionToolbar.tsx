@@ -0,0 +1,49 @@
+import { REWRITE_TONES } from '../services/aiService';
+import type { RewriteCommand, RewriteTone } from '../services/aiService';
+
+interface SelectionToolbarProps {
+  disabled: boolean; // True while another AI request is running
+  onCommand: (command: RewriteCommand, tone?: RewriteTone) => void;
+}
+
+// Rewrite commands shown as buttons (change tone has its own select)
+const COMMANDS: { command: RewriteCommand; label: string; title: string }[] = [
+  { command: 'rephrase', label: 'Rephrase', title: 'Say it differently' },
+  { command: 'shorten', label: 'Shorten', title: 'Make it more concise' },
+  { command: 'expand', label: 'Expand', title: 'Add more detail' },
+  { command: 'fixGrammar', label: 'Fix grammar', title: 'Fix spelling and grammar' },
+];
+
+export const SelectionToolbar = ({ disabled, onCommand }: SelectionToolbarProps) => {
+  return (
+    <div className="selection-toolbar">
+      <span className="selection-toolbar-label">✦ AI</span>
+      {COMMANDS.map(({ command, label, title }) => (
+        <button
+          key={command}
+          className="toolbar-button selection-toolbar-button"
+          onClick={() => onCommand(command)}
+          onMouseDown={(e) => e.preventDefault()}
+          disabled={disabled}
+          title={title}
+          type="button"
+        >
+          {label}
+        </button>
+      ))}
+      <div className="toolbar-separator"></div>
+      <select
+        className="toolbar-select"
+        value=""
+        onChange={(e) => onCommand('changeTone', e.target.value as RewriteTone)}
+        disabled={disabled}
+        title="Change tone"
+      >
+        <option value="" disabled>Change tone…</option>
+        {REWRITE_TONES.map((tone) => (
+          <option key={tone} value={tone}>{tone[0].toUpperCase() + tone.slice(1)}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
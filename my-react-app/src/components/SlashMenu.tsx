@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import type { EditorView } from 'prosemirror-view';
+import type { SlashCommandRegistry } from '../commands/slashCommands';
+import { getSlashMenu, getSlashMenuItems, runSlashCommand } from '../plugins/slashMenuPlugin';
+
+interface SlashMenuProps {
+  view: EditorView | null;
+  registry: SlashCommandRegistry;
+}
+
+// Popup listing slash commands under the "/" (state lives in slashMenuPlugin; this only renders it)
+export const SlashMenu = ({ view, registry }: SlashMenuProps) => {
+  const [, setRevision] = useState(0); // Bumped to re-render from the editor state
+
+  useEffect(() => {
+    if (!view) return;
+    const update = () => setRevision((n) => n + 1);
+    view.dom.addEventListener('prosemirror-update', update); // Same event the formatting toolbar listens to
+    return () => view.dom.removeEventListener('prosemirror-update', update);
+  }, [view]);
+
+  if (!view || view.isDestroyed) return null;
+  const menu = getSlashMenu(view.state);
+  const items = getSlashMenuItems(view.state, registry);
+  if (!menu || items.length === 0) return null;
+
+  // Place the menu under the "/" (relative to the editor wrapper, which is the positioned ancestor)
+  const wrapper = view.dom.closest('.prosemirror-editor-wrapper');
+  const coords = view.coordsAtPos(menu.from);
+  const origin = wrapper?.getBoundingClientRect() ?? { left: 0, top: 0 };
+  const active = Math.min(menu.index, items.length - 1);
+
+  return (
+    <div className="slash-menu" style={{ left: coords.left - origin.left, top: coords.bottom - origin.top + 4 }}>
+      {items.map((item, i) => (
+        <div key={item.id}>
+          {(i === 0 || items[i - 1].group !== item.group) && <div className="slash-menu-group">{item.group}</div>}
+          <button
+            className={`slash-menu-item ${i === active ? 'active' : ''}`}
+            onMouseDown={(e) => e.preventDefault()} // Keep the editor selection
+            onClick={() => runSlashCommand(view, item)}
+            type="button"
+          >
+            <span className="slash-menu-title">{item.title}</span>
+            {item.description && <span className="slash-menu-description">{item.description}</span>}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
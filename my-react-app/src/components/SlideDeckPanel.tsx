@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { EditorView } from 'prosemirror-view';
+import { TextSelection } from 'prosemirror-state';
+import { defaultSlideSplit, slideIndexAt, splitSlides } from '../schema/slides';
+import type { Slide, SlideSplit } from '../schema/slides';
+import type { SlideAction } from '../services/aiService';
+import { SlideFrame } from './SlideFrame';
+import { PresenterView } from './PresenterView';
+
+interface SlideDeckPanelProps {
+  view: EditorView | null;
+  onExport: (slides: Slide[]) => void; // Save the deck as a standalone HTML file
+  onSlideAction?: (slide: Slide, action: SlideAction) => void; // AI action on one slide (no buttons when omitted)
+  onGenerateOutline?: (topic: string) => void; // Outline a topic, or the document when the topic is empty
+  aiBusy?: boolean; // An AI request is running - AI buttons are disabled
+}
+
+// AI actions offered under each thumbnail
+const SLIDE_ACTIONS: { action: SlideAction; label: string; title: string }[] = [
+  { action: 'concise', label: 'Concise', title: 'Make this slide more concise' },
+  { action: 'example', label: 'Example', title: 'Add an example to this slide' },
+  { action: 'notes', label: 'Notes', title: 'Write speaker notes for this slide' },
+];
+
+// Thumbnails of the slides the document splits into, with the presenter view, deck export and AI actions
+export const SlideDeckPanel = ({ view, onExport, onSlideAction, onGenerateOutline, aiBusy = false }: SlideDeckPanelProps) => {
+  const [, setRevision] = useState(0); // Bumped to re-render from the editor state
+  const [split, setSplit] = useState<SlideSplit | null>(null); // null = slide breaks if there are any, headings otherwise
+  const [presenting, setPresenting] = useState<number | null>(null); // Slide the presenter view opened at
+  const [topic, setTopic] = useState(''); // Topic for a generated outline
+
+  useEffect(() => {
+    if (!view) return;
+    const update = () => setRevision((n) => n + 1);
+    view.dom.addEventListener('prosemirror-update', update); // Slides follow every edit
+    return () => view.dom.removeEventListener('prosemirror-update', update);
+  }, [view]);
+
+  const doc = view && !view.isDestroyed ? view.state.doc : null;
+  const effectiveSplit = split ?? (doc ? defaultSlideSplit(doc) : 'headings');
+  const slides = useMemo(() => (doc ? splitSlides(doc, effectiveSplit) : []), [doc, effectiveSplit]);
+  if (!view || !doc) return null;
+  const currentIndex = slideIndexAt(slides, view.state.selection.from);
+
+  // Put the cursor at the start of a slide
+  const goToSlide = (slide: Slide) => {
+    const tr = view.state.tr.setSelection(TextSelection.near(view.state.doc.resolve(slide.from + 1)));
+    view.dispatch(tr.scrollIntoView());
+    view.focus();
+  };
+
+  return (
+    <section className="slide-deck">
+      <div className="history-header">
+        <span className="document-sidebar-title">Slides ({slides.length})</span>
+        <select
+          className="provider-select"
+          value={effectiveSplit}
+          onChange={(e) => setSplit(e.target.value as SlideSplit)}
+          title="Where the document is cut into slides"
+        >
+          <option value="breaks">Split on slide breaks</option>
+          <option value="headings">Split on headings</option>
+        </select>
+        <button className="toolbar-button" onClick={() => setPresenting(currentIndex)} disabled={!slides.length} type="button">
+          Present
+        </button>
+        <button className="toolbar-button" onClick={() => onExport(slides)} disabled={!slides.length} type="button">
+          Export HTML
+        </button>
+      </div>
+
+      {onGenerateOutline && (
+        <form
+          className="slide-outline-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onGenerateOutline(topic);
+          }}
+        >
+          <input
+            className="slide-outline-topic"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder="Topic for a new deck (leave empty to outline this document)"
+            aria-label="Deck topic"
+          />
+          <button className="toolbar-button" disabled={aiBusy} type="submit">
+            Generate outline
+          </button>
+        </form>
+      )}
+
+      {slides.length === 0 ? (
+        <p className="history-note">Add headings or slide breaks (/slide or Ctrl+Shift+Enter) to turn the document into slides.</p>
+      ) : (
+        <ol className="slide-thumbnails">
+          {slides.map((slide, i) => (
+            <li key={slide.from}>
+              <button
+                className={`slide-thumbnail ${i === currentIndex ? 'active' : ''}`}
+                onClick={() => goToSlide(slide)}
+                title={slide.title || `Slide ${i + 1}`}
+                type="button"
+              >
+                <SlideFrame slide={slide} />
+                <span className="slide-thumbnail-label">{i + 1}. {slide.title || 'Untitled'}</span>
+              </button>
+              {onSlideAction && (
+                <div className="slide-actions">
+                  {SLIDE_ACTIONS.map(({ action, label, title }) => (
+                    <button
+                      key={action}
+                      className="slide-action"
+                      onClick={() => onSlideAction(slide, action)}
+                      disabled={aiBusy}
+                      title={title}
+                      type="button"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {presenting !== null && slides.length > 0 && (
+        <PresenterView slides={slides} startIndex={presenting} onClose={() => setPresenting(null)} />
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,45 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { SLIDE_HEIGHT, SLIDE_WIDTH, slideHTML } from '../schema/slides';
+import type { Slide } from '../schema/slides';
+
+interface SlideFrameProps {
+  slide: Slide;
+  className?: string;
+}
+
+// A slide laid out at its logical size and scaled to the frame's width; flagged when its content doesn't fit
+export const SlideFrame = ({ slide, className = '' }: SlideFrameProps) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const html = slideHTML(slide);
+
+  // Scale the stage to the frame (set on the DOM directly - layout only, nothing to re-render)
+  useEffect(() => {
+    const frame = frameRef.current;
+    const stage = stageRef.current;
+    if (!frame || !stage) return;
+    const observer = new ResizeObserver(() => {
+      stage.style.transform = `scale(${frame.clientWidth / SLIDE_WIDTH})`;
+    });
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  // Overflow is measured at the logical size, so it means the same thing in thumbnails and the presenter view
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    frameRef.current?.classList.toggle('overflowing', stage.scrollHeight > stage.clientHeight + 1);
+  }, [html, className]); // className too: React resets the class attribute when it changes
+
+  return (
+    <div ref={frameRef} className={`slide-frame ${className}`}>
+      <div
+        ref={stageRef}
+        className="slide-stage"
+        style={{ width: SLIDE_WIDTH, height: SLIDE_HEIGHT }}
+        dangerouslySetInnerHTML={{ __html: html }} // Sanitized by slideHTML
+      />
+    </div>
+  );
+};
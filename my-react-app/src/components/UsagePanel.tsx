@@ -0,0 +1,133 @@
+import { MODEL_PRICING, formatCost, formatTokens, getBudgetErrors, recentDays } from '../services/usage';
+import type { BudgetStatus, BudgetUnit, UsageBudget, UsageLedger, UsageTotals } from '../services/usage';
+
+interface UsagePanelProps {
+  ledger: UsageLedger;
+  today: UsageTotals;
+  document: UsageTotals; // Open document's totals
+  budget: UsageBudget;
+  status: BudgetStatus;
+  onBudgetChange: (budget: UsageBudget) => void;
+  onReset: () => void;
+}
+
+const DAYS_SHOWN = 7;
+
+// Tokens and cost of some totals (cost marked as partial when some requests went to unpriced models)
+const describe = (totals: UsageTotals) =>
+  `${totals.requests} requests · ${formatTokens(totals.totalTokens)} tokens · ${formatCost(totals.cost)}${totals.unpriced ? '+' : ''}`;
+
+// Amount in a budget's unit
+const formatAmount = (amount: number, unit: BudgetUnit) => (unit === 'usd' ? formatCost(amount) : `${formatTokens(amount)} tokens`);
+
+// Token and cost dashboard with the daily budget
+export const UsagePanel = ({ ledger, today, document, budget, status, onBudgetChange, onReset }: UsagePanelProps) => {
+  const errors = getBudgetErrors(budget);
+  const days = recentDays(DAYS_SHOWN);
+  const models = Object.entries(ledger.models).sort(([, a], [, b]) => b.totalTokens - a.totalTokens);
+  const used = budget.unit === 'usd' ? today.cost : today.totalTokens;
+  const setLimit = (key: 'soft' | 'hard', value: string) =>
+    onBudgetChange({ ...budget, [key]: value.trim() === '' ? null : Number(value) });
+
+  return (
+    <section className="history-panel">
+      <div className="history-header">
+        <span className="document-sidebar-title">Usage</span>
+        {models.length > 0 && (
+          <button className="toolbar-button" onClick={onReset} type="button">Reset</button>
+        )}
+      </div>
+
+      <dl className="usage-summary">
+        <dt>Today</dt>
+        <dd>{describe(today)}</dd>
+        <dt>This document</dt>
+        <dd>{describe(document)}</dd>
+      </dl>
+
+      <table className="usage-table">
+        <caption>Last {DAYS_SHOWN} days</caption>
+        <tbody>
+          {days.map((day) => {
+            const totals = ledger.days[day];
+            return (
+              <tr key={day}>
+                <td>{day}</td>
+                <td>{totals ? formatTokens(totals.totalTokens) : '-'}</td>
+                <td>{totals ? formatCost(totals.cost) : '-'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {models.length > 0 && (
+        <table className="usage-table">
+          <caption>By model</caption>
+          <tbody>
+            {models.map(([model, totals]) => (
+              <tr key={model}>
+                <td>{model}</td>
+                <td>{formatTokens(totals.promptTokens)} in / {formatTokens(totals.outputTokens)} out</td>
+                <td title={MODEL_PRICING[model] ? `$${MODEL_PRICING[model].input} / $${MODEL_PRICING[model].output} per 1M tokens` : 'No known price'}>
+                  {MODEL_PRICING[model] ? formatCost(totals.cost) : 'n/a'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <fieldset className="settings-panel">
+        <label className="settings-field">
+          <span>Daily budget in</span>
+          <select
+            className="provider-select"
+            value={budget.unit}
+            onChange={(e) => onBudgetChange({ ...budget, unit: e.target.value as BudgetUnit })}
+          >
+            <option value="usd">US dollars</option>
+            <option value="tokens">Tokens</option>
+          </select>
+        </label>
+        <label className="settings-field">
+          <span>Warn at</span>
+          <input
+            className="settings-input"
+            type="number"
+            min={0}
+            step="any"
+            value={budget.soft ?? ''}
+            placeholder="No warning"
+            onChange={(e) => setLimit('soft', e.target.value)}
+          />
+        </label>
+        <label className="settings-field">
+          <span>Block at</span>
+          <input
+            className="settings-input"
+            type="number"
+            min={0}
+            step="any"
+            value={budget.hard ?? ''}
+            placeholder="No limit"
+            onChange={(e) => setLimit('hard', e.target.value)}
+          />
+        </label>
+
+        {status !== 'ok' && (
+          <p className={`usage-status usage-status-${status}`}>
+            {status === 'exceeded' ? 'Continue Writing is paused for today' : 'Past the warning limit'}
+            {' '}({formatAmount(used, budget.unit)} of {formatAmount((status === 'exceeded' ? budget.hard : budget.soft) ?? 0, budget.unit)})
+          </p>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="settings-errors">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </fieldset>
+    </section>
+  );
+};
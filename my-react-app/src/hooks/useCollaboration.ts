@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { RefObject } from 'react';
+import { OFFLINE_SNAPSHOT, collabServerUrl, createCollabSession, loadCollabUser, saveCollabUser } from '../services/collab';
+import type { CollabEditor, CollabUser } from '../services/collab';
+
+const subscribeNothing = () => () => {};
+const offline = () => OFFLINE_SNAPSHOT;
+
+/**
+ * Shared editing of the open document: the room it is in, the user shown to collaborators,
+ * and the connection status and collaborators of the current session
+ */
+export function useCollaboration(editorRef: RefObject<CollabEditor | null>, documentId: string | null) {
+  const [user, setUser] = useState(loadCollabUser);
+  const [shared, setShared] = useState<{ documentId: string; room: string } | null>(null);
+  const room = shared && shared.documentId === documentId ? shared.room : null; // Opening another document leaves the room
+
+  const session = useMemo(() => (room ? createCollabSession({ url: collabServerUrl(), room, user }) : null), [room, user]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!session || !editor) return;
+    session.start(editor);
+    return () => session.stop();
+  }, [editorRef, session]);
+
+  const { status, peers, error } = useSyncExternalStore(session?.subscribe ?? subscribeNothing, session?.getSnapshot ?? offline);
+
+  const join = useCallback((name: string) => {
+    if (documentId && name.trim()) setShared({ documentId, room: name.trim() });
+  }, [documentId]);
+
+  const leave = useCallback(() => setShared(null), []);
+
+  const updateUser = useCallback((next: CollabUser) => {
+    saveCollabUser(next);
+    setUser(next); // Rejoins with the new name and color
+  }, []);
+
+  return { user, updateUser, room, join, leave, status, peers, error };
+}
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import type { DocumentMeta, DocumentStorage, StoredDocument } from '../services/storage';
+import {
+  createDocument,
+  deleteDocument,
+  duplicateDocument,
+  renameDocument,
+  saveDocumentContent,
+} from '../services/documentService';
+
+const AUTOSAVE_DELAY = 1000; // Save this long after the last edit
+const ACTIVE_DOCUMENT_KEY = 'chronicle.activeDocument'; // localStorage key for the document reopened on load
+
+export type SaveStatus = 'loading' | 'saved' | 'unsaved' | 'saving' | 'error';
+
+// Edit waiting for the autosave timer (serialized to JSON only when it is written)
+interface PendingSave {
+  id: string;
+  doc: ProseMirrorNode;
+}
+
+const readActiveId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const describe = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const writeActiveId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_DOCUMENT_KEY, id);
+  } catch {
+    // Reopening the last document is a convenience - ignore storage errors
+  }
+};
+
+/**
+ * Document list, active document and debounced autosave on top of a DocumentStorage.
+ * onOpen is called whenever a different document becomes active (restore on load, open, create, delete).
+ */
+export function useDocuments(storage: DocumentStorage, onOpen: (document: StoredDocument) => void) {
+  const [documents, setDocuments] = useState<DocumentMeta[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('loading');
+  const [error, setError] = useState<string | null>(null); // Why the last save or the restore failed (shown in the sidebar)
+  const onOpenRef = useRef(onOpen); // Latest callback (avoids stale closures in async handlers)
+  const pendingRef = useRef<PendingSave | null>(null); // Unsaved edit, if any
+  const timeoutRef = useRef<number | null>(null); // Autosave debounce timeout ID
+
+  useEffect(() => {
+    onOpenRef.current = onOpen;
+  }, [onOpen]);
+
+  const refresh = useCallback(async () => {
+    setDocuments(await storage.list());
+  }, [storage]);
+
+  // Write the pending edit now (before switching documents, on page hide, or when the timer fires)
+  const flush = useCallback(async () => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    setSaveStatus('saving');
+    try {
+      const meta = await saveDocumentContent(storage, pending.id, pending.doc.toJSON());
+      setDocuments((docs) => [meta, ...docs.filter((d) => d.id !== meta.id)]); // Most recently updated first
+      setSaveStatus(pendingRef.current ? 'unsaved' : 'saved'); // More edits may have arrived while saving
+      setError(null);
+    } catch (caught) {
+      pendingRef.current ??= pending; // Saved again with the next edit or flush
+      setError(`Could not save your changes: ${describe(caught)}`);
+      setSaveStatus('error');
+    }
+  }, [storage]);
+
+  // Queue the latest document for saving (called on every document change)
+  const scheduleSave = useCallback((doc: ProseMirrorNode) => {
+    if (!activeId) return;
+    pendingRef.current = { id: activeId, doc };
+    setSaveStatus('unsaved');
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+    timeoutRef.current = window.setTimeout(() => void flush(), AUTOSAVE_DELAY);
+  }, [activeId, flush]);
+
+  // Make a loaded document active and hand it to the editor (first, so a document it can't show doesn't become active)
+  const activate = useCallback((document: StoredDocument) => {
+    onOpenRef.current(document);
+    setActiveId(document.id);
+    writeActiveId(document.id);
+    setSaveStatus('saved');
+    if (!pendingRef.current) setError(null); // An unsaved edit of the document left keeps its error
+  }, []);
+
+  // Run a document action, showing why it failed in the sidebar (the sidebar doesn't wait for it; resolves with false then)
+  const attempt = useCallback(async (failure: string, action: () => Promise<void>): Promise<boolean> => {
+    try {
+      await action();
+      return true;
+    } catch (caught) {
+      setError(`${failure}: ${describe(caught)}`);
+      return false; // The open document's save status stays as it is - its edits are unaffected
+    }
+  }, []);
+
+  const open = useCallback((id: string) => attempt('Could not open the document', async () => {
+    if (id === activeId) return;
+    await flush(); // Don't lose the last edits of the document being left
+    const document = await storage.load(id);
+    if (document) activate(document);
+  }), [activeId, activate, attempt, flush, storage]);
+
+  const create = useCallback(() => attempt('Could not create a document', async () => {
+    await flush();
+    const document = await createDocument(storage);
+    await refresh();
+    activate(document);
+  }), [activate, attempt, flush, refresh, storage]);
+
+  const rename = useCallback((id: string, title: string) => attempt('Could not rename the document', async () => {
+    await flush();
+    await renameDocument(storage, id, title);
+    await refresh();
+  }), [attempt, flush, refresh, storage]);
+
+  const duplicate = useCallback((id: string) => attempt('Could not duplicate the document', async () => {
+    await flush(); // The copy should include unsaved edits
+    const document = await duplicateDocument(storage, id);
+    await refresh();
+    activate(document);
+  }), [activate, attempt, flush, refresh, storage]);
+
+  // Resolves with false when the document could not be deleted (its AI history and settings should stay then)
+  const remove = useCallback((id: string) => attempt('Could not delete the document', async () => {
+    if (pendingRef.current?.id === id) {
+      pendingRef.current = null; // Don't resurrect the document with a late autosave
+    }
+    await flush();
+    await deleteDocument(storage, id);
+    const remaining = await storage.list();
+    setDocuments(remaining);
+    if (id !== activeId) return;
+    // Deleted the open document: switch to the most recent one, or start a fresh one
+    const next = remaining[0] ? await storage.load(remaining[0].id) : null;
+    if (next) {
+      activate(next);
+    } else {
+      await create();
+    }
+  }), [activeId, activate, attempt, create, flush, storage]);
+
+  // Restore the last open document (or create the first one) on load
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const list = await storage.list();
+      if (cancelled) return; // StrictMode re-runs the effect - only the second run restores
+      const lastId = readActiveId();
+      const id = list.find((d) => d.id === lastId)?.id ?? list[0]?.id;
+      let document = id ? await storage.load(id) : null;
+      if (!document) {
+        document = await createDocument(storage);
+        list.unshift(document);
+      }
+      if (cancelled) return;
+      setDocuments(list);
+      activate(document);
+    })().catch((caught: unknown) => {
+      if (cancelled) return;
+      setError(`Could not load your documents: ${describe(caught)}`);
+      setSaveStatus('error');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activate, storage]);
+
+  // Save immediately when the page is hidden or closed
+  useEffect(() => {
+    const handleHide = () => void flush();
+    window.addEventListener('pagehide', handleHide);
+    return () => {
+      window.removeEventListener('pagehide', handleHide);
+      void flush();
+    };
+  }, [flush]);
+
+  return { documents, activeId, saveStatus, error, scheduleSave, open, create, rename, duplicate, remove };
+}
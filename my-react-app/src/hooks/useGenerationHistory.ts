@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { GenerationHistoryStorage, GenerationRecord } from '../services/storage';
+import { HISTORY_LIMIT } from '../services/storage';
+
+// Loaded history, tagged with the document it belongs to
+interface LoadedHistory {
+  documentId: string | null;
+  records: GenerationRecord[];
+  error: string | null; // Why loading or saving the history failed (shown in the panel)
+}
+
+const describe = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * AI generation history of the open document (reloaded whenever another document becomes active)
+ */
+export function useGenerationHistory(storage: GenerationHistoryStorage, documentId: string | null) {
+  const [loaded, setLoaded] = useState<LoadedHistory>({ documentId: null, records: [], error: null });
+  const isLoaded = loaded.documentId === documentId; // Nothing shown until the new document's history arrives
+  const records = isLoaded ? loaded.records : [];
+  const error = isLoaded ? loaded.error : null;
+
+  useEffect(() => {
+    if (!documentId) return;
+    let cancelled = false;
+    storage.list(documentId).then(
+      (list) => {
+        if (!cancelled) setLoaded({ documentId, records: list, error: null });
+      },
+      (caught: unknown) => {
+        if (!cancelled) setLoaded({ documentId, records: [], error: `Could not load the AI history: ${describe(caught)}` });
+      }
+    );
+    return () => {
+      cancelled = true; // A later document switch wins
+    };
+  }, [documentId, storage]);
+
+  // Store a finished generation (shown immediately, newest first)
+  const add = useCallback(async (record: GenerationRecord) => {
+    setLoaded((current) => current.documentId === record.documentId
+      ? { ...current, records: [record, ...current.records].slice(0, HISTORY_LIMIT) }
+      : current);
+    try {
+      await storage.add(record);
+    } catch (caught) {
+      const message = `Could not save the AI history: ${describe(caught)}`; // Still listed until the next reload
+      setLoaded((current) => (current.documentId === record.documentId ? { ...current, error: message } : current));
+    }
+  }, [storage]);
+
+  // Delete a document's history (on document delete, or from the panel)
+  const clear = useCallback(async (id: string) => {
+    setLoaded((current) => (current.documentId === id ? { ...current, records: [] } : current));
+    try {
+      await storage.clear(id);
+    } catch (caught) {
+      const message = `Could not clear the AI history: ${describe(caught)}`; // It comes back with the next reload
+      setLoaded((current) => (current.documentId === id ? { ...current, error: message } : current));
+    }
+  }, [storage]);
+
+  return { records, error, add, clear };
+}
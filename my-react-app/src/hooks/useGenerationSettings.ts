@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react';
+import {
+  loadDocumentSettings,
+  loadUserSettings,
+  saveDocumentSettings,
+  saveUserSettings,
+} from '../services/generationSettings';
+import type { GenerationSettings } from '../services/generationSettings';
+
+// Where edits in the settings panel are saved
+export type SettingsScope = 'user' | 'document';
+
+/**
+ * Generation settings for the open document: its own settings when it has them, otherwise the user's defaults
+ */
+export function useGenerationSettings(documentId: string | null) {
+  const [userSettings, setUserSettings] = useState(loadUserSettings);
+  const [written, setWritten] = useState<Record<string, GenerationSettings | null>>({}); // Document settings changed this session
+
+  const documentSettings = !documentId ? null : documentId in written ? written[documentId] : loadDocumentSettings(documentId);
+  const settings = documentSettings ?? userSettings;
+  const scope: SettingsScope = documentSettings ? 'document' : 'user';
+
+  // Save edited settings to the current scope
+  const update = useCallback((next: GenerationSettings) => {
+    if (scope === 'document' && documentId) {
+      saveDocumentSettings(documentId, next);
+      setWritten((map) => ({ ...map, [documentId]: next }));
+    } else {
+      saveUserSettings(next);
+      setUserSettings(next);
+    }
+  }, [documentId, scope]);
+
+  // Give the document its own copy of the current settings, or drop it to go back to the user's defaults
+  const changeScope = useCallback((next: SettingsScope) => {
+    if (!documentId || next === scope) return;
+    const own = next === 'document' ? settings : null;
+    saveDocumentSettings(documentId, own);
+    setWritten((map) => ({ ...map, [documentId]: own }));
+  }, [documentId, scope, settings]);
+
+  // Forget a deleted document's settings
+  const forget = useCallback((id: string) => {
+    saveDocumentSettings(id, null);
+    setWritten((map) => ({ ...map, [id]: null }));
+  }, []);
+
+  return { settings, scope, update, changeScope, forget };
+}
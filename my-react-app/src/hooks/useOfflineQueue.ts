@@ -0,0 +1,13 @@
+import { useState, useSyncExternalStore } from 'react';
+import { createOfflineQueue, isOnline, subscribeToConnectivity } from '../services/offlineQueue';
+
+/**
+ * Connection status and the requests queued while offline
+ */
+export function useOfflineQueue() {
+  const [queue] = useState(createOfflineQueue); // Stable for the lifetime of the app
+  const items = useSyncExternalStore(queue.subscribe, queue.items);
+  const online = useSyncExternalStore(subscribeToConnectivity, isOnline);
+
+  return { online, items, add: queue.add, remove: queue.remove, setPosition: queue.setPosition, clear: queue.clear };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useState } from 'react';
+import {
+  BUILT_IN_TEMPLATES,
+  exportTemplates,
+  loadUserTemplates,
+  parseTemplatesJSON,
+  saveUserTemplates,
+} from '../services/prompts';
+import type { PromptTemplate } from '../services/prompts';
+
+/**
+ * Built-in and user prompt templates; user templates are saved to localStorage on every change
+ */
+export function usePromptTemplates() {
+  const [userTemplates, setUserTemplates] = useState(loadUserTemplates);
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+
+  const persist = useCallback((next: PromptTemplate[]) => {
+    saveUserTemplates(next);
+    setUserTemplates(next);
+  }, []);
+
+  // Create a template or save an edit (an edit bumps the version)
+  const save = useCallback((template: PromptTemplate) => {
+    const existing = userTemplates.find((t) => t.id === template.id);
+    persist(existing
+      ? userTemplates.map((t) => (t.id === template.id ? { ...template, version: existing.version + 1 } : t))
+      : [...userTemplates, { ...template, builtIn: undefined, version: 1 }]);
+  }, [persist, userTemplates]);
+
+  const remove = useCallback((id: string) => {
+    persist(userTemplates.filter((t) => t.id !== id));
+  }, [persist, userTemplates]);
+
+  // Add templates from an exported file (a template with the same id is replaced); returns how many were imported
+  const importJSON = useCallback((json: string): number => {
+    const imported = parseTemplatesJSON(json); // Throws on invalid files - caller reports it
+    persist([...userTemplates.filter((t) => !imported.some((i) => i.id === t.id)), ...imported]);
+    return imported.length;
+  }, [persist, userTemplates]);
+
+  const exportJSON = useCallback(() => exportTemplates(userTemplates), [userTemplates]);
+
+  return { templates, userTemplates, save, remove, importJSON, exportJSON };
+}
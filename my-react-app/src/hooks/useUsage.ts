@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  EMPTY_TOTALS,
+  budgetStatus,
+  createUsageStore,
+  dayKey,
+  loadUsageBudget,
+  msUntilNextDay,
+  saveUsageBudget,
+} from '../services/usage';
+import type { UsageBudget } from '../services/usage';
+
+const DAY_CHECK_MARGIN_MS = 1000; // Wake up just after midnight (timers can fire a little early)
+
+/**
+ * Recorded AI usage, today's and the open document's totals, and the daily budget
+ */
+export function useUsage(documentId: string | null) {
+  const [store] = useState(createUsageStore); // Stable for the lifetime of the app
+  const ledger = useSyncExternalStore(store.subscribe, store.ledger);
+  const [budget, setBudget] = useState(loadUsageBudget);
+  const [day, setDay] = useState(() => dayKey()); // Re-rendered at midnight so a used-up budget stops blocking
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        setDay(dayKey());
+        schedule();
+      }, msUntilNextDay() + DAY_CHECK_MARGIN_MS);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, []);
+
+  const today = ledger.days[day] ?? EMPTY_TOTALS;
+  const document = (documentId && ledger.documents[documentId]) || EMPTY_TOTALS;
+  const status = budgetStatus(today, budget);
+
+  const updateBudget = useCallback((next: UsageBudget) => {
+    saveUsageBudget(next);
+    setBudget(next);
+  }, []);
+
+  return {
+    ledger,
+    today,
+    document,
+    budget,
+    status,
+    updateBudget,
+    record: store.record,
+    forgetDocument: store.forgetDocument,
+    reset: store.reset,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * AI requests run by the editor machine as invoked actors. Each actor makes one attempt at a request and puts
+ * the answer into the editor; stopping the actor (Stop, another document) aborts the request.
+ */
+import { fromCallback, fromPromise } from 'xstate';
+import {
+  continueWritingAlternatives,
+  generateDeckOutline,
+  generateFromTemplate,
+  replyToComment,
+  rewriteSlide,
+  rewriteText,
+  streamContinuation,
+  streamSummary,
+  streamTemplate,
+} from '../services/aiService';
+import type {
+  AICommentRequest,
+  AIContinuationRequest,
+  AIOutlineRequest,
+  AIRewriteRequest,
+  AISlideRequest,
+  AISummaryRequest,
+  AITemplateRequest,
+  ContextWindow,
+  GenerationInfo,
+  GenerationObserver,
+} from '../services/aiService';
+import { throwIfAborted } from '../services/abort';
+import { RewriteDiscardedError } from '../services/aiErrors';
+import { outlineToMarkdown } from '../services/deckOutline';
+import type { AIProvider } from '../services/providers';
+import type { AIAuthor } from '../plugins/authorshipPlugin';
+import type { PendingRange } from '../plugins/pendingRangePlugin';
+import type { CommentMessage } from '../schema/comments';
+
+// What the machine needs from the editor (implemented by the ProseMirrorEditor handle)
+export interface AIEditor {
+  getContextAround: (window: ContextWindow) => AIContinuationRequest;
+  streamContent: (chunks: AsyncIterable<string>, onChunk?: (chunk: string) => void, signal?: AbortSignal) => Promise<string>;
+  replaceSuggestion: (text: string) => void;
+  beginRewrite: (range?: PendingRange) => string | null;
+  completeRewrite: (text: string) => boolean; // False when the range was deleted meanwhile
+  cancelRewrite: () => void;
+  insertBlocks: (content: string) => void;
+  addCommentReply: (threadId: string, message: CommentMessage) => void;
+  setAIAuthor: (author: AIAuthor | null) => void;
+  queueAtCursor: (id: string) => void;
+  focus: () => void;
+}
+
+// A request as the machine sends it (kept until it is done, so a failed attempt can be made again)
+export type AIRequest =
+  | { kind: 'continue'; request: AIContinuationRequest }
+  | { kind: 'summarize'; request: AISummaryRequest }
+  | { kind: 'template'; request: AITemplateRequest } // Answer streamed as a suggestion
+  | { kind: 'alternatives'; request: AIContinuationRequest; count: number }
+  | { kind: 'rewrite'; request: AIRewriteRequest; range: PendingRange } // Range the answer replaces
+  | { kind: 'templateRewrite'; request: AITemplateRequest; range: PendingRange } // Answer replaces the selection (its text is variables.selection)
+  | { kind: 'slide'; request: AISlideRequest; range: PendingRange }
+  | { kind: 'outline'; request: AIOutlineRequest }
+  | { kind: 'comment'; threadId: string; request: AICommentRequest };
+
+export type SuggestionRequest = Extract<AIRequest, { kind: 'continue' | 'summarize' | 'template' }>;
+export type AlternativesRequest = Extract<AIRequest, { kind: 'alternatives' }>;
+export type RewriteRequest = Extract<AIRequest, { kind: 'rewrite' | 'templateRewrite' | 'slide' }>;
+export type OutlineRequest = Extract<AIRequest, { kind: 'outline' }>;
+export type CommentRequest = Extract<AIRequest, { kind: 'comment' }>;
+
+// Events the streaming actor sends to the machine
+export type AIActorEvent =
+  | { type: 'AI_GENERATION'; info: GenerationInfo } // A model answered (again at the end with the token usage)
+  | { type: 'AI_CHUNK'; chunk: string } // Another piece of the suggestion arrived
+  | { type: 'AI_DONE' } // The stream ended
+  | { type: 'ERROR'; error: Error }; // The attempt failed (typed AIError subclasses for provider failures)
+
+export interface AIActorInput<TRequest> {
+  editor: AIEditor;
+  provider: AIProvider;
+  request: TRequest;
+  onGeneration: GenerationObserver; // Reports to the machine which model answered
+}
+
+export const toError = (error: unknown): Error => (error instanceof Error ? error : new Error('The AI request failed.'));
+
+// Observer that goes quiet once the attempt has been stopped (a late answer must not count for the next request)
+const untilAborted = (observer: GenerationObserver, signal: AbortSignal): GenerationObserver => (info) => {
+  if (!signal.aborted) observer(info);
+};
+
+function openSuggestionStream(request: SuggestionRequest, provider: AIProvider, signal: AbortSignal, onGeneration: GenerationObserver) {
+  switch (request.kind) {
+    case 'continue': return streamContinuation(request.request, provider, signal, onGeneration);
+    case 'summarize': return streamSummary(request.request, provider, signal, onGeneration);
+    case 'template': return streamTemplate(request.request, provider, signal, onGeneration);
+  }
+}
+
+/**
+ * Stream the answer into a ghost text suggestion at the cursor, reporting each chunk to the machine
+ */
+export const streamSuggestion = fromCallback<AIActorEvent, Omit<AIActorInput<SuggestionRequest>, 'onGeneration'>>(({ input, sendBack }) => {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const report = (event: AIActorEvent) => {
+    if (!signal.aborted) sendBack(event);
+  };
+
+  const run = async () => {
+    const chunks = openSuggestionStream(input.request, input.provider, signal, (info) => report({ type: 'AI_GENERATION', info }));
+    await input.editor.streamContent(chunks, (chunk) => report({ type: 'AI_CHUNK', chunk }), signal);
+  };
+  run().then(() => report({ type: 'AI_DONE' }), (error: unknown) => report({ type: 'ERROR', error: toError(error) }));
+
+  return () => controller.abort(); // Stop: the partial suggestion stays for review
+});
+
+/**
+ * Ask for several continuations at once and show the first as the suggestion (resolves with all of them)
+ */
+export const fetchAlternatives = fromPromise<string[], AIActorInput<AlternativesRequest>>(async ({ input, signal }) => {
+  const { request, count } = input.request;
+  const { candidates } = await continueWritingAlternatives(request, input.provider, count, signal, untilAborted(input.onGeneration, signal));
+  throwIfAborted(signal);
+  await input.editor.streamContent((async function* () { yield candidates[0]; })(), undefined, signal);
+  return candidates;
+});
+
+function rewriteFor(request: RewriteRequest, provider: AIProvider, signal: AbortSignal, onGeneration: GenerationObserver): Promise<string> {
+  switch (request.kind) {
+    case 'rewrite': return rewriteText(request.request, provider, signal, onGeneration).then(({ rewritten }) => rewritten);
+    case 'templateRewrite': return generateFromTemplate(request.request, provider, signal, onGeneration);
+    case 'slide': return rewriteSlide(request.request, provider, signal, onGeneration).then(({ rewritten }) => rewritten);
+  }
+}
+
+/**
+ * Rewrite the range marked with beginRewrite and replace it (single undoable step; resolves with the new text).
+ * Fails with RewriteDiscardedError when the range was deleted while the model worked.
+ */
+export const rewriteRange = fromPromise<string, AIActorInput<RewriteRequest>>(async ({ input, signal }) => {
+  const rewritten = await rewriteFor(input.request, input.provider, signal, untilAborted(input.onGeneration, signal));
+  throwIfAborted(signal);
+  if (!input.editor.completeRewrite(rewritten)) throw new RewriteDiscardedError();
+  return rewritten;
+});
+
+/**
+ * Generate a deck outline and insert it after the block at the cursor (resolves with its Markdown)
+ */
+export const insertOutline = fromPromise<string, AIActorInput<OutlineRequest>>(async ({ input, signal }) => {
+  const outline = await generateDeckOutline(input.request.request, input.provider, signal, untilAborted(input.onGeneration, signal));
+  throwIfAborted(signal);
+  const markdown = outlineToMarkdown(outline);
+  input.editor.insertBlocks(markdown);
+  return markdown;
+});
+
+/**
+ * Answer in a review thread and post the answer as a reply (resolves with its text)
+ */
+export const answerComment = fromPromise<string, AIActorInput<CommentRequest>>(async ({ input, signal }) => {
+  let model: string | undefined; // Shown with the reply
+  const onGeneration = untilAborted(input.onGeneration, signal);
+  const { reply } = await replyToComment(input.request.request, input.provider, signal, (info) => {
+    model = info.model;
+    onGeneration(info);
+  });
+  throwIfAborted(signal);
+  input.editor.addCommentReply(input.request.threadId, { id: crypto.randomUUID(), author: 'AI', model, text: reply, createdAt: Date.now() });
+  return reply;
+});
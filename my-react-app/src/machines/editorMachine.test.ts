@@ -0,0 +1,441 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createActor, waitFor } from 'xstate';
+import { editorMachine, selectCanRetry } from './editorMachine';
+import type { EditorEmitted } from './editorMachine';
+import type { AIEditor } from './aiActors';
+import { mySchema } from '../schema/editorSchema';
+import { AuthError, BudgetExceededError, InvalidSettingsError, RateLimitError, RewriteDiscardedError } from '../services/aiErrors';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/generationSettings';
+import type { AIProvider } from '../services/providers';
+import type { CommentThread } from '../schema/comments';
+
+// What the fake provider answers, one reply per call: streamed chunks, candidates, or a failure
+type Reply = string | string[] | Error;
+
+interface FakeProviderOptions {
+  offline?: boolean; // Works without a network connection
+  gate?: Promise<void>; // Streams wait here after their first chunk
+}
+
+// Provider that answers from a script, in order
+function fakeProvider(replies: Reply[], { offline = true, gate }: FakeProviderOptions = {}) {
+  const prompts: string[] = [];
+  const next = (prompt: string) => {
+    prompts.push(prompt);
+    const reply = replies.shift();
+    if (reply === undefined) throw new Error('No reply scripted.');
+    if (reply instanceof Error) throw reply;
+    return Array.isArray(reply) ? reply : [reply];
+  };
+  const provider: AIProvider = {
+    id: 'fake',
+    label: 'Fake',
+    capabilities: { streaming: true, cancellation: true, offline, candidates: true },
+    listModels: () => ['fake-model'],
+    async generate(request) {
+      const texts = next(request.prompt);
+      return { text: texts[0], model: request.model, candidates: texts.slice(0, request.candidateCount ?? 1) };
+    },
+    async *stream(request) {
+      const [first, ...rest] = next(request.prompt);
+      yield first;
+      await gate;
+      yield* rest;
+    },
+    cancel: () => {},
+  };
+  return { provider, prompts };
+}
+
+// Editor stand-in: streams into nothing and records what the machine asked of it
+function fakeEditor() {
+  return {
+    getContextAround: vi.fn<AIEditor['getContextAround']>(() => ({ before: 'Hello world', after: '' })),
+    streamContent: vi.fn<AIEditor['streamContent']>(async (chunks, onChunk, signal) => {
+      let text = '';
+      for await (const chunk of chunks) {
+        if (signal?.aborted) break;
+        text += chunk;
+        onChunk?.(chunk);
+      }
+      return text;
+    }),
+    replaceSuggestion: vi.fn<AIEditor['replaceSuggestion']>(),
+    beginRewrite: vi.fn<AIEditor['beginRewrite']>(() => 'world'),
+    completeRewrite: vi.fn<AIEditor['completeRewrite']>(() => true),
+    cancelRewrite: vi.fn<AIEditor['cancelRewrite']>(),
+    insertBlocks: vi.fn<AIEditor['insertBlocks']>(),
+    addCommentReply: vi.fn<AIEditor['addCommentReply']>(),
+    setAIAuthor: vi.fn<AIEditor['setAIAuthor']>(),
+    queueAtCursor: vi.fn<AIEditor['queueAtCursor']>(),
+    focus: vi.fn<AIEditor['focus']>(),
+  } satisfies AIEditor;
+}
+
+const DOC = mySchema.node('doc', null, [mySchema.node('paragraph', null, [mySchema.text('Hello world')])]);
+const WORLD = { from: 7, to: 12 }; // "world"
+
+const OUTLINE = JSON.stringify({ title: 'Deck', slides: [{ title: 'Intro', bullets: ['Hello'], notes: 'Say hello.' }] });
+
+const THREAD: CommentThread = {
+  id: 'thread-1',
+  quote: 'world',
+  resolved: false,
+  createdAt: 0,
+  messages: [{ id: 'm1', author: 'Ann', text: 'Is this clear?', createdAt: 0 }],
+};
+
+// Start the machine on a loaded document, collecting what it emits
+function start(replies: Reply[], options?: FakeProviderOptions & { online?: boolean }) {
+  const editor = fakeEditor();
+  const { provider, prompts } = fakeProvider(replies, options);
+  const actor = createActor(editorMachine, { input: { editor: { current: editor }, provider, online: options?.online } }).start();
+  const emitted: EditorEmitted[] = [];
+  actor.on('*', (event) => emitted.push(event));
+  actor.send({ type: 'DOCUMENT_LOADED', documentId: 'doc-1', doc: DOC });
+  return { actor, editor, prompts, emitted };
+}
+
+const finished = (emitted: EditorEmitted[]) =>
+  emitted.flatMap((event) => (event.type === 'generationFinished' ? [event.resolution] : []));
+
+// Promise the test resolves itself (holds a stream open)
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('editorMachine', () => {
+  beforeEach(() => {
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => setTimeout(() => callback(0), 0));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('suggestions', () => {
+    it('streams a continuation for review and records it once accepted', async () => {
+      const { actor, emitted } = start([['Once ', 'more.']]);
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      expect(actor.getSnapshot().matches({ suggesting: 'loading' })).toBe(true);
+
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+      expect(actor.getSnapshot().context.generation?.text).toBe('Once more.');
+
+      actor.send({ type: 'SUGGESTION_ACCEPTED' });
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(finished(emitted)).toEqual(['accepted']);
+    });
+
+    it('stays in streaming until the stream ends', async () => {
+      const gate = deferred();
+      const { actor } = start([['Once ', 'more.']], { gate: gate.promise });
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches({ suggesting: 'streaming' }));
+      expect(actor.getSnapshot().hasTag('working')).toBe(true);
+
+      gate.resolve();
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+    });
+
+    it('keeps the partial suggestion for review when stopped mid-stream', async () => {
+      const { actor } = start([['Once ', 'more.']], { gate: new Promise(() => {}) });
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches({ suggesting: 'streaming' }));
+      actor.send({ type: 'CANCEL' });
+
+      expect(actor.getSnapshot().matches('reviewing')).toBe(true);
+      expect(actor.getSnapshot().context.generation?.text).toBe('Once ');
+    });
+
+    it('accepts or rejects mid-stream', async () => {
+      const { actor, emitted } = start([['Once ', 'more.'], ['Twice ', 'more.']], { gate: new Promise(() => {}) });
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches({ suggesting: 'streaming' }));
+      actor.send({ type: 'SUGGESTION_ACCEPTED' });
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches({ suggesting: 'streaming' }));
+      actor.send({ type: 'SUGGESTION_REJECTED' });
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+
+      expect(finished(emitted)).toEqual(['accepted', 'rejected']);
+    });
+
+    it('drops the request when stopped before any text arrived', () => {
+      const { actor, editor, emitted } = start(['Once more.']);
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      actor.send({ type: 'CANCEL' });
+
+      const { context } = actor.getSnapshot();
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(context.request).toBeNull();
+      expect(context.error).toBeNull();
+      expect(editor.streamContent.mock.calls[0][2]?.aborted).toBe(true);
+      expect(finished(emitted)).toEqual([]);
+    });
+
+    it('ignores Continue Writing in an empty document', () => {
+      const { actor, prompts } = start(['Once more.']);
+
+      actor.send({ type: 'DOCUMENT_LOADED', documentId: 'doc-2', doc: mySchema.topNodeType.createAndFill()! });
+      actor.send({ type: 'CONTINUE_WRITING' });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(prompts).toEqual([]);
+    });
+  });
+
+  describe('errors', () => {
+    it('shows a final error without retrying', async () => {
+      const { actor, prompts } = start([new AuthError('Invalid API key.')]);
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+
+      expect(actor.getSnapshot().context.error).toBeInstanceOf(AuthError);
+      expect(selectCanRetry(actor.getSnapshot())).toBe(false);
+      expect(prompts).toHaveLength(1);
+    });
+
+    it('refuses invalid settings before sending, as a request to fix rather than retry', async () => {
+      const { actor, prompts } = start(['Once more.']);
+
+      actor.send({ type: 'SETTINGS_CHANGED', settings: { ...DEFAULT_GENERATION_SETTINGS, model: 'unknown-model' } });
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle') && !!snapshot.context.error);
+
+      expect(actor.getSnapshot().context.error).toBeInstanceOf(InvalidSettingsError);
+      expect(selectCanRetry(actor.getSnapshot())).toBe(false);
+      expect(prompts).toEqual([]);
+    });
+
+    it('retries a transient failure and goes on with the same request', async () => {
+      const { actor, prompts } = start([new RateLimitError(0), 'Once more.']);
+      const states: string[] = [];
+      actor.subscribe((snapshot) => states.push(JSON.stringify(snapshot.value)));
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+
+      expect(states).toContain('"retrying"');
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1]).toBe(prompts[0]);
+      expect(actor.getSnapshot().context.error).toBeNull();
+    });
+
+    it('sends the failed request again on RETRY', async () => {
+      const { actor, prompts } = start([new RateLimitError(60_000), 'Once more.']); // Too long to wait for automatically
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle') && snapshot.context.error !== null);
+      expect(selectCanRetry(actor.getSnapshot())).toBe(true);
+
+      actor.send({ type: 'RETRY' });
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+      expect(prompts[1]).toBe(prompts[0]);
+      expect(actor.getSnapshot().context.error).toBeNull();
+    });
+
+    it('sends a failed rewrite again on RETRY, but not once its text changed', async () => {
+      const { actor, editor, prompts } = start([new RateLimitError(60_000), 'planet', new RateLimitError(60_000)]);
+      actor.send({ type: 'SELECTION_CHANGED', selection: WORLD });
+
+      actor.send({ type: 'REPHRASE' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle') && snapshot.context.error !== null);
+      expect(editor.cancelRewrite).toHaveBeenCalledTimes(1);
+
+      actor.send({ type: 'SELECTION_CHANGED', selection: { from: 1, to: 1 } }); // The range is kept with the request
+      actor.send({ type: 'RETRY' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+      expect(editor.beginRewrite).toHaveBeenLastCalledWith(WORLD);
+      expect(editor.completeRewrite).toHaveBeenCalledWith('planet');
+      expect(prompts[1]).toBe(prompts[0]);
+
+      actor.send({ type: 'SELECTION_CHANGED', selection: WORLD });
+      actor.send({ type: 'REPHRASE' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle') && snapshot.context.error !== null);
+      const edited = mySchema.node('doc', null, [mySchema.node('paragraph', null, [mySchema.text('Hello there')])]);
+      actor.send({ type: 'DOCUMENT_CHANGED', doc: edited });
+      expect(selectCanRetry(actor.getSnapshot())).toBe(false);
+    });
+
+    it('keeps the partial suggestion when the stream breaks off', async () => {
+      const gate = deferred();
+      const { actor } = start([['Once ', 'more.']], { gate: gate.promise.then(() => { throw new AuthError('Invalid API key.'); }) });
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches({ suggesting: 'streaming' }));
+      gate.resolve();
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+
+      expect(actor.getSnapshot().context.error).toBeInstanceOf(AuthError);
+      expect(actor.getSnapshot().context.generation?.text).toBe('Once ');
+    });
+  });
+
+  describe('budget and connection', () => {
+    it('refuses continuations over the budget', () => {
+      const { actor, prompts } = start(['Once more.']);
+
+      actor.send({ type: 'BUDGET_CHANGED', status: 'exceeded' });
+      actor.send({ type: 'CONTINUE_WRITING' });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(actor.getSnapshot().context.error).toBeInstanceOf(BudgetExceededError);
+      expect(prompts).toEqual([]);
+    });
+
+    it('does not blame the budget while no editor is mounted', () => {
+      const { provider, prompts } = fakeProvider(['Once more.']);
+      const actor = createActor(editorMachine, { input: { editor: { current: null }, provider } }).start();
+
+      actor.send({ type: 'DOCUMENT_LOADED', documentId: 'doc-1', doc: DOC });
+      actor.send({ type: 'BUDGET_CHANGED', status: 'exceeded' });
+      actor.send({ type: 'CONTINUE_WRITING' });
+      actor.send({ type: 'CONTINUE_ALTERNATIVES' });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(actor.getSnapshot().context.error).toBeNull();
+      expect(prompts).toEqual([]);
+    });
+
+    it('still rewrites over the budget', async () => {
+      const { actor } = start(['planet']);
+
+      actor.send({ type: 'BUDGET_CHANGED', status: 'exceeded' });
+      actor.send({ type: 'SELECTION_CHANGED', selection: WORLD });
+      actor.send({ type: 'REPHRASE' });
+
+      expect(actor.getSnapshot().matches('rewriting')).toBe(true);
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+    });
+
+    it('queues Continue Writing while offline', () => {
+      const { actor, editor, emitted, prompts } = start(['Once more.'], { offline: false, online: false });
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(prompts).toEqual([]);
+      const queued = emitted.find((event) => event.type === 'continuationQueued');
+      expect(queued).toMatchObject({ item: { documentId: 'doc-1' } });
+      expect(editor.queueAtCursor).toHaveBeenCalledWith(queued?.type === 'continuationQueued' && queued.item.id);
+    });
+
+    it('runs Continue Writing again once back online', async () => {
+      const { actor, prompts } = start(['Once more.'], { offline: false, online: false });
+
+      actor.send({ type: 'CONNECTION_CHANGED', online: true });
+      actor.send({ type: 'CONTINUE_WRITING' });
+
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+      expect(prompts).toHaveLength(1);
+    });
+  });
+
+  describe('other requests', () => {
+    it('offers alternatives and switches between them', async () => {
+      const { actor, editor } = start([['First.', 'Second.', 'Third.']]);
+
+      actor.send({ type: 'CONTINUE_ALTERNATIVES' });
+      expect(actor.getSnapshot().matches('alternatives')).toBe(true);
+      await waitFor(actor, (snapshot) => snapshot.matches('reviewing'));
+      expect(actor.getSnapshot().context.candidates).toEqual(['First.', 'Second.', 'Third.']);
+      expect(actor.getSnapshot().context.generation?.text).toBe('First.');
+
+      actor.send({ type: 'PICK_CANDIDATE', index: 2 });
+      expect(editor.replaceSuggestion).toHaveBeenCalledWith('Third.');
+      expect(actor.getSnapshot().context.generation?.text).toBe('Third.');
+
+      actor.send({ type: 'PICK_CANDIDATE', index: 5 });
+      expect(actor.getSnapshot().context.candidateIndex).toBe(2);
+    });
+
+    it('rewrites the selection in place', async () => {
+      const { actor, editor, emitted } = start(['planet']);
+
+      actor.send({ type: 'SELECTION_CHANGED', selection: WORLD });
+      actor.send({ type: 'CHANGE_TONE', tone: 'friendly' });
+      expect(actor.getSnapshot().matches('rewriting')).toBe(true);
+      expect(editor.beginRewrite).toHaveBeenCalledWith(WORLD);
+
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+      expect(editor.completeRewrite).toHaveBeenCalledWith('planet');
+      expect(finished(emitted)).toEqual(['applied']);
+    });
+
+    it('does not rewrite without a selection', () => {
+      const { actor } = start(['planet']);
+
+      actor.send({ type: 'REPHRASE' });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+    });
+
+    it('fails a rewrite whose range was deleted', async () => {
+      const { actor, editor, emitted } = start(['planet']);
+      editor.completeRewrite.mockReturnValue(false);
+
+      actor.send({ type: 'SELECTION_CHANGED', selection: WORLD });
+      actor.send({ type: 'REPHRASE' });
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+
+      expect(actor.getSnapshot().context.error).toBeInstanceOf(RewriteDiscardedError);
+      expect(finished(emitted)).toEqual([]);
+    });
+
+    it('releases the range when a rewrite is stopped', () => {
+      const { actor, editor } = start(['planet']);
+
+      actor.send({ type: 'SELECTION_CHANGED', selection: WORLD });
+      actor.send({ type: 'SHORTEN' });
+      actor.send({ type: 'CANCEL' });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(editor.cancelRewrite).toHaveBeenCalled();
+      expect(editor.completeRewrite).not.toHaveBeenCalled();
+    });
+
+    it('inserts a deck outline', async () => {
+      const { actor, editor, emitted } = start([OUTLINE]);
+
+      actor.send({ type: 'GENERATE_OUTLINE', topic: 'Greetings' });
+      expect(actor.getSnapshot().matches('outlining')).toBe(true);
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+
+      expect(editor.insertBlocks).toHaveBeenCalledWith(expect.stringContaining('Intro'));
+      expect(finished(emitted)).toEqual(['applied']);
+    });
+
+    it('answers in a comment thread', async () => {
+      const { actor, editor } = start(['Yes, it is.']);
+
+      actor.send({ type: 'ASK_AI_COMMENT', thread: THREAD, quote: 'world' });
+      expect(actor.getSnapshot().matches('answering')).toBe(true);
+      await waitFor(actor, (snapshot) => snapshot.matches('idle'));
+
+      expect(editor.addCommentReply).toHaveBeenCalledWith('thread-1', expect.objectContaining({ author: 'AI', text: 'Yes, it is.' }));
+    });
+
+    it('stops the running request when another document is opened', async () => {
+      const { actor, editor } = start([['Once ', 'more.']], { gate: new Promise(() => {}) });
+
+      actor.send({ type: 'CONTINUE_WRITING' });
+      await waitFor(actor, (snapshot) => snapshot.matches({ suggesting: 'streaming' }));
+      actor.send({ type: 'DOCUMENT_LOADED', documentId: 'doc-2', doc: DOC });
+
+      expect(actor.getSnapshot().matches('idle')).toBe(true);
+      expect(actor.getSnapshot().context.request).toBeNull();
+      expect(editor.streamContent.mock.calls[0][2]?.aborted).toBe(true);
+    });
+  });
+});
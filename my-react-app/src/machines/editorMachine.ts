@@ -1,94 +1,742 @@
-import { setup, assign } from 'xstate'; // XState utilities for creating state machines
+import { setup, assign, and, not, enqueueActions } from 'xstate'; // XState utilities for creating state machines
+import type { SnapshotFrom } from 'xstate';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import { DEFAULT_CANDIDATE_COUNT, DEFAULT_CONTEXT_WINDOW } from '../services/aiService';
+import type { GenerationInfo, RewriteCommand, RewriteTone, SlideAction } from '../services/aiService';
+import type { AIProvider, TokenUsage } from '../services/providers';
+import { BudgetExceededError, NetworkError, RateLimitError, isRetryableError } from '../services/aiErrors';
+import { withJitter } from '../services/requestScheduler';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/generationSettings';
+import type { GenerationSettings } from '../services/generationSettings';
+import { recordInsert, startGeneration } from '../services/generationHistory';
+import type { PendingGeneration } from '../services/generationHistory';
+import type { QueuedRequest } from '../services/offlineQueue';
+import type { BudgetStatus } from '../services/usage';
+import type { GenerationKind } from '../services/storage';
+import type { PromptTemplate, PromptVariables } from '../services/prompts';
+import type { CommentThread } from '../schema/comments';
+import { rangeToMarkdown, toMarkdown } from '../schema/markdown';
+import { mySchema } from '../schema/editorSchema';
+import { answerComment, fetchAlternatives, insertOutline, rewriteRange, streamSuggestion, toError } from './aiActors';
+import type { AIActorEvent, AIEditor, AIRequest, RewriteRequest } from './aiActors';
+
+// Current cursor/selection range in the editor (document positions)
+export interface EditorSelection {
+  from: number;
+  to: number;
+}
 
 // Interface defining the context (state data) that the state machine manages
 export interface EditorContext {
-  content: string; // Current text content in the editor
-  isLoading: boolean; // Whether AI is currently generating content
-  error: string | null; // Error message if something goes wrong (null when no error)
+  editor: { readonly current: AIEditor | null }; // Ref to the editor the AI output goes into (null before it mounts)
+  provider: AIProvider; // Backend AI requests are sent to
+  settings: GenerationSettings; // Model and creativity for the open document
+  online: boolean; // Continue Writing is queued while offline (unless the provider works offline)
+  documentId: string | null; // Stored document open in the editor (null until one is loaded)
+  doc: ProseMirrorNode; // Current document in the editor
+  selection: EditorSelection; // Where the cursor is - AI continues from here
+  request: AIRequest | null; // AI request being worked on (kept between attempts)
+  generation: PendingGeneration | null; // Its output: which model answered, the text so far and how it changed the document
+  attempt: number; // Attempt at the request (1 for the first)
+  retryDelay: number; // Wait before the next attempt, in ms
+  candidates: string[]; // Alternative continuations to pick from (empty unless "Alternatives" was used)
+  candidateIndex: number; // Alternative currently shown as the suggestion
+  error: Error | null; // What went wrong (typed AIError subclasses for provider failures, null when no error)
+  budget: BudgetStatus; // Today's AI usage against the user's budget ('warning' still allows Continue Writing)
+}
+
+export interface EditorInput {
+  editor: { readonly current: AIEditor | null };
+  provider: AIProvider;
+  settings?: GenerationSettings;
+  online?: boolean;
 }
 
 // Union type defining all possible events that can trigger state transitions
 export type EditorEvent =
   | { type: 'CONTINUE_WRITING' } // User clicked "Continue Writing" button
-  | { type: 'CONTENT_UPDATED'; content: string } // Editor content changed (user typing)
-  | { type: 'AI_RESPONSE'; content: string } // AI successfully generated content
-  | { type: 'ERROR'; error: string } // An error occurred during AI generation
-  | { type: 'RESET' }; // Reset editor to initial state
+  | { type: 'SUMMARIZE' } // User asked for a summary of the document (streamed like a continuation)
+  | { type: 'RUN_TEMPLATE'; template: PromptTemplate; variables: PromptVariables } // User ran a prompt template (suggestion, or replaces the selection)
+  | { type: 'CONTINUE_ALTERNATIVES' } // User asked for several continuations to pick from
+  | { type: 'PICK_CANDIDATE'; index: number } // User switched to another alternative
+  | { type: 'REPHRASE' } // Rephrase the selected text
+  | { type: 'SHORTEN' } // Make the selected text shorter
+  | { type: 'EXPAND' } // Make the selected text longer
+  | { type: 'FIX_GRAMMAR' } // Fix grammar in the selected text
+  | { type: 'CHANGE_TONE'; tone: RewriteTone } // Rewrite the selected text in another tone
+  | { type: 'SLIDE_ACTION'; range: EditorSelection; action: SlideAction } // Apply an AI action (more concise, add an example...) to one slide of the deck
+  | { type: 'GENERATE_OUTLINE'; topic: string } // Ask for a slide deck outline of a topic (empty: of the document)
+  | { type: 'ASK_AI_COMMENT'; thread: CommentThread; quote: string } // Ask the AI to answer in a review thread
+  | { type: 'CANCEL' } // User clicked "Stop" while the AI was generating
+  | { type: 'RETRY' } // User clicked "Retry" after a request failed - send the same request again
+  | { type: 'SUGGESTION_ACCEPTED' } // User accepted the AI suggestion (committed to the document)
+  | { type: 'SUGGESTION_REJECTED' } // User rejected the AI suggestion
+  | { type: 'AI_INSERTED'; before: ProseMirrorNode; after: ProseMirrorNode } // AI output was committed to the document
+  | { type: 'DOCUMENT_CHANGED'; doc: ProseMirrorNode } // Editor document changed (typing, AI output, collaborators)
+  | { type: 'SELECTION_CHANGED'; selection: EditorSelection } // Cursor moved or selection changed
+  | { type: 'DOCUMENT_LOADED'; documentId: string; doc: ProseMirrorNode } // Another stored document was opened in the editor
+  | { type: 'PROVIDER_CHANGED'; provider: AIProvider } // User picked another AI provider
+  | { type: 'SETTINGS_CHANGED'; settings: GenerationSettings } // Generation settings edited, or another document's settings apply
+  | { type: 'CONNECTION_CHANGED'; online: boolean } // Browser went offline or back online
+  | { type: 'BUDGET_CHANGED'; status: BudgetStatus } // Usage was recorded, the budget was edited or a new day started
+  | { type: 'RESET' } // Reset editor to initial state
+  | AIActorEvent; // Sent by the streaming actor (chunks, end of stream, failure, model that answered)
+
+// Events emitted to the app (history, usage accounting and the offline queue live outside the machine)
+export type EditorEmitted =
+  | { type: 'generationFinished'; documentId: string; generation: PendingGeneration; resolution: 'accepted' | 'rejected' | 'applied' }
+  | { type: 'usage'; documentId: string | null; model: string; usage: TokenUsage }
+  | { type: 'continuationQueued'; item: QueuedRequest };
+
+// States AI requests run in, by request kind (also where a retry goes back to)
+type RequestFlow = 'suggesting' | 'alternatives' | 'rewriting' | 'outlining' | 'answering';
+
+const FLOWS: Record<AIRequest['kind'], RequestFlow> = {
+  continue: 'suggesting',
+  summarize: 'suggesting',
+  template: 'suggesting',
+  alternatives: 'alternatives',
+  rewrite: 'rewriting',
+  templateRewrite: 'rewriting',
+  slide: 'rewriting',
+  outline: 'outlining',
+  comment: 'answering',
+};
+
+// History kind of each request
+const KINDS: Record<AIRequest['kind'], GenerationKind> = {
+  continue: 'continue',
+  summarize: 'summarize',
+  template: 'template',
+  alternatives: 'continue',
+  rewrite: 'rewrite',
+  templateRewrite: 'template',
+  slide: 'slide',
+  outline: 'outline',
+  comment: 'comment',
+};
+
+// Rewrite command of each selection toolbar event
+const REWRITE_COMMANDS = {
+  REPHRASE: 'rephrase',
+  SHORTEN: 'shorten',
+  EXPAND: 'expand',
+  FIX_GRAMMAR: 'fixGrammar',
+  CHANGE_TONE: 'changeTone',
+} as const satisfies Record<string, RewriteCommand>;
+
+// Machine event for each rewrite command
+export const rewriteEvent = (command: RewriteCommand, tone: RewriteTone = 'professional'): EditorEvent => {
+  switch (command) {
+    case 'rephrase': return { type: 'REPHRASE' };
+    case 'shorten': return { type: 'SHORTEN' };
+    case 'expand': return { type: 'EXPAND' };
+    case 'fixGrammar': return { type: 'FIX_GRAMMAR' };
+    case 'changeTone': return { type: 'CHANGE_TONE', tone };
+  }
+};
+
+// Attempts at a request before its error is shown (transient failures only: rate limits, overloaded service, network)
+const MAX_ATTEMPTS = 3;
+// Wait before the second attempt; doubled for each further one (with jitter)
+const RETRY_BASE_MS = 1000;
+// Longest Retry-After worth waiting for automatically (longer waits are left to the user's Retry)
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Wait before attempting again after a failure (null when the error is final)
+function retryDelayFor(error: unknown, attempt: number): number | null {
+  if (attempt >= MAX_ATTEMPTS || !isRetryableError(error)) return null;
+  const retryAfter = error instanceof RateLimitError ? error.retryAfterMs : null; // Provider's own wait time
+  if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) return null;
+  return retryAfter ?? withJitter(RETRY_BASE_MS * 2 ** (attempt - 1)); // 1s, 2s... unless the provider said how long to wait
+}
+
+// Failure carried by ERROR events and by the error events of the invoked actors
+const failureOf = (event: { type: string }): Error => toError((event as { error?: unknown }).error);
+
+// Range a rewrite replaces: the slide for slide actions, the selection otherwise
+const rewriteRangeOf = (context: EditorContext, event: EditorEvent): EditorSelection =>
+  event.type === 'SLIDE_ACTION' ? event.range : context.selection;
+
+// Text of a range as a rewrite sees it (Markdown keeps the formatting; empty for an empty or stale range)
+const rangeTextOf = (doc: ProseMirrorNode, { from, to }: EditorSelection): string =>
+  from < to && to <= doc.content.size ? rangeToMarkdown(doc, from, to).trim() : '';
+
+// Text a rewrite starts from (empty when nothing is selected)
+const rewriteTextOf = (context: EditorContext, event: EditorEvent): string => rangeTextOf(context.doc, rewriteRangeOf(context, event));
+
+// Text a rewrite request was sent with
+const sentTextOf = (request: RewriteRequest): string =>
+  request.kind === 'templateRewrite' ? request.request.variables.selection ?? '' : request.request.text;
+
+// Build the AI request for an intent from the document, the cursor and the settings
+function requestFor(context: EditorContext, event: EditorEvent): AIRequest | null {
+  const { doc, settings } = context;
+  const editor = context.editor.current;
+  switch (event.type) {
+    case 'CONTINUE_WRITING':
+      return editor && { kind: 'continue', request: { ...editor.getContextAround(DEFAULT_CONTEXT_WINDOW), settings } }; // Text around the cursor
+    case 'CONTINUE_ALTERNATIVES':
+      return editor && { kind: 'alternatives', request: { ...editor.getContextAround(DEFAULT_CONTEXT_WINDOW), settings }, count: DEFAULT_CANDIDATE_COUNT };
+    case 'SUMMARIZE':
+      return { kind: 'summarize', request: { text: toMarkdown(doc) } }; // Whole document as Markdown
+    case 'RUN_TEMPLATE': {
+      const { template, variables } = event;
+      return template.output === 'replace'
+        ? { kind: 'templateRewrite', request: { template, variables: { ...variables, selection: rewriteTextOf(context, event) }, settings }, range: rewriteRangeOf(context, event) }
+        : { kind: 'template', request: { template, variables, settings } };
+    }
+    case 'REPHRASE':
+    case 'SHORTEN':
+    case 'EXPAND':
+    case 'FIX_GRAMMAR':
+      return { kind: 'rewrite', request: { text: rewriteTextOf(context, event), command: REWRITE_COMMANDS[event.type] }, range: rewriteRangeOf(context, event) };
+    case 'CHANGE_TONE':
+      return { kind: 'rewrite', request: { text: rewriteTextOf(context, event), command: 'changeTone', tone: event.tone }, range: rewriteRangeOf(context, event) };
+    case 'SLIDE_ACTION':
+      return { kind: 'slide', request: { text: rewriteTextOf(context, event), action: event.action }, range: event.range }; // The whole slide, speaker notes included
+    case 'GENERATE_OUTLINE':
+      return { kind: 'outline', request: { topic: event.topic, text: toMarkdown(doc) } }; // Text is used without a topic
+    case 'ASK_AI_COMMENT':
+      return { kind: 'comment', threadId: event.thread.id, request: { quote: event.quote, messages: event.thread.messages } };
+    default:
+      return null;
+  }
+}
+
+// Input of the invoked request actors: the editor, the provider and the request, with model reports sent to the machine
+const actorInput = <TRequest extends AIRequest>(
+  { context, self }: { context: EditorContext; self: { send: (event: EditorEvent) => void } }
+) => ({
+  editor: context.editor.current!, // Checked by the hasEditor guard before a request starts
+  provider: context.provider,
+  request: context.request as TRequest,
+  onGeneration: (info: GenerationInfo) => self.send({ type: 'AI_GENERATION', info }),
+});
+
+const EMPTY_DOC = mySchema.topNodeType.createAndFill()!;
 
 // Create the state machine using XState setup (provides type safety and reusable guards)
 export const editorMachine = setup({
   types: {
     context: {} as EditorContext, // Type definition for context
     events: {} as EditorEvent, // Type definition for events
+    input: {} as EditorInput,
+    emitted: {} as EditorEmitted,
+  },
+  actors: {
+    streamSuggestion,
+    fetchAlternatives,
+    rewriteRange,
+    insertOutline,
+    answerComment,
+  },
+  delays: {
+    retryDelay: ({ context }) => context.retryDelay,
   },
   guards: {
+    // Guard function: AI output needs a mounted editor to go into
+    hasEditor: ({ context }) => context.editor.current !== null,
     // Guard function: only allow CONTINUE_WRITING if editor has content
-    hasContent: ({ context }) => context.content.trim().length > 0, // Check if content exists (non-empty after trimming)
+    hasContent: ({ context }) => context.doc.textContent.trim().length > 0, // Check if content exists (non-empty after trimming)
+    // Guard function: only rewrite ranges (selection or slide) that have text
+    hasRewriteText: ({ context, event }) => rewriteTextOf(context, event).length > 0,
+    // Guard function: refuse continuations once today's usage reached the hard limit
+    withinBudget: ({ context }) => context.budget !== 'exceeded',
+    // Guard function: offline, and the provider needs the network
+    isOffline: ({ context }) => !context.online && !context.provider.capabilities.offline,
+    // Guard function: prompt templates whose answer replaces the selection
+    isReplaceTemplate: ({ event }) => event.type === 'RUN_TEMPLATE' && event.template.output === 'replace',
+    // Guard function: only switch to an alternative that exists, and not once part of the suggestion was accepted
+    isCandidate: ({ context, event }) =>
+      event.type === 'PICK_CANDIDATE' && event.index >= 0 && event.index < context.candidates.length && !context.generation?.before,
+    // Guard function: the failed attempt is worth repeating
+    canRetry: ({ context, event }) => retryDelayFor(failureOf(event), context.attempt) !== null,
+    // Guard function: Continue Writing lost the connection before any text arrived - try again once it is back
+    shouldQueue: ({ context, event }) =>
+      context.request?.kind === 'continue' && failureOf(event) instanceof NetworkError && !context.generation?.text,
+    // Guard function: the request that failed last can be sent again (a rewrite only while its text is unchanged)
+    canResend: ({ context }) => {
+      const { request, error } = context;
+      if (!request || !isRetryableError(error)) return false;
+      if (FLOWS[request.kind] !== 'rewriting') return true;
+      const rewrite = request as RewriteRequest;
+      return rangeTextOf(context.doc, rewrite.range) === sentTextOf(rewrite);
+    },
+    // Guard function: continuations that failed can only be sent again while budget is left
+    resendWithinBudget: ({ context }) =>
+      context.budget !== 'exceeded' || (context.request?.kind !== 'continue' && context.request?.kind !== 'alternatives'),
+    // Guard function: the running request is handled by a given state
+    isFlow: ({ context }, params: { flow: RequestFlow }) => context.request !== null && FLOWS[context.request.kind] === params.flow,
+  },
+  actions: {
+    // Shared entry for every AI request: build it, track its output and clear previous errors
+    startRequest: assign(({ context, event }) => {
+      const request = requestFor(context, event);
+      return {
+        request,
+        generation: request && startGeneration(KINDS[request.kind]),
+        attempt: 1,
+        candidates: [],
+        candidateIndex: 0,
+        error: null,
+      };
+    }),
+    // Send the request that failed last again, as a new first attempt
+    resendRequest: assign(({ context }) => ({
+      generation: context.request && startGeneration(KINDS[context.request.kind]),
+      attempt: 1,
+      retryDelay: 0,
+      candidates: [],
+      candidateIndex: 0,
+      error: null,
+    })),
+    // Highlight and track the range being rewritten (replaced by the answer, or released)
+    markRewrite: ({ context }) => {
+      const { request } = context;
+      if (request && FLOWS[request.kind] === 'rewriting') context.editor.current?.beginRewrite((request as RewriteRequest).range);
+    },
+    // Release the range of a rewrite that will not complete (document untouched)
+    releaseRewrite: ({ context }) => {
+      if (context.request && FLOWS[context.request.kind] === 'rewriting') context.editor.current?.cancelRewrite();
+    },
+    // A model answered: remember which, tag its output with it and count its tokens
+    trackGeneration: enqueueActions(({ context, event, enqueue }) => {
+      if (event.type !== 'AI_GENERATION' || !context.generation) return;
+      const { info } = event;
+      const generationId = context.generation.id;
+      enqueue.assign({ generation: { ...context.generation, info } });
+      enqueue(({ context }) => context.editor.current?.setAIAuthor({ model: info.model, generationId }));
+      if (info.usage && !info.cached) {
+        enqueue.emit({ type: 'usage', documentId: context.documentId, model: info.model, usage: info.usage });
+      }
+    }),
+    appendChunk: assign({
+      generation: ({ context, event }) =>
+        context.generation && event.type === 'AI_CHUNK' ? { ...context.generation, text: context.generation.text + event.chunk } : context.generation,
+    }),
+    recordInsert: assign({
+      generation: ({ context, event }) =>
+        context.generation && event.type === 'AI_INSERTED' ? recordInsert(context.generation, event.before, event.after) : context.generation,
+    }),
+    // Store the tracked generation in the history once the user has decided what to do with it
+    finishGeneration: enqueueActions(({ context, enqueue }, params: { resolution: 'accepted' | 'rejected' | 'applied' }) => {
+      const { generation, documentId } = context;
+      if (generation && documentId) enqueue.emit({ type: 'generationFinished', documentId, generation, resolution: params.resolution });
+      enqueue(({ context }) => context.editor.current?.setAIAuthor(null));
+      enqueue.assign({ request: null, generation: null, attempt: 1 });
+    }),
+    // A request failed for good: forget its output but keep the request, so Retry can send it again
+    keepForRetry: enqueueActions(({ context, enqueue }) => {
+      if (context.generation) enqueue(({ context }) => context.editor.current?.setAIAuthor(null));
+      enqueue.assign({ generation: null, attempt: 1 });
+    }),
+    // Forget the request without recording it (nothing was produced)
+    dropGeneration: enqueueActions(({ context, enqueue }) => {
+      if (context.generation) enqueue(({ context }) => context.editor.current?.setAIAuthor(null));
+      enqueue.assign({ request: null, generation: null, attempt: 1 });
+    }),
+    scheduleRetry: assign({
+      retryDelay: ({ context, event }) => retryDelayFor(failureOf(event), context.attempt) ?? 0,
+      attempt: ({ context }) => context.attempt + 1,
+    }),
+    setError: assign({
+      error: ({ event }) => failureOf(event),
+    }),
+    // Show another alternative as the suggestion
+    showCandidate: enqueueActions(({ context, event, enqueue }) => {
+      if (event.type !== 'PICK_CANDIDATE') return;
+      const text = context.candidates[event.index];
+      enqueue(({ context }) => context.editor.current?.replaceSuggestion(text));
+      enqueue.assign({
+        candidateIndex: event.index,
+        generation: context.generation && { ...context.generation, text },
+      });
+    }),
+    // Queue Continue Writing at the cursor until the connection is back
+    queueContinuation: enqueueActions(({ context, enqueue }) => {
+      const editor = context.editor.current;
+      if (!editor || !context.documentId) return;
+      const id = crypto.randomUUID();
+      enqueue(() => editor.queueAtCursor(id));
+      enqueue.emit({
+        type: 'continuationQueued',
+        item: { id, documentId: context.documentId, createdAt: Date.now(), preview: editor.getContextAround({ before: 60, after: 0 }).before },
+      });
+    }),
+    // Focus so Tab / Esc act on the suggestion
+    focusEditor: ({ context }) => {
+      requestAnimationFrame(() => context.editor.current?.focus());
+    },
+    // Explain why a continuation was not started
+    refuseOverBudget: assign({
+      error: () => new BudgetExceededError(),
+    }),
   },
 }).createMachine({
   id: 'editor', // Unique identifier for this state machine
   initial: 'idle', // Starting state when machine is created
-  context: {
-    content: '', // Initial empty content
-    isLoading: false, // Initially not loading
+  context: ({ input }) => ({
+    editor: input.editor,
+    provider: input.provider,
+    settings: input.settings ?? DEFAULT_GENERATION_SETTINGS,
+    online: input.online ?? true,
+    documentId: null, // No document loaded yet
+    doc: EMPTY_DOC, // Initial empty document
+    selection: { from: 1, to: 1 }, // Cursor inside the initial empty paragraph
+    request: null, // No AI request running
+    generation: null,
+    attempt: 1,
+    retryDelay: 0,
+    candidates: [], // No alternatives
+    candidateIndex: 0,
     error: null, // Initially no errors
-  },
+    budget: 'ok', // Set from the stored usage on startup (BUDGET_CHANGED)
+  }),
   states: {
     idle: { // Editor is ready, user can type or trigger AI generation
       on: {
-        CONTINUE_WRITING: {
-          guard: 'hasContent', // Only transition if content exists (prevents empty requests)
-          target: 'loading', // Transition to loading state
+        CONTINUE_WRITING: [
+          {
+            guard: and(['hasEditor', 'hasContent', 'isOffline']), // Would only fail after retries
+            actions: 'queueContinuation',
+          },
+          {
+            guard: and(['hasEditor', 'hasContent', 'withinBudget']), // Only transition if content exists (prevents empty requests) and budget is left
+            target: 'suggesting', // Suggestion streamed at the cursor
+            actions: 'startRequest',
+          },
+          { guard: and(['hasEditor', 'hasContent', not('withinBudget')]), actions: 'refuseOverBudget' }, // Over the hard limit - stay idle and say why
+        ],
+        SUMMARIZE: {
+          guard: and(['hasEditor', 'hasContent']), // Nothing to summarize in an empty document
+          target: 'suggesting', // Same lifecycle as a continuation: suggestion streamed at the cursor
+          actions: 'startRequest',
+        },
+        RUN_TEMPLATE: [
+          {
+            guard: and(['hasEditor', 'isReplaceTemplate', 'hasRewriteText']),
+            target: 'rewriting', // The answer replaces the selection
+            actions: ['startRequest', 'markRewrite'],
+          },
+          {
+            guard: and(['hasEditor', not('isReplaceTemplate'), 'hasContent']), // Templates draw on the document text
+            target: 'suggesting',
+            actions: 'startRequest',
+          },
+        ],
+        CONTINUE_ALTERNATIVES: [
+          {
+            guard: and(['hasEditor', 'hasContent', 'withinBudget']),
+            target: 'alternatives', // Alternatives arrive together instead of streaming
+            actions: 'startRequest',
+          },
+          { guard: and(['hasEditor', 'hasContent', not('withinBudget')]), actions: 'refuseOverBudget' },
+        ],
+        REPHRASE: { guard: and(['hasEditor', 'hasRewriteText']), target: 'rewriting', actions: ['startRequest', 'markRewrite'] },
+        SHORTEN: { guard: and(['hasEditor', 'hasRewriteText']), target: 'rewriting', actions: ['startRequest', 'markRewrite'] },
+        EXPAND: { guard: and(['hasEditor', 'hasRewriteText']), target: 'rewriting', actions: ['startRequest', 'markRewrite'] },
+        FIX_GRAMMAR: { guard: and(['hasEditor', 'hasRewriteText']), target: 'rewriting', actions: ['startRequest', 'markRewrite'] },
+        CHANGE_TONE: { guard: and(['hasEditor', 'hasRewriteText']), target: 'rewriting', actions: ['startRequest', 'markRewrite'] },
+        SLIDE_ACTION: {
+          guard: and(['hasEditor', 'hasRewriteText']), // The slide's range is rewritten - no selection needed
+          target: 'rewriting',
+          actions: ['startRequest', 'markRewrite'],
         },
-        CONTENT_UPDATED: {
-          // Update content without changing state (user is typing)
-          actions: assign({
-            content: ({ event }) => event.content, // Update context with new content from event
-          }),
+        GENERATE_OUTLINE: {
+          guard: 'hasEditor', // An empty document can be outlined from a topic, so no content guard
+          target: 'outlining',
+          actions: 'startRequest',
+        },
+        ASK_AI_COMMENT: {
+          guard: 'hasEditor',
+          target: 'answering', // The answer goes into the thread, not the document
+          actions: 'startRequest',
+        },
+        RETRY: {
+          guard: and(['hasEditor', 'canResend', 'resendWithinBudget']),
+          target: 'retrying', // Routed to the state of the request kind, at once
+          actions: ['resendRequest', 'markRewrite'], // A rewrite's range was released when the request failed
         },
       },
     },
-    loading: { // AI is generating content, button is disabled
-      entry: assign({
-        // Actions executed when entering this state
-        isLoading: true, // Set loading flag to true
-        error: null, // Clear any previous errors
-      }),
+    suggesting: { // Continuation, summary or template answer streamed into a ghost text suggestion
+      tags: 'working',
+      initial: 'loading',
+      invoke: {
+        src: 'streamSuggestion',
+        input: ({ context }) => ({
+          editor: context.editor.current!,
+          provider: context.provider,
+          request: context.request as Extract<AIRequest, { kind: 'continue' | 'summarize' | 'template' }>,
+        }),
+      },
+      states: {
+        loading: { // Waiting for the first chunk from the AI
+          on: {
+            AI_CHUNK: {
+              target: 'streaming', // First text arrived - switch to streaming
+              actions: 'appendChunk',
+            },
+            AI_DONE: {
+              target: '#editor.idle', // Stream ended without any text
+              actions: 'dropGeneration',
+            },
+            CANCEL: {
+              target: '#editor.idle', // Nothing was inserted yet, so there is nothing to keep or roll back
+              actions: 'dropGeneration',
+            },
+            ERROR: [
+              { guard: 'canRetry', target: '#editor.retrying', actions: 'scheduleRetry' },
+              { guard: 'shouldQueue', target: '#editor.idle', actions: ['queueContinuation', 'dropGeneration'] }, // Waits in the offline queue instead
+              { target: '#editor.idle', actions: ['setError', 'keepForRetry'] }, // Return to idle state even on error (allows retry)
+            ],
+          },
+        },
+        streaming: { // AI text is arriving and being shown as a ghost text suggestion
+          on: {
+            AI_CHUNK: { actions: 'appendChunk' }, // Accumulate streamed text
+            AI_DONE: {
+              target: '#editor.reviewing', // Generation complete - let the user review the suggestion
+              actions: 'focusEditor',
+            },
+            CANCEL: {
+              target: '#editor.reviewing', // Partial output stays as a suggestion the user can accept or reject
+            },
+            ERROR: {
+              target: '#editor.reviewing', // Stream broke off - the partial suggestion can still be accepted or rejected
+              actions: 'setError',
+            },
+            // Tab / Esc work mid-stream too: the rest of the answer is not wanted
+            SUGGESTION_ACCEPTED: {
+              target: '#editor.idle', // Leaving the state stops the stream
+              actions: { type: 'finishGeneration', params: { resolution: 'accepted' } },
+            },
+            SUGGESTION_REJECTED: {
+              target: '#editor.idle',
+              actions: { type: 'finishGeneration', params: { resolution: 'rejected' } },
+            },
+          },
+        },
+      },
+      on: {
+        AI_GENERATION: { actions: 'trackGeneration' },
+      },
+    },
+    alternatives: { // Several continuations requested at once; the first is shown as the suggestion
+      tags: 'working',
+      invoke: {
+        src: 'fetchAlternatives',
+        input: actorInput,
+        onDone: {
+          target: 'reviewing', // Reviewed like a streamed suggestion, with the other alternatives one key away
+          actions: [
+            assign({
+              candidates: ({ event }) => event.output,
+              candidateIndex: 0,
+              generation: ({ context, event }) => context.generation && { ...context.generation, text: event.output[0] }, // The first one is shown
+            }),
+            'focusEditor',
+          ],
+        },
+        onError: [
+          { guard: 'canRetry', target: 'retrying', actions: 'scheduleRetry' },
+          { target: 'idle', actions: ['setError', 'keepForRetry'] },
+        ],
+      },
+      on: {
+        AI_GENERATION: { actions: 'trackGeneration' },
+        CANCEL: { target: 'idle', actions: 'dropGeneration' },
+      },
+    },
+    rewriting: { // AI is rewriting the selected range, which stays highlighted until replaced
+      tags: 'working',
+      invoke: {
+        src: 'rewriteRange',
+        input: actorInput,
+        onDone: {
+          target: 'idle', // Range replaced in a single undoable transaction
+          actions: [
+            assign({ generation: ({ context, event }) => context.generation && { ...context.generation, text: event.output } }),
+            { type: 'finishGeneration', params: { resolution: 'applied' } },
+          ],
+        },
+        onError: [
+          { guard: 'canRetry', target: 'retrying', actions: 'scheduleRetry' }, // The range stays highlighted
+          { target: 'idle', actions: ['setError', 'releaseRewrite', 'keepForRetry'] },
+        ],
+      },
       on: {
-        AI_RESPONSE: {
-          target: 'idle', // Return to idle state after successful response
-          actions: assign({
-            // Append AI-generated content to existing content with space separator
-            content: ({ context, event }) => context.content + ' ' + event.content,
-            isLoading: false, // Clear loading flag
-          }),
+        AI_GENERATION: { actions: 'trackGeneration' },
+        CANCEL: { target: 'idle', actions: ['releaseRewrite', 'dropGeneration'] }, // Selection left untouched
+      },
+    },
+    outlining: { // AI is outlining a deck, inserted as headings, bullet lists and speaker notes
+      tags: 'working',
+      invoke: {
+        src: 'insertOutline',
+        input: actorInput,
+        onDone: {
+          target: 'idle', // The whole outline arrives at once - nothing to review
+          actions: [
+            assign({ generation: ({ context, event }) => context.generation && { ...context.generation, text: event.output } }),
+            { type: 'finishGeneration', params: { resolution: 'applied' } },
+          ],
         },
-        ERROR: {
-          target: 'idle', // Return to idle state even on error (allows retry)
-          actions: assign({
-            error: ({ event }) => event.error, // Store error message in context
-            isLoading: false, // Clear loading flag
-          }),
+        onError: [
+          { guard: 'canRetry', target: 'retrying', actions: 'scheduleRetry' },
+          { target: 'idle', actions: ['setError', 'keepForRetry'] },
+        ],
+      },
+      on: {
+        AI_GENERATION: { actions: 'trackGeneration' },
+        CANCEL: { target: 'idle', actions: 'dropGeneration' }, // Nothing was inserted
+      },
+    },
+    answering: { // AI is answering in a review thread
+      tags: 'working',
+      invoke: {
+        src: 'answerComment',
+        input: actorInput,
+        onDone: {
+          target: 'idle', // The answer was posted in the thread
+          actions: [
+            assign({ generation: ({ context, event }) => context.generation && { ...context.generation, text: event.output } }),
+            { type: 'finishGeneration', params: { resolution: 'applied' } },
+          ],
         },
-        CONTENT_UPDATED: {
-          // Allow content updates even during loading (user can still type)
-          actions: assign({
-            content: ({ event }) => event.content, // Update content from event
-          }),
+        onError: [
+          { guard: 'canRetry', target: 'retrying', actions: 'scheduleRetry' },
+          { target: 'idle', actions: ['setError', 'keepForRetry'] },
+        ],
+      },
+      on: {
+        AI_GENERATION: { actions: 'trackGeneration' },
+        CANCEL: { target: 'idle', actions: 'dropGeneration' }, // Nothing was posted
+      },
+    },
+    retrying: { // A transient failure - waiting before the next attempt at the same request (no wait after Retry)
+      tags: 'working',
+      after: {
+        retryDelay: [
+          { guard: { type: 'isFlow', params: { flow: 'suggesting' } }, target: 'suggesting' },
+          { guard: { type: 'isFlow', params: { flow: 'alternatives' } }, target: 'alternatives' },
+          { guard: { type: 'isFlow', params: { flow: 'rewriting' } }, target: 'rewriting' },
+          { guard: { type: 'isFlow', params: { flow: 'outlining' } }, target: 'outlining' },
+          { guard: { type: 'isFlow', params: { flow: 'answering' } }, target: 'answering' },
+        ],
+      },
+      on: {
+        CANCEL: { target: 'idle', actions: ['releaseRewrite', 'dropGeneration'] },
+      },
+    },
+    reviewing: { // AI text is shown as a suggestion, waiting for the user to accept or reject it
+      on: {
+        SUGGESTION_ACCEPTED: {
+          target: 'idle', // Suggestion is now part of the document
+          actions: [{ type: 'finishGeneration', params: { resolution: 'accepted' } }, assign({ candidates: [], candidateIndex: 0 })],
+        },
+        SUGGESTION_REJECTED: {
+          target: 'idle', // Document unchanged (apart from parts accepted before)
+          actions: [{ type: 'finishGeneration', params: { resolution: 'rejected' } }, assign({ candidates: [], candidateIndex: 0 })],
+        },
+        PICK_CANDIDATE: {
+          guard: 'isCandidate',
+          actions: 'showCandidate',
         },
       },
     },
   },
   on: {
     // Global event handlers (available in all states)
+    DOCUMENT_CHANGED: {
+      // Follow the document in every state (the user can keep typing while the AI works)
+      actions: assign({
+        doc: ({ event }) => event.doc,
+      }),
+    },
+    SELECTION_CHANGED: {
+      // Track the cursor in every state (the user can move it while the AI works)
+      actions: assign({
+        selection: ({ event }) => event.selection,
+      }),
+    },
+    AI_INSERTED: {
+      // AI output committed (accepted suggestion, applied rewrite or outline) - kept for the generation history
+      actions: 'recordInsert',
+    },
+    BUDGET_CHANGED: {
+      // Kept in every state - a running generation finishes even if it crosses the limit
+      actions: assign({
+        budget: ({ event }) => event.status,
+      }),
+    },
+    PROVIDER_CHANGED: {
+      // Used from the next request (or attempt) on
+      actions: assign({
+        provider: ({ event }) => event.provider,
+      }),
+    },
+    SETTINGS_CHANGED: {
+      actions: assign({
+        settings: ({ event }) => event.settings,
+      }),
+    },
+    CONNECTION_CHANGED: {
+      actions: assign({
+        online: ({ event }) => event.online,
+      }),
+    },
+    DOCUMENT_LOADED: {
+      target: '.idle', // Any AI work belonged to the previous document (leaving its state stops the request)
+      actions: assign({
+        documentId: ({ event }) => event.documentId,
+        doc: ({ event }) => event.doc, // The loaded document
+        selection: { from: 1, to: 1 }, // New editor state starts with the cursor at the top
+        request: null,
+        generation: null,
+        attempt: 1,
+        candidates: [],
+        candidateIndex: 0,
+        error: null,
+      }),
+    },
     RESET: {
       target: '.idle', // Reset to idle state (relative path - same machine)
-      actions: assign({
-        content: '', // Clear all content
-        isLoading: false, // Clear loading flag
+      actions: ['releaseRewrite', assign({
+        doc: EMPTY_DOC, // Clear all content
+        selection: { from: 1, to: 1 }, // Cursor back at the start
+        request: null, // Nothing running after a reset
+        generation: null,
+        attempt: 1,
+        candidates: [], // Drop any alternatives
+        candidateIndex: 0,
         error: null, // Clear error message
-      }),
+      })],
     },
   },
 });
 
+export type EditorSnapshot = SnapshotFrom<typeof editorMachine>;
+
+// What the AI is doing, for the Continue Writing button
+export type EditorActivity = 'thinking' | 'writing' | 'rewriting' | 'retrying' | null;
+
+// Selectors for useSelector (components re-render only when what they read changes)
+export const selectIsWorking = (snapshot: EditorSnapshot): boolean => snapshot.hasTag('working');
+export const selectIsIdle = (snapshot: EditorSnapshot): boolean => snapshot.matches('idle');
+export const selectIsReviewing = (snapshot: EditorSnapshot): boolean => snapshot.matches('reviewing');
+export const selectCanContinue = (snapshot: EditorSnapshot): boolean =>
+  snapshot.matches('idle') && snapshot.context.doc.textContent.trim().length > 0;
+export const selectHasSelection = (snapshot: EditorSnapshot): boolean => snapshot.context.selection.to > snapshot.context.selection.from;
+export const selectCandidates = (snapshot: EditorSnapshot): string[] | undefined =>
+  snapshot.matches('reviewing') ? snapshot.context.candidates : undefined;
+export const selectCandidateIndex = (snapshot: EditorSnapshot): number => snapshot.context.candidateIndex;
+export const selectError = (snapshot: EditorSnapshot): Error | null => snapshot.context.error;
+export const selectCanRetry = (snapshot: EditorSnapshot): boolean => snapshot.can({ type: 'RETRY' });
+export const selectActivity = (snapshot: EditorSnapshot): EditorActivity => {
+  if (snapshot.matches('retrying')) return 'retrying';
+  if (snapshot.matches('rewriting')) return 'rewriting';
+  if (snapshot.matches({ suggesting: 'streaming' })) return 'writing';
+  return snapshot.hasTag('working') ? 'thinking' : null;
+};
@@ -3,9 +3,15 @@ import { createRoot } from 'react-dom/client'
 import 'prosemirror-view/style/prosemirror.css'
 import './index.css'
 import App from './App.tsx'
+import { createProviders, resolveDefaultProviderId } from './services/providers'
+import { createDocumentStorage, createHistoryStorage } from './services/storage'
+
+const providers = createProviders()
+const storage = createDocumentStorage()
+const historyStorage = createHistoryStorage()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <App providers={providers} defaultProviderId={resolveDefaultProviderId(providers)} storage={storage} historyStorage={historyStorage} />
   </StrictMode>,
 )
@@ -0,0 +1,10 @@
+import type { Transaction } from 'prosemirror-state';
+
+// Transaction metadata flagging document changes that insert AI output (accepted suggestions, applied rewrites)
+const AI_INSERT_META = 'aiInsert';
+
+// Flag a transaction as inserting AI output
+export const markAIInsert = (tr: Transaction): Transaction => tr.setMeta(AI_INSERT_META, true);
+
+// Whether a transaction inserted AI output
+export const isAIInsert = (tr: Transaction): boolean => tr.getMeta(AI_INSERT_META) === true;
@@ -0,0 +1,141 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { EditorState, Transaction } from 'prosemirror-state';
+import type { Mark, Node as ProseMirrorNode } from 'prosemirror-model';
+import { isHistoryTransaction } from 'prosemirror-history';
+import { mySchema } from '../schema/editorSchema';
+import { isAIInsert } from './aiInsert';
+import { isRemoteTransaction } from './collabPlugin';
+
+const aiGenerated = mySchema.marks.aiGenerated;
+
+// Share of an AI span that has to be human-written before the span stops counting as AI text
+const HUMAN_EDIT_THRESHOLD = 0.5;
+
+// Attributes of the aiGenerated mark: which generation wrote the text
+export interface AIAuthor {
+  model: string;
+  generationId: string;
+}
+
+// AI vs human share of a document's text
+export interface AuthorshipStats {
+  aiChars: number;
+  totalChars: number;
+  aiRatio: number; // 0-1 (0 for an empty document)
+}
+
+export const authorshipKey = new PluginKey<AIAuthor | null>('aiAuthorship');
+
+// Set the author applied to AI output committed from now on (null once the generation is finished)
+export const setAIAuthor = (tr: Transaction, author: AIAuthor | null): Transaction =>
+  tr.setMeta(authorshipKey, { author });
+
+// Count AI-marked characters against all text in the document
+export function getAuthorshipStats(doc: ProseMirrorNode): AuthorshipStats {
+  let aiChars = 0;
+  let totalChars = 0;
+  doc.descendants((node) => {
+    if (!node.isText) return true;
+    totalChars += node.text!.length;
+    if (aiGenerated.isInSet(node.marks)) aiChars += node.text!.length;
+    return false;
+  });
+  return { aiChars, totalChars, aiRatio: totalChars ? aiChars / totalChars : 0 };
+}
+
+// Ranges (in final document positions) replaced or inserted by the given transactions
+function changedRanges(trs: readonly Transaction[], include: (tr: Transaction) => boolean): { from: number; to: number }[] {
+  const maps = trs.flatMap((tr) => tr.mapping.maps);
+  const ranges: { from: number; to: number }[] = [];
+  let index = 0; // Position of the current step map in maps
+  for (const tr of trs) {
+    for (const map of tr.mapping.maps) {
+      index++;
+      if (!include(tr)) continue;
+      const rest = maps.slice(index); // Later steps move the range
+      map.forEach((_oldStart, _oldEnd, newStart, newEnd) => {
+        ranges.push({
+          from: rest.reduce((pos, m) => m.map(pos, -1), newStart),
+          to: rest.reduce((pos, m) => m.map(pos, 1), newEnd),
+        });
+      });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Remove the aiGenerated mark from AI spans in a textblock once human text makes up
+ * HUMAN_EDIT_THRESHOLD of the span (from the first to the last character of that generation)
+ */
+function releaseEditedSpans(tr: Transaction, block: ProseMirrorNode, start: number): void {
+  const spans = new Map<Mark, { from: number; to: number; aiChars: number }>(); // Per generation mark
+  block.forEach((child, offset) => {
+    const mark = child.isText ? aiGenerated.isInSet(child.marks) : undefined;
+    if (!mark) return;
+    const key = [...spans.keys()].find((m) => m.eq(mark)) ?? mark;
+    const span = spans.get(key) ?? { from: offset, to: offset, aiChars: 0 };
+    span.to = offset + child.nodeSize;
+    span.aiChars += child.nodeSize;
+    spans.set(key, span);
+  });
+
+  for (const [mark, span] of spans) {
+    let humanChars = 0;
+    block.nodesBetween(span.from, span.to, (child, pos) => {
+      if (child.isText && !aiGenerated.isInSet(child.marks)) {
+        humanChars += Math.min(span.to, pos + child.nodeSize) - Math.max(span.from, pos);
+      }
+    });
+    if (humanChars / (humanChars + span.aiChars) >= HUMAN_EDIT_THRESHOLD) {
+      tr.removeMark(start + span.from, start + span.to, mark);
+    }
+  }
+}
+
+/**
+ * Tracks which text the AI wrote:
+ * - AI output committed to the document (transactions flagged by markAIInsert) gets the aiGenerated mark
+ * - text typed inside an AI span doesn't inherit the mark
+ * - an AI span loses the mark once it has been substantially rewritten by hand
+ */
+export function createAuthorshipPlugin(): Plugin {
+  return new Plugin<AIAuthor | null>({
+    key: authorshipKey,
+    state: {
+      init: () => null,
+      apply(tr, value) {
+        const meta = tr.getMeta(authorshipKey) as { author: AIAuthor | null } | undefined;
+        return meta ? meta.author : value;
+      },
+    },
+    appendTransaction(trs, _oldState, newState: EditorState) {
+      const tr = newState.tr;
+
+      // Mark committed AI output with the current author
+      const author = authorshipKey.getState(newState);
+      for (const { from, to } of changedRanges(trs, (t) => t.docChanged && isAIInsert(t))) {
+        if (from < to) tr.addMark(from, to, aiGenerated.create(author ?? undefined));
+      }
+
+      // Human edits (undo/redo only restore earlier states, collaborators' editors handle their own edits): check the AI spans in the edited textblocks
+      const humanRanges = changedRanges(trs, (t) => t.docChanged && !isAIInsert(t) && !isHistoryTransaction(t) && !isRemoteTransaction(t));
+      const size = tr.doc.content.size;
+      for (const { from, to } of humanRanges) {
+        tr.doc.nodesBetween(Math.max(0, from - 1), Math.min(size, to + 1), (node, pos) => {
+          if (!node.isTextblock) return true;
+          if (tr.doc.rangeHasMark(pos, pos + node.nodeSize, aiGenerated)) releaseEditedSpans(tr, node, pos + 1);
+          return false;
+        });
+      }
+
+      // Typing inside AI text: leave the mark out of the marks new text will get
+      const { empty, $from } = newState.selection;
+      if (empty && !newState.storedMarks && aiGenerated.isInSet($from.marks())) {
+        tr.setStoredMarks(aiGenerated.removeFromSet($from.marks()));
+      }
+
+      return tr.docChanged || tr.storedMarksSet ? tr : null;
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { EditorState, Transaction } from 'prosemirror-state';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import { collab, getVersion, receiveTransaction, sendableSteps } from 'prosemirror-collab';
+import { Step } from 'prosemirror-transform';
+import { mySchema } from '../schema/editorSchema';
+import { createPresencePlugin } from './presencePlugin';
+import type { StepJSON } from '../services/collab/protocol';
+
+const REMOTE_META = 'collabRemote'; // Transaction meta flag for steps received from the server
+const collabSyncKey = new PluginKey('collabSync');
+const confirmedKey = new PluginKey<ProseMirrorNode>('collabConfirmed');
+
+// Steps made by other collaborators (plugins that react to the user's own edits skip these)
+export const isRemoteTransaction = (tr: Transaction): boolean => tr.getMeta(REMOTE_META) === true;
+
+// Where collaboration starts and who this editor is
+export interface CollabConfig {
+  version: number; // Server version of the document the state is created from
+  clientID: string;
+  onUpdate: (state: EditorState) => void; // Called after every state update (send steps and presence from here)
+}
+
+/**
+ * Plugins for a collaborative editor: step tracking (prosemirror-collab), collaborators' cursors,
+ * and a view hook that reports every update so unconfirmed steps get sent
+ */
+export const createCollabPlugins = ({ version, clientID, onUpdate }: CollabConfig): Plugin[] => [
+  collab({ version, clientID }),
+  new Plugin<ProseMirrorNode>({
+    key: confirmedKey, // The document as of the server version (without unconfirmed local steps)
+    state: {
+      init: (_config, state) => state.doc,
+      apply: (tr, confirmed) => (tr.getMeta(confirmedKey) as ProseMirrorNode | undefined) ?? confirmed,
+    },
+  }),
+  createPresencePlugin(),
+  new Plugin({
+    key: collabSyncKey,
+    view: () => ({
+      update: (view, prevState) => {
+        if (view.state.doc !== prevState.doc || !view.state.selection.eq(prevState.selection)) onUpdate(view.state);
+      },
+    }),
+  }),
+];
+
+/**
+ * Apply steps confirmed by the server. This editor's own steps among them are confirmed, and its unconfirmed
+ * steps (including AI output committed meanwhile) are rebased on top of the others'.
+ */
+export function receiveRemoteSteps(state: EditorState, steps: StepJSON[], clientIDs: string[]): Transaction {
+  const received = steps.map((json) => Step.fromJSON(mySchema, json));
+  const tr = receiveTransaction(state, received, clientIDs, {
+    mapSelectionBackward: true, // Text others insert at the cursor ends up before it
+  });
+  const confirmed = received.reduce((doc, step) => step.apply(doc).doc ?? doc, confirmedKey.getState(state)!);
+  return tr.setMeta(REMOTE_META, true).setMeta(confirmedKey, confirmed);
+}
+
+/**
+ * Re-apply local steps made on another version of the document (one the server has replaced) as new local edits.
+ * Steps that no longer fit the document are dropped.
+ */
+export function reapplySteps(state: EditorState, steps: StepJSON[]): Transaction {
+  const tr = state.tr;
+  for (const json of steps) tr.maybeStep(Step.fromJSON(mySchema, json));
+  return tr;
+}
+
+// Local steps the server hasn't confirmed yet (null when there are none)
+export function getSendableSteps(state: EditorState): { version: number; steps: StepJSON[] } | null {
+  const sendable = isCollaborative(state) ? sendableSteps(state) : null;
+  return sendable && { version: sendable.version, steps: sendable.steps.map((step) => step.toJSON() as StepJSON) };
+}
+
+// Document as of the server version (null when not collaborating)
+export const getConfirmedDocument = (state: EditorState): ProseMirrorNode | null => confirmedKey.getState(state) ?? null;
+
+// True when the state was created with createCollabPlugins
+export const isCollaborative = (state: EditorState): boolean => !!collabSyncKey.get(state);
+
+// Server version the editor has caught up to (null when not collaborating)
+export const getCollabVersion = (state: EditorState): number | null => (isCollaborative(state) ? getVersion(state) : null);
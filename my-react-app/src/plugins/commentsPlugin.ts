@@ -0,0 +1,77 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { Command, EditorState, Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import { commentRanges, getThreads, threadsAt } from '../schema/comments';
+
+// Range a comment is being written for (before it is posted there are no marks or thread yet)
+export interface CommentDraft {
+  from: number;
+  to: number;
+}
+
+export interface CommentsState {
+  draft: CommentDraft | null;
+  active: string | null; // Thread at the cursor, or opened from the comments panel
+}
+
+// Metadata attached to transactions to start or drop a draft, or open a thread
+type CommentsMeta = { type: 'draft'; draft: CommentDraft | null } | { type: 'activate'; threadId: string | null };
+
+export const commentsKey = new PluginKey<CommentsState>('comments');
+
+export const getCommentsState = (state: EditorState): CommentsState =>
+  commentsKey.getState(state) ?? { draft: null, active: null };
+
+export const setCommentDraft = (tr: Transaction, draft: CommentDraft | null): Transaction =>
+  tr.setMeta(commentsKey, { type: 'draft', draft } satisfies CommentsMeta);
+
+export const setActiveThread = (tr: Transaction, threadId: string | null): Transaction =>
+  tr.setMeta(commentsKey, { type: 'activate', threadId } satisfies CommentsMeta);
+
+// Start a comment on the selected text (the comments panel asks for its text)
+export const startComment: Command = (state, dispatch) => {
+  const { from, to, empty } = state.selection;
+  if (empty) return false;
+  dispatch?.(setCommentDraft(state.tr, { from, to }));
+  return true;
+};
+
+/**
+ * Tracks the comment being written and the open thread, and highlights their text
+ * (the comment marks themselves are styled by CSS; resolved threads are dimmed)
+ */
+export function createCommentsPlugin(): Plugin {
+  return new Plugin<CommentsState>({
+    key: commentsKey,
+    state: {
+      init: () => ({ draft: null, active: null }),
+      apply(tr, value) {
+        const meta = tr.getMeta(commentsKey) as CommentsMeta | undefined;
+        let { draft, active } = value;
+        if (draft && tr.docChanged) {
+          const from = tr.mapping.map(draft.from, 1);
+          const to = tr.mapping.map(draft.to, -1);
+          draft = from < to ? { from, to } : null; // The text was deleted
+        }
+        if (meta?.type === 'draft') draft = meta.draft;
+        if (meta?.type === 'activate') active = meta.threadId;
+        else if (tr.selectionSet) active = threadsAt(tr.doc, tr.selection.head)[0] ?? null; // Follow the cursor
+        return draft === value.draft && active === value.active ? value : { draft, active };
+      },
+    },
+    props: {
+      decorations(state) {
+        const { draft, active } = getCommentsState(state);
+        const resolved = new Set(getThreads(state.doc).filter((thread) => thread.resolved).map((thread) => thread.id));
+        if (!draft && !active && !resolved.size) return null;
+        const decorations: Decoration[] = [];
+        for (const [id, ranges] of commentRanges(state.doc)) {
+          const className = id === active ? 'comment-active' : resolved.has(id) ? 'comment-resolved' : null;
+          if (className) decorations.push(...ranges.map(({ from, to }) => Decoration.inline(from, to, { class: className })));
+        }
+        if (draft) decorations.push(Decoration.inline(draft.from, draft.to, { class: 'comment-draft' }));
+        return DecorationSet.create(state.doc, decorations);
+      },
+    },
+  });
+}
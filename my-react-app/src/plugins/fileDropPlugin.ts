@@ -0,0 +1,43 @@
+import { Plugin } from 'prosemirror-state';
+import type { EditorView } from 'prosemirror-view';
+import { Fragment, Slice } from 'prosemirror-model';
+import { formatFromFileName, parseDocument } from '../schema/formats';
+
+// Formats accepted by drag and drop (JSON is a whole-document format - use Import instead)
+const DROPPABLE_FORMATS = new Set(['markdown', 'html', 'text']);
+
+// Read and parse the dropped files, then insert them at the drop position as one undoable step
+async function insertFiles(view: EditorView, files: File[], pos: number, onError: (message: string) => void) {
+  try {
+    const docs = await Promise.all(
+      files.map(async (file) => parseDocument(await file.text(), formatFromFileName(file.name)!))
+    );
+    if (view.isDestroyed) return;
+    const content = docs.reduce((fragment, doc) => fragment.append(doc.content), Fragment.empty);
+    const at = Math.min(pos, view.state.doc.content.size); // The document may have changed while reading
+    view.dispatch(view.state.tr.replaceRange(at, at, new Slice(content, 0, 0)).scrollIntoView());
+  } catch (error) {
+    onError(`Could not import ${files.map((file) => file.name).join(', ')}: ${error instanceof Error ? error.message : 'invalid file'}`);
+  }
+}
+
+/**
+ * Drop .md, .html and .txt files onto the editor to insert their content where they were dropped
+ * (onError gets the message to show when a file can't be read or parsed)
+ */
+export function createFileDropPlugin(onError: (message: string) => void): Plugin {
+  return new Plugin({
+    props: {
+      handleDrop(view, event) {
+        const files = Array.from(event.dataTransfer?.files ?? []).filter((file) =>
+          DROPPABLE_FORMATS.has(formatFromFileName(file.name) ?? '')
+        );
+        if (files.length === 0) return false; // Let ProseMirror handle text and node drags
+        event.preventDefault();
+        const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos ?? view.state.selection.from;
+        void insertFiles(view, files, pos, onError);
+        return true;
+      },
+    },
+  });
+}
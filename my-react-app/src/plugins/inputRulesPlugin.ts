@@ -0,0 +1,55 @@
+import {
+  InputRule,
+  inputRules,
+  textblockTypeInputRule,
+  undoInputRule,
+  wrappingInputRule,
+} from 'prosemirror-inputrules';
+import { keymap } from 'prosemirror-keymap';
+import type { Plugin } from 'prosemirror-state';
+import type { MarkType } from 'prosemirror-model';
+import { mySchema } from '../schema/editorSchema';
+
+const { nodes, marks } = mySchema;
+
+// Replace "<delimiter>text<delimiter>" with the text wrapped in a mark (the closing delimiter is the typed character)
+function markInputRule(pattern: RegExp, markType: MarkType): InputRule {
+  return new InputRule(pattern, (state, match, start, end) => {
+    const formatted = markType.create().addToSet(state.doc.resolve(start).marks()); // Keep marks already active here
+    return state.tr
+      .replaceWith(start, end, mySchema.text(match[1], formatted))
+      .removeStoredMark(markType); // Text typed next is not formatted
+  });
+}
+
+// Markdown shortcuts typed at the start of a block
+const blockRules = [
+  textblockTypeInputRule(/^(#{1,6})\s$/, nodes.heading, (match) => ({ level: match[1].length })), // "# " .. "###### "
+  textblockTypeInputRule(/^```$/, nodes.code_block), // "```"
+  wrappingInputRule(/^\s*>\s$/, nodes.blockquote), // "> "
+  wrappingInputRule(/^\s*([-+*])\s$/, nodes.bullet_list), // "- ", "+ " or "* "
+  wrappingInputRule(
+    /^(\d+)\.\s$/, // "1. "
+    nodes.ordered_list,
+    (match) => ({ order: Number(match[1]) }),
+    (match, node) => node.childCount + node.attrs.order === Number(match[1]) // Join a list the number continues
+  ),
+];
+
+// Markdown shortcuts for inline marks
+const markRules = [
+  markInputRule(/\*\*([^*\s](?:[^*]*[^*\s])?)\*\*$/, marks.strong), // **bold**
+  markInputRule(/(?<![*\w])\*([^*\s](?:[^*]*[^*\s])?)\*$/, marks.em), // *italic* (not the first half of **)
+  markInputRule(/(?<![_\w])_([^_\s](?:[^_]*[^_\s])?)_$/, marks.em), // _italic_
+  markInputRule(/`([^`]+)`$/, marks.code), // `code`
+];
+
+/**
+ * Markdown-style input rules; Backspace right after a conversion undoes it
+ */
+export function createMarkdownInputRules(): Plugin[] {
+  return [
+    inputRules({ rules: [...blockRules, ...markRules] }),
+    keymap({ Backspace: undoInputRule }),
+  ];
+}
@@ -0,0 +1,65 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { EditorState, Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+
+// Metadata attached to transactions to add or remove a queued position
+type QueueMeta = { type: 'add'; id: string; pos: number } | { type: 'remove'; id: string };
+
+export const offlineQueueKey = new PluginKey<Map<string, number>>('aiOfflineQueue');
+
+// Remember where a request queued while offline should continue (by queue item id)
+export const queuePosition = (tr: Transaction, id: string, pos: number): Transaction =>
+  tr.setMeta(offlineQueueKey, { type: 'add', id, pos } satisfies QueueMeta);
+
+// Forget a queued position (replayed or cancelled)
+export const unqueuePosition = (tr: Transaction, id: string): Transaction =>
+  tr.setMeta(offlineQueueKey, { type: 'remove', id } satisfies QueueMeta);
+
+// Current position of a queued request (null when it isn't queued in this document)
+export const getQueuedPosition = (state: EditorState, id: string): number | null =>
+  offlineQueueKey.getState(state)?.get(id) ?? null;
+
+// Every queued position in the document (by queue item id)
+export const getQueuedPositions = (state: EditorState): Map<string, number> =>
+  new Map(offlineQueueKey.getState(state));
+
+// Marker shown where a queued continuation will appear
+function queuedMarker(): HTMLElement {
+  const marker = document.createElement('span');
+  marker.className = 'offline-queued-marker';
+  marker.textContent = '⏳';
+  marker.title = 'Continue Writing queued - runs when you are back online';
+  return marker;
+}
+
+/**
+ * Tracks the positions of continuations queued while offline, mapped through later edits, and marks them
+ */
+export function createOfflineQueuePlugin(): Plugin {
+  return new Plugin<Map<string, number>>({
+    key: offlineQueueKey,
+    state: {
+      init: () => new Map(),
+      apply(tr, value) {
+        const meta = tr.getMeta(offlineQueueKey) as QueueMeta | undefined;
+        if (!meta && (!tr.docChanged || !value.size)) return value;
+        const next = new Map<string, number>();
+        for (const [id, pos] of value) {
+          next.set(id, tr.mapping.map(pos, 1)); // Text typed at the position comes before the continuation
+        }
+        if (meta?.type === 'add') next.set(meta.id, meta.pos);
+        if (meta?.type === 'remove') next.delete(meta.id);
+        return next;
+      },
+    },
+    props: {
+      decorations(state) {
+        const positions = offlineQueueKey.getState(state);
+        if (!positions?.size) return null;
+        return DecorationSet.create(state.doc, [...positions].map(([id, pos]) =>
+          Decoration.widget(pos, queuedMarker, { key: `queued-${id}`, side: 1 })
+        ));
+      },
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { EditorState, Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import type { Mark, Node as ProseMirrorNode } from 'prosemirror-model';
+import { insertMarkdown } from '../schema/markdown';
+import { markAIInsert } from './aiInsert';
+
+// Document range waiting for an AI rewrite (kept valid by mapping through edits made while the model works)
+export interface PendingRange {
+  from: number;
+  to: number;
+}
+
+// Metadata attached to transactions to set or clear the pending range
+type PendingRangeMeta = { type: 'set'; range: PendingRange } | { type: 'clear' };
+
+export const pendingRangeKey = new PluginKey<PendingRange | null>('aiPendingRange');
+
+// Read the pending range from an editor state
+export const getPendingRange = (state: EditorState): PendingRange | null =>
+  pendingRangeKey.getState(state) ?? null;
+
+// Mark a range as waiting for an AI rewrite
+export const setPendingRange = (tr: Transaction, range: PendingRange): Transaction =>
+  tr.setMeta(pendingRangeKey, { type: 'set', range } satisfies PendingRangeMeta);
+
+// Stop tracking the pending range (rewrite finished, failed or was cancelled)
+export const clearPendingRange = (tr: Transaction): Transaction =>
+  tr.setMeta(pendingRangeKey, { type: 'clear' } satisfies PendingRangeMeta);
+
+// Marks carried by every text node in the range (e.g. a fully bold selection stays bold)
+function sharedMarks(doc: ProseMirrorNode, from: number, to: number): readonly Mark[] {
+  let shared: readonly Mark[] | null = null;
+  doc.nodesBetween(from, to, (node) => {
+    if (!node.isText) return;
+    shared = shared === null ? node.marks : shared.filter((mark) => mark.isInSet(node.marks));
+  });
+  return shared ?? doc.resolve(from).marks(); // Empty range: marks at the position
+}
+
+/**
+ * Replace the pending range with rewritten Markdown as one undoable transaction.
+ * Marks covering the whole original range are re-applied; Markdown formatting becomes real nodes and marks.
+ * A range of whole top-level blocks is replaced by blocks.
+ */
+export function replacePendingRange(state: EditorState, markdown: string): Transaction | null {
+  const range = getPendingRange(state);
+  if (!range) return null;
+
+  const tr = state.tr;
+  const wholeBlocks = state.doc.resolve(range.from).depth === 0 && state.doc.resolve(range.to).depth === 0; // e.g. a slide
+  insertMarkdown(tr, range.from, range.to, markdown.trim(), wholeBlocks ? { block: true } : {
+    block: false, // Flow into the surrounding paragraph; extra paragraphs split it
+    marks: sharedMarks(state.doc, range.from, range.to),
+  });
+  return clearPendingRange(markAIInsert(tr)).scrollIntoView();
+}
+
+/**
+ * Tracks and highlights the range being rewritten by the AI
+ */
+export function createPendingRangePlugin(): Plugin {
+  return new Plugin<PendingRange | null>({
+    key: pendingRangeKey,
+    state: {
+      init: () => null,
+      apply(tr, value) {
+        const meta = tr.getMeta(pendingRangeKey) as PendingRangeMeta | undefined;
+        if (meta) return meta.type === 'set' ? meta.range : null;
+        if (!value || !tr.docChanged) return value;
+        const from = tr.mapping.map(value.from, 1); // Typing right before the range stays outside it
+        const to = tr.mapping.map(value.to, -1); // Typing right after the range stays outside it
+        return from < to ? { from, to } : null; // Range deleted by the user - nothing left to rewrite
+      },
+    },
+    props: {
+      decorations(state) {
+        const range = getPendingRange(state);
+        if (!range) return null;
+        return DecorationSet.create(state.doc, [
+          Decoration.inline(range.from, range.to, { class: 'ai-pending-range' }),
+        ]);
+      },
+    },
+  });
+}
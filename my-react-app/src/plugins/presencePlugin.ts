@@ -0,0 +1,64 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { EditorState, Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import type { CollabPeer, CollabUser } from '../services/collab/protocol';
+
+export const presenceKey = new PluginKey<CollabPeer[]>('collabPresence');
+
+// Replace the collaborators shown in the document (this editor's own entry left out by the caller)
+export const setPeers = (tr: Transaction, peers: CollabPeer[]): Transaction => tr.setMeta(presenceKey, peers);
+
+// Collaborators currently shown
+export const getPeers = (state: EditorState): CollabPeer[] => presenceKey.getState(state) ?? [];
+
+// Caret with the collaborator's name above it
+function peerCaret(user: CollabUser): HTMLElement {
+  const caret = document.createElement('span');
+  caret.className = 'collab-caret';
+  caret.style.borderColor = user.color;
+  const label = document.createElement('span');
+  label.className = 'collab-caret-label';
+  label.style.background = user.color;
+  label.textContent = user.name;
+  caret.appendChild(label);
+  return caret;
+}
+
+/**
+ * Shows other collaborators' cursors and selections, mapped through edits until they send new ones
+ */
+export function createPresencePlugin(): Plugin {
+  return new Plugin<CollabPeer[]>({
+    key: presenceKey,
+    state: {
+      init: () => [],
+      apply(tr, value) {
+        const meta = tr.getMeta(presenceKey) as CollabPeer[] | undefined;
+        if (meta) return meta;
+        if (!tr.docChanged || !value.length) return value;
+        return value.map((peer) => peer.selection ? {
+          ...peer,
+          selection: { anchor: tr.mapping.map(peer.selection.anchor), head: tr.mapping.map(peer.selection.head) },
+        } : peer);
+      },
+    },
+    props: {
+      decorations(state) {
+        const peers = getPeers(state);
+        if (!peers.length) return null;
+        const size = state.doc.content.size;
+        const clamp = (pos: number) => Math.max(0, Math.min(size, pos)); // Sent at another version - may be past the end
+        return DecorationSet.create(state.doc, peers.flatMap(({ clientID, user, selection }) => {
+          if (!selection) return [];
+          const head = clamp(selection.head);
+          const from = Math.min(clamp(selection.anchor), head);
+          const to = Math.max(clamp(selection.anchor), head);
+          return [
+            ...(from < to ? [Decoration.inline(from, to, { class: 'collab-selection', style: `background: ${user.color}33` })] : []),
+            Decoration.widget(head, () => peerCaret(user), { key: `peer-${clientID}-${user.name}-${user.color}`, side: -1 }),
+          ];
+        }));
+      },
+    },
+  });
+}
@@ -0,0 +1,125 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { EditorState } from 'prosemirror-state';
+import type { EditorView } from 'prosemirror-view';
+import { filterSlashCommands } from '../commands/slashCommands';
+import type { SlashCommand, SlashCommandRegistry } from '../commands/slashCommands';
+
+// Open "/" menu: where the "/" was typed, what follows it, and the highlighted entry
+export interface SlashMenuState {
+  from: number; // Position of the "/"
+  to: number; // Cursor position (end of the query)
+  query: string; // Text typed after the "/"
+  index: number; // Highlighted entry in the filtered list
+}
+
+// Plugin state: the open menu, plus the "/" position the user dismissed with Escape
+interface SlashPluginState {
+  menu: SlashMenuState | null;
+  dismissedAt: number | null;
+}
+
+// Metadata attached to transactions to drive the menu
+type SlashMeta = { type: 'move'; index: number } | { type: 'dismiss' };
+
+export const slashMenuKey = new PluginKey<SlashPluginState>('slashMenu');
+
+// "/" at the start of a textblock or after whitespace, followed by the query up to the cursor
+const SLASH_PATTERN = /(?:^|\s)\/([\w-]*)$/;
+
+// Read the open menu from an editor state
+export const getSlashMenu = (state: EditorState): SlashMenuState | null =>
+  slashMenuKey.getState(state)?.menu ?? null;
+
+// Find a "/query" right before an empty cursor (never inside code)
+function findSlashQuery(state: EditorState): { from: number; to: number; query: string } | null {
+  const { $from, empty } = state.selection;
+  if (!empty || !$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '￼'); // Leaf nodes break the query
+  const match = textBefore.match(SLASH_PATTERN);
+  if (!match) return null;
+  const query = match[1];
+  return { from: $from.pos - query.length - 1, to: $from.pos, query };
+}
+
+// Highlight another entry (wraps around)
+const moveSelection = (view: EditorView, index: number) => {
+  view.dispatch(view.state.tr.setMeta(slashMenuKey, { type: 'move', index } satisfies SlashMeta));
+};
+
+// Close the menu until the user starts another "/"
+export const dismissSlashMenu = (view: EditorView) => {
+  view.dispatch(view.state.tr.setMeta(slashMenuKey, { type: 'dismiss' } satisfies SlashMeta));
+};
+
+/**
+ * Remove the "/query" text and run a command from the menu
+ */
+export function runSlashCommand(view: EditorView, command: SlashCommand): void {
+  const menu = getSlashMenu(view.state);
+  if (menu) {
+    view.dispatch(view.state.tr.delete(menu.from, menu.to));
+  }
+  command.run(view);
+  view.focus();
+}
+
+// Commands matching the open menu's query
+export const getSlashMenuItems = (state: EditorState, registry: SlashCommandRegistry): SlashCommand[] => {
+  const menu = getSlashMenu(state);
+  return menu ? filterSlashCommands(registry.getAll(), menu.query) : [];
+};
+
+/**
+ * Tracks "/" typed in the text and handles the menu keys (arrows, Enter/Tab, Escape).
+ * The menu itself is rendered by the SlashMenu component from this plugin's state.
+ */
+export function createSlashMenuPlugin(registry: SlashCommandRegistry): Plugin {
+  return new Plugin<SlashPluginState>({
+    key: slashMenuKey,
+    state: {
+      init: () => ({ menu: null, dismissedAt: null }),
+      apply(tr, value, _oldState, newState) {
+        const meta = tr.getMeta(slashMenuKey) as SlashMeta | undefined;
+        if (meta?.type === 'dismiss') {
+          return { menu: null, dismissedAt: value.menu?.from ?? null };
+        }
+        if (meta?.type === 'move' && value.menu) {
+          return { ...value, menu: { ...value.menu, index: meta.index } };
+        }
+
+        const found = findSlashQuery(newState);
+        const dismissedAt = value.dismissedAt === null ? null : tr.mapping.map(value.dismissedAt);
+        if (!found || found.from === dismissedAt) {
+          return { menu: null, dismissedAt: found ? dismissedAt : null }; // Forget the dismissal once that "/" is gone
+        }
+        const index = value.menu && value.menu.query === found.query ? value.menu.index : 0; // New query: back to the top
+        return { menu: { ...found, index }, dismissedAt: null };
+      },
+    },
+    props: {
+      handleKeyDown(view, event) {
+        const menu = getSlashMenu(view.state);
+        if (!menu) return false;
+        const items = getSlashMenuItems(view.state, registry);
+        if (event.key === 'Escape') {
+          dismissSlashMenu(view);
+          return true;
+        }
+        if (items.length === 0) return false; // Nothing matches - keys behave normally
+        switch (event.key) {
+          case 'ArrowDown':
+            moveSelection(view, (menu.index + 1) % items.length);
+            return true;
+          case 'ArrowUp':
+            moveSelection(view, (menu.index - 1 + items.length) % items.length);
+            return true;
+          case 'Enter':
+          case 'Tab':
+            runSlashCommand(view, items[Math.min(menu.index, items.length - 1)]);
+            return true;
+        }
+        return false;
+      },
+    },
+  });
+}
@@ -0,0 +1,225 @@
+import { Plugin, PluginKey } from 'prosemirror-state';
+import type { Command, EditorState, Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import { keymap } from 'prosemirror-keymap';
+import { DOMSerializer } from 'prosemirror-model';
+import { insertMarkdown, parseMarkdown } from '../schema/markdown';
+import { markAIInsert } from './aiInsert';
+
+// AI text shown as ghost text - not part of the document until accepted
+export interface Suggestion {
+  pos: number; // Document position where the text would be inserted
+  text: string; // Suggested Markdown not yet committed (parsed into nodes and marks on accept)
+  block: boolean; // True when accepting creates a new paragraph at pos (pos sits between blocks)
+}
+
+export type SuggestionOutcome = 'accepted' | 'rejected';
+
+// Plugin state: the pending suggestion plus how the previous one ended (set only on the resolving transaction)
+interface SuggestionState {
+  active: Suggestion | null;
+  resolved: SuggestionOutcome | null;
+}
+
+// Metadata attached to transactions to drive the plugin
+type SuggestionMeta =
+  | { type: 'show'; pos: number; block: boolean } // Start an empty suggestion at pos
+  | { type: 'append'; text: string } // Add streamed text to the pending suggestion
+  | { type: 'update'; suggestion: Suggestion } // Replace the suggestion (after a partial accept)
+  | { type: 'clear' } // Remove the suggestion without reporting an outcome (generation produced nothing)
+  | { type: 'resolve'; outcome: SuggestionOutcome }; // Suggestion was accepted in full or rejected
+
+export const suggestionKey = new PluginKey<SuggestionState>('aiSuggestion');
+
+// Read the pending suggestion from an editor state
+export const getSuggestion = (state: EditorState): Suggestion | null =>
+  suggestionKey.getState(state)?.active ?? null;
+
+// Show an empty suggestion at pos; streamed text is added with appendSuggestion
+export const showSuggestion = (tr: Transaction, pos: number, block: boolean): Transaction =>
+  tr.setMeta(suggestionKey, { type: 'show', pos, block } satisfies SuggestionMeta);
+
+// Remove the suggestion silently (e.g. the generation was cancelled before any text arrived)
+export const clearSuggestion = (tr: Transaction): Transaction =>
+  tr.setMeta(suggestionKey, { type: 'clear' } satisfies SuggestionMeta);
+
+// Append streamed text to the pending suggestion
+export const appendSuggestion = (tr: Transaction, text: string): Transaction =>
+  tr.setMeta(suggestionKey, { type: 'append', text } satisfies SuggestionMeta);
+
+// Swap the text of the pending suggestion (another alternative was picked), keeping its separating whitespace
+export function replaceSuggestionText(state: EditorState, text: string): Transaction | null {
+  const suggestion = getSuggestion(state);
+  if (!suggestion) return null;
+  const lead = suggestion.text.match(/^\s*/)?.[0] ?? '';
+  return state.tr.setMeta(suggestionKey, {
+    type: 'update',
+    suggestion: { ...suggestion, text: lead + text.trimStart() },
+  } satisfies SuggestionMeta);
+}
+
+// Insert part of a suggestion into the document, returning where the remainder now continues
+function insertSuggestionText(tr: Transaction, suggestion: Suggestion, text: string): number {
+  markAIInsert(tr); // Lets the editor report AI insertions (generation history)
+  return insertMarkdown(tr, suggestion.pos, suggestion.pos, text, { block: suggestion.block });
+}
+
+// Accept the whole suggestion as a single transaction
+export const acceptSuggestion: Command = (state, dispatch) => {
+  const suggestion = getSuggestion(state);
+  if (!suggestion?.text) return false; // Nothing to accept while waiting for the first chunk
+  if (dispatch) {
+    const tr = state.tr;
+    insertSuggestionText(tr, suggestion, suggestion.text);
+    dispatch(tr.setMeta(suggestionKey, { type: 'resolve', outcome: 'accepted' } satisfies SuggestionMeta).scrollIntoView());
+  }
+  return true;
+};
+
+// Drop the suggestion without touching the document
+export const rejectSuggestion: Command = (state, dispatch) => {
+  if (!getSuggestion(state)?.text) return false;
+  if (dispatch) {
+    dispatch(state.tr.setMeta(suggestionKey, { type: 'resolve', outcome: 'rejected' } satisfies SuggestionMeta));
+  }
+  return true;
+};
+
+// Patterns matching the next unit of a suggestion (including trailing whitespace)
+const PART_PATTERNS = {
+  word: /^\s*\S+\s*/,
+  sentence: /^[\s\S]*?[.!?]+(\s+|$)/,
+};
+
+// Inline Markdown delimiters that must not be split between the accepted part and the remainder
+const INLINE_DELIMITERS = ['**', '`', '*'];
+
+// Extend a cut point until every inline delimiter in the accepted part is closed (so "**very bold**" is taken whole)
+function extendToBalancedMarkup(text: string, end: number): number {
+  for (const delimiter of INLINE_DELIMITERS) {
+    const part = delimiter === '*' ? text.slice(0, end).replaceAll('**', '') : text.slice(0, end);
+    const count = part.split(delimiter).length - 1;
+    if (count % 2 === 1) {
+      const close = text.indexOf(delimiter, end);
+      if (close === -1) return text.length; // Unclosed until the end: take everything
+      const afterClose = text.slice(close + delimiter.length).match(/^\S*\s*/)?.[0] ?? '';
+      return extendToBalancedMarkup(text, close + delimiter.length + afterClose.length);
+    }
+  }
+  return end;
+}
+
+// Accept only the next word or sentence; the rest stays as ghost text
+export const acceptSuggestionPart = (unit: keyof typeof PART_PATTERNS): Command => (state, dispatch) => {
+  const suggestion = getSuggestion(state);
+  if (!suggestion?.text) return false;
+  const match = suggestion.text.match(PART_PATTERNS[unit])?.[0] ?? suggestion.text;
+  const part = suggestion.text.slice(0, extendToBalancedMarkup(suggestion.text, match.length));
+  const rest = suggestion.text.slice(part.length);
+  if (!rest.trim()) return acceptSuggestion(state, dispatch); // Nothing left after this part
+
+  if (dispatch) {
+    const tr = state.tr;
+    let pos = insertSuggestionText(tr, suggestion, part);
+    const endsBlock = /\n\s*\n\s*$/.test(part); // Part ended at a paragraph break
+    if (endsBlock) {
+      pos = tr.doc.resolve(pos).after(); // Remainder starts its own paragraph after the one just inserted
+    }
+    tr.setMeta(suggestionKey, {
+      type: 'update',
+      suggestion: { pos, text: rest, block: endsBlock }, // Otherwise the remainder continues inline
+    } satisfies SuggestionMeta);
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
+
+// Render the pending suggestion as a widget so it never becomes part of the document
+function renderSuggestion(state: EditorState, suggestion: Suggestion): DecorationSet {
+  const widget = Decoration.widget(suggestion.pos, () => {
+    const serializer = DOMSerializer.fromSchema(state.schema);
+    const parsed = parseMarkdown(suggestion.text).content; // Preview with the formatting it will have once accepted
+    if (suggestion.block) {
+      const element = document.createElement('div'); // Block suggestions look like pending paragraphs
+      element.className = 'ai-suggestion ai-suggestion-block';
+      element.appendChild(serializer.serializeFragment(parsed));
+      return element;
+    }
+    const element = document.createElement('span');
+    element.className = 'ai-suggestion';
+    const first = parsed.firstChild;
+    if (parsed.childCount === 1 && first?.isTextblock) {
+      if (/^\s/.test(suggestion.text)) element.append(' '); // Parsing trims the separating space
+      element.appendChild(serializer.serializeFragment(first.content));
+    } else {
+      element.textContent = suggestion.text; // Multi-block text inside a paragraph: show the raw Markdown
+    }
+    return element;
+  }, {
+    side: 1, // Stay after text typed at the same position
+    ignoreSelection: true,
+    key: `${suggestion.block ? 'block' : 'inline'}:${suggestion.text}`, // Re-render only when the text changes
+  });
+  return DecorationSet.create(state.doc, [widget]);
+}
+
+/**
+ * Ghost text suggestions: Tab accepts, Esc rejects, Mod-ArrowRight / Mod-Shift-ArrowRight accept the next word / sentence.
+ * onResolve fires once a suggestion has been fully accepted or rejected.
+ */
+export function createSuggestionPlugins(onResolve?: (outcome: SuggestionOutcome) => void): Plugin[] {
+  const suggestionPlugin = new Plugin<SuggestionState>({
+    key: suggestionKey,
+    state: {
+      init: () => ({ active: null, resolved: null }),
+      apply(tr, value) {
+        const meta = tr.getMeta(suggestionKey) as SuggestionMeta | undefined;
+        switch (meta?.type) {
+          case 'show':
+            return { active: { pos: meta.pos, text: '', block: meta.block }, resolved: null };
+          case 'append':
+            return value.active
+              ? { active: { ...value.active, text: value.active.text + meta.text }, resolved: null }
+              : value;
+          case 'update':
+            return { active: meta.suggestion, resolved: null };
+          case 'resolve':
+            return { active: null, resolved: meta.outcome };
+          case 'clear':
+            return { active: null, resolved: null };
+        }
+        if (!value.active) {
+          return value.resolved ? { active: null, resolved: null } : value;
+        }
+        // Keep the suggestion anchored while the user edits elsewhere
+        return tr.docChanged
+          ? { active: { ...value.active, pos: tr.mapping.map(value.active.pos, 1) }, resolved: null }
+          : value;
+      },
+    },
+    props: {
+      decorations(state) {
+        const suggestion = getSuggestion(state);
+        return suggestion && suggestion.text ? renderSuggestion(state, suggestion) : null;
+      },
+    },
+    view: () => ({
+      update(view, prevState) {
+        const resolved = suggestionKey.getState(view.state)?.resolved;
+        if (resolved && getSuggestion(prevState)) {
+          onResolve?.(resolved);
+        }
+      },
+    }),
+  });
+
+  return [
+    suggestionPlugin,
+    keymap({
+      Tab: acceptSuggestion,
+      Escape: rejectSuggestion,
+      'Mod-ArrowRight': acceptSuggestionPart('word'),
+      'Mod-Shift-ArrowRight': acceptSuggestionPart('sentence'),
+    }),
+  ];
+}
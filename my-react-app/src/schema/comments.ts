@@ -0,0 +1,142 @@
+/**
+ * Review threads anchored to text ranges. The anchored text carries a comment mark with the thread id; the
+ * threads themselves are kept in the doc node's comments attribute, so they are saved with the document JSON.
+ * Threads are changed with CommentSteps (one change each), so concurrent replies from collaborators are all kept.
+ */
+import { DocAttrStep, Step, StepMap, StepResult } from 'prosemirror-transform';
+import type { Node as ProseMirrorNode, Schema } from 'prosemirror-model';
+import type { Transaction } from 'prosemirror-state';
+import { mySchema } from './editorSchema';
+
+const commentMark = mySchema.marks.comment;
+
+// One message of a thread (the first one is the comment itself)
+export interface CommentMessage {
+  id: string;
+  author: string; // Name shown with the message
+  color?: string; // Author's collaboration color
+  model?: string; // Set on answers written by the AI
+  text: string;
+  createdAt: number;
+}
+
+export interface CommentThread {
+  id: string; // Also the id attribute of the comment marks on the anchored text
+  quote: string; // Anchored text when the thread was started (shown once the text is deleted)
+  resolved: boolean;
+  createdAt: number;
+  messages: CommentMessage[];
+}
+
+// Change made to the threads by one CommentStep
+export type CommentChange =
+  | { type: 'add'; thread: CommentThread }
+  | { type: 'reply'; threadId: string; message: CommentMessage }
+  | { type: 'resolve'; threadId: string; resolved: boolean }
+  | { type: 'delete'; threadId: string };
+
+// Threads of a document, oldest first
+export const getThreads = (doc: ProseMirrorNode): CommentThread[] => doc.attrs.comments as CommentThread[];
+
+// Apply a change (changes to a thread that is gone - e.g. deleted by a collaborator - are ignored)
+export function applyCommentChange(threads: CommentThread[], change: CommentChange): CommentThread[] {
+  switch (change.type) {
+    case 'add':
+      return threads.some((thread) => thread.id === change.thread.id) ? threads : [...threads, change.thread];
+    case 'reply':
+      return threads.map((thread) => (thread.id === change.threadId ? { ...thread, messages: [...thread.messages, change.message] } : thread));
+    case 'resolve':
+      return threads.map((thread) => (thread.id === change.threadId ? { ...thread, resolved: change.resolved } : thread));
+    case 'delete':
+      return threads.filter((thread) => thread.id !== change.threadId);
+  }
+}
+
+// Step changing one thread in the doc's comments attribute (positions are untouched)
+export class CommentStep extends Step {
+  readonly change: CommentChange;
+
+  constructor(change: CommentChange) {
+    super();
+    this.change = change;
+  }
+
+  apply(doc: ProseMirrorNode): StepResult {
+    const attrs = { ...doc.attrs, comments: applyCommentChange(getThreads(doc), this.change) };
+    return StepResult.ok(doc.type.create(attrs, doc.content, doc.marks));
+  }
+
+  getMap(): StepMap {
+    return StepMap.empty;
+  }
+
+  invert(doc: ProseMirrorNode): Step {
+    return new DocAttrStep('comments', getThreads(doc)); // Only ever applied right after this step (undo, collab rebase)
+  }
+
+  map(): Step {
+    return this; // Rebased over others' steps as it is - it is applied to whichever threads are there then
+  }
+
+  toJSON() {
+    return { stepType: 'comment', change: this.change };
+  }
+
+  static fromJSON(_schema: Schema, json: { change?: CommentChange }): CommentStep {
+    if (!json.change || typeof json.change.type !== 'string') throw new RangeError('Invalid input for CommentStep.fromJSON');
+    return new CommentStep(json.change);
+  }
+}
+
+Step.jsonID('comment', CommentStep); // Steps are sent to the collaboration server as JSON
+
+// Thread changes aren't undone with the text (a reply stays sent)
+const changeThreads = (tr: Transaction, change: CommentChange): Transaction =>
+  tr.step(new CommentStep(change)).setMeta('addToHistory', false);
+
+// Start a thread on a range with its first message
+export function addThread(tr: Transaction, from: number, to: number, message: CommentMessage): Transaction {
+  const thread: CommentThread = {
+    id: crypto.randomUUID(),
+    quote: tr.doc.textBetween(from, to, ' '),
+    resolved: false,
+    createdAt: message.createdAt,
+    messages: [message],
+  };
+  return changeThreads(tr.addMark(from, to, commentMark.create({ id: thread.id })), { type: 'add', thread });
+}
+
+export const replyToThread = (tr: Transaction, threadId: string, message: CommentMessage): Transaction =>
+  changeThreads(tr, { type: 'reply', threadId, message });
+
+export const setThreadResolved = (tr: Transaction, threadId: string, resolved: boolean): Transaction =>
+  changeThreads(tr, { type: 'resolve', threadId, resolved });
+
+// Delete a thread and unmark the text it was anchored to
+export const deleteThread = (tr: Transaction, threadId: string): Transaction =>
+  changeThreads(tr.removeMark(0, tr.doc.content.size, commentMark.create({ id: threadId })), { type: 'delete', threadId });
+
+// Ranges of the text each thread is anchored to (a thread's text can be split by edits)
+export function commentRanges(doc: ProseMirrorNode): Map<string, { from: number; to: number }[]> {
+  const ranges = new Map<string, { from: number; to: number }[]>();
+  doc.descendants((node, pos) => {
+    if (!node.isText) return true;
+    for (const mark of node.marks) {
+      if (mark.type !== commentMark) continue;
+      const list = ranges.get(mark.attrs.id as string) ?? [];
+      const last = list[list.length - 1];
+      if (last && last.to === pos) last.to = pos + node.nodeSize; // Continues the previous text node
+      else list.push({ from: pos, to: pos + node.nodeSize });
+      ranges.set(mark.attrs.id as string, list);
+    }
+    return false;
+  });
+  return ranges;
+}
+
+// Threads anchored at a position (the text on either side of it)
+export const threadsAt = (doc: ProseMirrorNode, pos: number): string[] => {
+  const $pos = doc.resolve(pos);
+  const marks = [...($pos.nodeBefore?.marks ?? []), ...($pos.nodeAfter?.marks ?? [])];
+  return [...new Set(marks.filter((mark) => mark.type === commentMark).map((mark) => mark.attrs.id as string))];
+};
@@ -0,0 +1,87 @@
+import { Schema } from 'prosemirror-model'; // Document model schema definition
+import type { Mark, NodeSpec } from 'prosemirror-model';
+import { schema } from 'prosemirror-schema-basic'; // Basic schema with paragraphs, headings, etc.
+import { addListNodes } from 'prosemirror-schema-list'; // Adds list node types (ul, ol)
+
+// Presentation structure: a slide break starts a new slide, speaker notes belong to the slide they are in
+const slideNodes: Record<string, NodeSpec> = {
+  slide_break: {
+    group: 'block',
+    selectable: true,
+    parseDOM: [{ tag: 'hr[data-slide-break]', priority: 60 }], // Before the plain hr rule of horizontal_rule
+    toDOM() {
+      return ['hr', { class: 'slide-break', 'data-slide-break': '' }];
+    },
+  },
+  speaker_notes: {
+    content: 'paragraph+',
+    group: 'block',
+    defining: true, // Pasted paragraphs stay notes
+    parseDOM: [{ tag: 'aside[data-speaker-notes]' }],
+    toDOM() {
+      return ['aside', { class: 'speaker-notes', 'data-speaker-notes': '' }, 0];
+    },
+  },
+};
+
+// Review threads of the document, kept on the doc node so they are saved and shared with it (see commentsPlugin)
+const docNode: NodeSpec = {
+  ...schema.spec.nodes.get('doc'),
+  attrs: { comments: { default: [] } },
+};
+
+// Create schema once at module level for performance (shared by the editor, plugins and AI pipeline)
+export const mySchema = new Schema({
+  nodes: addListNodes(schema.spec.nodes.update('doc', docNode), 'paragraph block*', 'block').append(slideNodes), // Extend basic schema with list nodes (ul, ol) and slide structure
+  marks: schema.spec.marks
+    .append({
+      underline: { // Custom underline mark definition
+        parseDOM: [{ tag: 'u' }], 
+        toDOM() {
+          return ['u', 0]; 
+        },
+      },
+      fontSize: { // Custom font size mark with configurable size attribute
+        attrs: { size: { default: '16px' } }, // Default font size attribute
+        parseDOM: [
+          {
+            style: 'font-size', 
+            getAttrs: (value: string) => {
+              return { size: value }; 
+            },
+          },
+        ],
+        toDOM(mark: Mark) {
+          return ['span', { style: `font-size: ${mark.attrs.size}` }, 0]; // Render as span with inline style
+        },
+      },
+      aiGenerated: { // Authorship mark on text written by the AI (added by the authorship plugin)
+        attrs: {
+          model: { default: '' }, // Model that wrote the text
+          generationId: { default: '' }, // Generation history record it came from
+        },
+        inclusive: false, // Text typed at the end of an AI span is the user's
+        parseDOM: [
+          {
+            tag: 'span[data-ai-generated]',
+            getAttrs: (dom: HTMLElement) => ({
+              model: dom.getAttribute('data-model') ?? '',
+              generationId: dom.getAttribute('data-generation-id') ?? '',
+            }),
+          },
+        ],
+        toDOM(mark: Mark) {
+          return ['span', { class: 'ai-generated', 'data-ai-generated': '', 'data-model': mark.attrs.model, 'data-generation-id': mark.attrs.generationId }, 0];
+        },
+      },
+      comment: { // Text a review thread is anchored to
+        attrs: { id: {} }, // Thread id (see commentsPlugin)
+        excludes: '', // Overlapping threads each keep their own mark
+        inclusive: false, // Text typed at the end of the anchor isn't part of it
+        parseDOM: [{ tag: 'span[data-comment-id]', getAttrs: (dom: HTMLElement) => ({ id: dom.getAttribute('data-comment-id') }) }],
+        toDOM(mark: Mark) {
+          return ['span', { class: 'comment-anchor', 'data-comment-id': mark.attrs.id }, 0];
+        },
+      },
+    }),
+});
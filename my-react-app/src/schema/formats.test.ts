@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { Mark, Node as ProseMirrorNode } from 'prosemirror-model';
+import { mySchema } from './editorSchema';
+import { parseDocument, serializeDocument } from './formats';
+import type { DocumentFormat } from './formats';
+import { parseMarkdown, toMarkdown } from './markdown';
+
+const { nodes, marks } = mySchema;
+const text = (value: string, textMarks: Mark[] = []) => mySchema.text(value, textMarks);
+const paragraph = (...content: ProseMirrorNode[]) => nodes.paragraph.create(null, content);
+
+// Every node type, with the marks Markdown can express
+function markdownDoc(): ProseMirrorNode {
+  return nodes.doc.create(null, [
+    nodes.heading.create({ level: 1 }, text('Title')),
+    nodes.heading.create({ level: 3 }, text('Section')),
+    paragraph(
+      text('Plain, '),
+      text('bold', [marks.strong.create()]),
+      text(', '),
+      text('italic', [marks.em.create()]),
+      text(', '),
+      text('code', [marks.code.create()]),
+      text(', '),
+      text('a link', [marks.link.create({ href: 'https://example.com', title: null })]),
+      text(', '),
+      text('underlined', [marks.underline.create()]),
+      text(' and '),
+      text('large', [marks.fontSize.create({ size: '20px' })]),
+      nodes.hard_break.create(),
+      text('after a break '),
+      nodes.image.create({ src: 'https://example.com/a.png', alt: 'A picture', title: null }),
+    ),
+    nodes.blockquote.create(null, paragraph(text('Quoted'))),
+    nodes.bullet_list.create(null, [
+      nodes.list_item.create(null, paragraph(text('One'))),
+      nodes.list_item.create(null, paragraph(text('Two'))),
+    ]),
+    nodes.ordered_list.create({ order: 3 }, [
+      nodes.list_item.create(null, paragraph(text('Three'))),
+      nodes.list_item.create(null, paragraph(text('Four'))),
+    ]),
+    nodes.code_block.create({ params: 'ts' }, text('const a = 1;')),
+    nodes.horizontal_rule.create(),
+    nodes.slide_break.create(),
+    nodes.speaker_notes.create(null, [paragraph(text('Notes')), paragraph(text('More notes'))]),
+  ]);
+}
+
+// Same document plus the editor-only marks, which HTML and JSON keep
+function fullDoc(): ProseMirrorNode {
+  const doc = markdownDoc();
+  return doc.copy(doc.content.append(nodes.doc.create(null, paragraph(
+    text('AI text', [marks.aiGenerated.create({ model: 'gemini', generationId: 'g1' })]),
+    text(' and '),
+    text('commented', [marks.comment.create({ id: 'thread-1' })]),
+  )).content));
+}
+
+// Literal text that looks like the custom inline tags and slide markers
+const LITERALS = [
+  'Type <u>this</u> to underline',
+  'Sizes: <span style="font-size: 20px">big</span>',
+  '<!-- slide -->',
+  '<!-- notes -->',
+  '<!-- /notes -->',
+];
+
+const roundTrip = (doc: ProseMirrorNode, format: DocumentFormat) => parseDocument(serializeDocument(doc, format), format);
+
+describe('document formats', () => {
+  it('keeps every node and Markdown mark through Markdown', () => {
+    const doc = markdownDoc();
+    expect(roundTrip(doc, 'markdown').toJSON()).toEqual(doc.toJSON());
+  });
+
+  it('keeps every node and mark through HTML', () => {
+    const doc = fullDoc();
+    expect(roundTrip(doc, 'html').toJSON()).toEqual(doc.toJSON());
+  });
+
+  it('keeps every node, mark and the review threads through JSON', () => {
+    const doc = fullDoc();
+    const withThreads = nodes.doc.create({ comments: [{ id: 'thread-1', quote: 'commented', resolved: false, createdAt: 1, messages: [] }] }, doc.content);
+    expect(roundTrip(withThreads, 'json').toJSON()).toEqual(withThreads.toJSON());
+  });
+
+  it('keeps paragraphs and hard breaks through plain text', () => {
+    const doc = nodes.doc.create(null, [
+      paragraph(text('First paragraph')),
+      paragraph(text('Line one'), nodes.hard_break.create(), text('line two'), nodes.hard_break.create(), text('line three')),
+      paragraph(text('Last paragraph')),
+    ]);
+    expect(roundTrip(doc, 'text').toJSON()).toEqual(doc.toJSON());
+  });
+
+  it('drops the editor-only marks from Markdown', () => {
+    expect(toMarkdown(fullDoc())).not.toMatch(/gemini|thread-1/);
+  });
+
+  it.each(LITERALS)('keeps %j as text through Markdown', (literal) => {
+    const doc = nodes.doc.create(null, paragraph(text(literal)));
+    const markdown = toMarkdown(doc);
+
+    expect(parseMarkdown(markdown).toJSON()).toEqual(doc.toJSON());
+  });
+
+  it('still reads the tags it writes', () => {
+    const doc = parseMarkdown('<u>under</u> <span style="font-size: 1.5em">big</span>');
+    const [under, , big] = doc.firstChild!.children;
+
+    expect(under.marks.map((mark) => mark.type.name)).toEqual(['underline']);
+    expect(big.marks[0].attrs.size).toBe('1.5em');
+  });
+});
@@ -0,0 +1,118 @@
+import { DOMParser as ProseMirrorDOMParser, DOMSerializer } from 'prosemirror-model';
+import type { Fragment, Node as ProseMirrorNode } from 'prosemirror-model';
+import { mySchema } from './editorSchema';
+import { parseMarkdown, toMarkdown } from './markdown';
+
+// File formats the editor can import and export
+export type DocumentFormat = 'markdown' | 'html' | 'text' | 'json';
+
+// How each format is offered to the user and written to disk
+export const DOCUMENT_FORMATS: Record<DocumentFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  json: { label: 'ProseMirror JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+// Extensions recognised when importing (several map to the same format)
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  json: 'json',
+};
+
+// Detect the format of a file from its name (null when unsupported)
+export function formatFromFileName(name: string): DocumentFormat | null {
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_FORMATS[extension] ?? null;
+}
+
+// Relative URLs and http(s)/mailto are kept; any other scheme (javascript:, data:, ...) is removed
+export const isSafeUrl = (url: string): boolean => !/^\s*[a-z][\w+.-]*:/i.test(url) || /^\s*(https?|mailto):/i.test(url);
+
+// Remove unsafe links and images from HTML in place (event handlers and scripts never reach the schema anyway)
+function sanitizeDom(root: ParentNode): void {
+  root.querySelectorAll('a[href]').forEach((link) => {
+    if (!isSafeUrl(link.getAttribute('href')!)) link.removeAttribute('href'); // Keeps the text, drops the link
+  });
+  root.querySelectorAll('img[src]').forEach((image) => {
+    if (!isSafeUrl(image.getAttribute('src')!)) image.remove();
+  });
+}
+
+// Blocks -> sanitized HTML
+export function fragmentToHTML(fragment: Fragment): string {
+  const container = document.createElement('div');
+  container.appendChild(DOMSerializer.fromSchema(mySchema).serializeFragment(fragment));
+  sanitizeDom(container);
+  return container.innerHTML;
+}
+
+// Document -> sanitized HTML (the body content only)
+export const toHTML = (doc: ProseMirrorNode): string => fragmentToHTML(doc.content);
+
+// HTML -> document (parsed inertly - scripts don't run and unknown elements are dropped by the schema)
+export function parseHTML(html: string): ProseMirrorNode {
+  const body = new window.DOMParser().parseFromString(html, 'text/html').body;
+  sanitizeDom(body);
+  return ProseMirrorDOMParser.fromSchema(mySchema).parse(body);
+}
+
+// Document -> plain text (blank line between blocks, line break for hard breaks)
+export function toPlainText(doc: ProseMirrorNode): string {
+  return doc.textBetween(0, doc.content.size, '\n\n', (node) => (node.type === mySchema.nodes.hard_break ? '\n' : ''));
+}
+
+// Plain text -> document (blank lines separate paragraphs, single newlines become hard breaks)
+export function parsePlainText(text: string): ProseMirrorNode {
+  const paragraphs = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '').split(/\n{2,}/).map((block) => {
+    const lines = block.split('\n').flatMap((line, i) => [
+      ...(i > 0 ? [mySchema.nodes.hard_break.create()] : []),
+      ...(line ? [mySchema.text(line)] : []),
+    ]);
+    return mySchema.nodes.paragraph.create(null, lines);
+  });
+  return mySchema.topNodeType.create(null, paragraphs);
+}
+
+// JSON -> document, validated against the schema
+export function parseJSON(json: string): ProseMirrorNode {
+  const doc = mySchema.nodeFromJSON(JSON.parse(json));
+  doc.check(); // Throws on content the schema doesn't allow
+  return doc;
+}
+
+// Escape text for use inside HTML
+export const escapeHTML = (text: string): string =>
+  text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+
+// Wrap exported HTML in a standalone page
+const toHTMLPage = (doc: ProseMirrorNode, title: string): string =>
+  `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeHTML(title)}</title>\n</head>\n<body>\n${toHTML(doc)}\n</body>\n</html>\n`;
+
+/**
+ * Serialize a document to one of the export formats (title is used for the HTML page title)
+ */
+export function serializeDocument(doc: ProseMirrorNode, format: DocumentFormat, title = 'Untitled'): string {
+  switch (format) {
+    case 'markdown': return toMarkdown(doc);
+    case 'html': return toHTMLPage(doc, title);
+    case 'text': return toPlainText(doc);
+    case 'json': return JSON.stringify(doc.toJSON(), null, 2);
+  }
+}
+
+/**
+ * Parse imported content into a document
+ */
+export function parseDocument(content: string, format: DocumentFormat): ProseMirrorNode {
+  switch (format) {
+    case 'markdown': return parseMarkdown(content);
+    case 'html': return parseHTML(content);
+    case 'text': return parsePlainText(content);
+    case 'json': return parseJSON(content);
+  }
+}
@@ -0,0 +1,185 @@
+import MarkdownIt from 'markdown-it';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block.mjs';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs';
+import {
+  MarkdownParser,
+  MarkdownSerializer,
+  defaultMarkdownParser,
+  defaultMarkdownSerializer,
+} from 'prosemirror-markdown';
+import { Fragment, Slice } from 'prosemirror-model';
+import type { Mark, Node as ProseMirrorNode } from 'prosemirror-model';
+import { Selection } from 'prosemirror-state';
+import type { Transaction } from 'prosemirror-state';
+import { mySchema } from './editorSchema';
+
+// Inline HTML tags standing in for the marks Markdown has no syntax for (raw HTML stays disabled)
+const CUSTOM_MARK_TAGS = [
+  { pattern: /^<u>/, type: 'underline_open', tag: 'u', nesting: 1 },
+  { pattern: /^<\/u>/, type: 'underline_close', tag: 'u', nesting: -1 },
+  { pattern: /^<span style="font-size:\s*([\d.]+(?:px|pt|em|rem|%))\s*;?">/, type: 'fontSize_open', tag: 'span', nesting: 1 },
+  { pattern: /^<\/span>/, type: 'fontSize_close', tag: 'span', nesting: -1 },
+] as const;
+
+// Start of literal text that would read back as one of the tags or slide markers (escaped as \< when serializing)
+const CUSTOM_SYNTAX_START = /<(?=\/?u>|span style="font-size:|\/span>|!-- (?:slide|\/?notes) -->)/g;
+
+// markdown-it inline rule turning <u>...</u> and <span style="font-size: ...">...</span> into mark tokens
+function customMarkTags(state: StateInline, silent: boolean): boolean {
+  if (state.src.charCodeAt(state.pos) !== 0x3c /* < */) return false;
+  const rest = state.src.slice(state.pos);
+  for (const { pattern, type, tag, nesting } of CUSTOM_MARK_TAGS) {
+    const match = rest.match(pattern);
+    if (!match) continue;
+    if (!silent) {
+      const token = state.push(type, tag, nesting);
+      if (match[1]) token.attrSet('size', match[1]); // Font size captured from the style
+    }
+    state.pos += match[0].length;
+    return true;
+  }
+  return false;
+}
+
+// HTML comment lines standing in for the slide nodes (a line of their own each)
+const SLIDE_MARKERS = [
+  { line: '<!-- slide -->', type: 'slide_break', nesting: 0 },
+  { line: '<!-- notes -->', type: 'speaker_notes_open', nesting: 1 },
+  { line: '<!-- /notes -->', type: 'speaker_notes_close', nesting: -1 },
+] as const;
+
+// markdown-it block rule turning the slide marker lines into slide_break / speaker_notes tokens
+function slideMarkers(state: StateBlock, startLine: number, _endLine: number, silent: boolean): boolean {
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false; // Indented code
+  const text = state.src.slice(state.bMarks[startLine] + state.tShift[startLine], state.eMarks[startLine]).trim();
+  const marker = SLIDE_MARKERS.find(({ line }) => line === text);
+  if (!marker) return false;
+  if (!silent) {
+    const token = state.push(marker.type, marker.nesting === 0 ? 'hr' : 'aside', marker.nesting);
+    token.map = [startLine, startLine + 1];
+    token.block = true;
+  }
+  state.line = startLine + 1;
+  return true;
+}
+
+// Same CommonMark tokenizer prosemirror-markdown uses, plus the custom mark tags and slide markers
+const markdownTokenizer = MarkdownIt('commonmark', { html: false });
+markdownTokenizer.inline.ruler.before('autolink', 'custom_mark_tags', customMarkTags);
+markdownTokenizer.block.ruler.before('fence', 'slide_markers', slideMarkers, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+
+// Markdown -> ProseMirror using the editor's own schema (token names match prosemirror-schema-basic/list)
+export const markdownParser = new MarkdownParser(
+  mySchema,
+  markdownTokenizer,
+  {
+    ...defaultMarkdownParser.tokens,
+    underline: { mark: 'underline' },
+    fontSize: { mark: 'fontSize', getAttrs: (token) => ({ size: token.attrGet('size') }) },
+    slide_break: { node: 'slide_break' },
+    speaker_notes: { block: 'speaker_notes' },
+  }
+);
+
+// ProseMirror -> Markdown; underline and fontSize have no Markdown syntax, so they are written as inline HTML tags (slide nodes as comment lines)
+export const markdownSerializer = new MarkdownSerializer(
+  {
+    ...defaultMarkdownSerializer.nodes,
+    slide_break(state, node) {
+      state.write('<!-- slide -->');
+      state.closeBlock(node);
+    },
+    speaker_notes(state, node) {
+      state.write('<!-- notes -->');
+      state.closeBlock(node); // Blank line so the notes parse as their own paragraphs
+      state.renderContent(node);
+      state.write('<!-- /notes -->');
+      state.closeBlock(node);
+    },
+  },
+  {
+    ...defaultMarkdownSerializer.marks,
+    underline: { open: '<u>', close: '</u>', mixable: true, expelEnclosingWhitespace: true },
+    fontSize: {
+      open: (_state, mark) => `<span style="font-size: ${mark.attrs.size}">`,
+      close: '</span>',
+      mixable: true,
+      expelEnclosingWhitespace: true,
+    },
+    aiGenerated: { open: '', close: '', mixable: true }, // Authorship is editor metadata - never sent to the model or written to Markdown
+    comment: { open: '', close: '', mixable: true }, // Review threads are kept in the document JSON only
+  },
+  { escapeExtraCharacters: CUSTOM_SYNTAX_START } // Text like "<u>" stays text
+);
+
+// Serialize a document (or a document cut down to a range) to Markdown
+export function toMarkdown(doc: ProseMirrorNode): string {
+  return markdownSerializer.serialize(doc);
+}
+
+// Serialize the content between two positions to Markdown
+export function rangeToMarkdown(doc: ProseMirrorNode, from: number, to: number): string {
+  return toMarkdown(doc.cut(from, to));
+}
+
+// Parse Markdown into a document using the editor schema (empty input gives an empty paragraph)
+export function parseMarkdown(markdown: string): ProseMirrorNode {
+  return markdownParser.parse(markdown) ?? mySchema.topNodeType.createAndFill()!;
+}
+
+// Add marks to every text node in a fragment (used to keep formatting that covered a rewritten range)
+export function addMarksToFragment(fragment: Fragment, marks: readonly Mark[]): Fragment {
+  if (marks.length === 0) return fragment;
+  const nodes: ProseMirrorNode[] = [];
+  fragment.forEach((node) => {
+    if (node.isText) {
+      nodes.push(node.mark(marks.reduce((set, mark) => mark.addToSet(set), node.marks)));
+    } else {
+      nodes.push(node.copy(addMarksToFragment(node.content, marks)));
+    }
+  });
+  return Fragment.fromArray(nodes);
+}
+
+// Options for insertMarkdown
+export interface InsertMarkdownOptions {
+  block: boolean; // Insert whole blocks between existing blocks instead of flowing into the surrounding paragraph
+  marks?: readonly Mark[]; // Marks added to all inserted text
+}
+
+/**
+ * Replace from..to with parsed Markdown. Returns the position right after the inserted text
+ * (inside the last inserted textblock), so further text can continue inline from there.
+ */
+export function insertMarkdown(
+  tr: Transaction,
+  from: number,
+  to: number,
+  markdown: string,
+  { block, marks = [] }: InsertMarkdownOptions
+): number {
+  const firstStep = tr.steps.length; // Map only through the steps added here
+  const content = addMarksToFragment(parseMarkdown(markdown).content, marks);
+  const lead = markdown.match(/^[ \t]+/)?.[0]; // Spaces Markdown parsing trims
+  const trail = markdown.match(/[ \t]+$/)?.[0];
+
+  if (block) {
+    tr.replaceWith(from, to, content);
+    const end = Selection.near(tr.doc.resolve(tr.mapping.slice(firstStep).map(to, 1)), -1).from; // End of the last inserted textblock
+    if (!trail) return end;
+    tr.insert(end, mySchema.text(trail, marks)); // Keep the space before text that will continue inline
+    return end + trail.length;
+  }
+
+  const first = content.firstChild;
+  if (content.childCount === 1 && first?.isTextblock) {
+    // Single paragraph: insert its inline content, keeping the trimmed spaces
+    let inline = first.content;
+    if (lead) inline = Fragment.from(mySchema.text(lead, marks)).append(inline);
+    if (trail) inline = inline.append(Fragment.from(mySchema.text(trail, marks)));
+    tr.replaceWith(from, to, inline);
+  } else {
+    tr.replace(from, to, new Slice(content, 1, 1)); // Open ends merge into the surrounding paragraph
+  }
+  return tr.mapping.slice(firstStep).map(to, 1);
+}
@@ -0,0 +1,140 @@
+import { Fragment } from 'prosemirror-model';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import { mySchema } from './editorSchema';
+import { escapeHTML, fragmentToHTML } from './formats';
+
+const { nodes } = mySchema;
+
+// Where a document is cut into slides: only at slide breaks, or also before every top-level heading
+export type SlideSplit = 'breaks' | 'headings';
+
+export const SLIDE_HEADING_LEVEL = 2; // Headings up to this level start a slide when splitting on headings
+export const SLIDE_WIDTH = 960; // Logical slide size in CSS pixels (16:9) - slides are laid out at this size and scaled
+export const SLIDE_HEIGHT = 540;
+
+// One slide of the deck
+export interface Slide {
+  from: number; // Document position of its first block
+  to: number; // Document position after its last block
+  title: string; // First heading (or the start of the first block) - for thumbnails and the presenter view
+  content: Fragment; // Blocks shown on the slide (speaker notes taken out)
+  notes: string; // Speaker notes as plain text, paragraphs separated by blank lines
+}
+
+// Slide breaks when the author placed any, headings otherwise
+export const defaultSlideSplit = (doc: ProseMirrorNode): SlideSplit => {
+  let hasBreak = false;
+  doc.forEach((node) => {
+    if (node.type === nodes.slide_break) hasBreak = true;
+  });
+  return hasBreak ? 'breaks' : 'headings';
+};
+
+const MAX_TITLE_LENGTH = 60;
+
+// Title of a slide from its blocks
+function slideTitle(blocks: ProseMirrorNode[]): string {
+  const heading = blocks.find((block) => block.type === nodes.heading);
+  const text = (heading ?? blocks.find((block) => block.type !== nodes.speaker_notes))?.textContent.trim() ?? '';
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Cut a document into slides (derived on every change - slides are not stored separately).
+ * Slide breaks always end a slide; with 'headings' a heading of level SLIDE_HEADING_LEVEL or above starts one too.
+ */
+export function splitSlides(doc: ProseMirrorNode, split: SlideSplit = defaultSlideSplit(doc)): Slide[] {
+  const groups: { from: number; to: number; blocks: ProseMirrorNode[] }[] = [];
+  let current: (typeof groups)[number] | null = null;
+
+  doc.forEach((node, offset) => {
+    if (node.type === nodes.slide_break) {
+      current = null; // The next block starts a slide
+      return;
+    }
+    const startsSlide = split === 'headings' && node.type === nodes.heading && (node.attrs.level as number) <= SLIDE_HEADING_LEVEL;
+    if (!current || startsSlide) {
+      current = { from: offset, to: offset, blocks: [] };
+      groups.push(current);
+    }
+    current.blocks.push(node);
+    current.to = offset + node.nodeSize;
+  });
+
+  return groups
+    .filter(({ blocks }) => blocks.some((block) => block.content.size > 0 || block.isLeaf)) // Skip slides of empty paragraphs
+    .map(({ from, to, blocks }) => ({
+      from,
+      to,
+      title: slideTitle(blocks),
+      content: Fragment.fromArray(blocks.filter((block) => block.type !== nodes.speaker_notes)),
+      notes: blocks
+        .filter((block) => block.type === nodes.speaker_notes)
+        .map((block) => block.textBetween(0, block.content.size, '\n\n'))
+        .join('\n\n'),
+    }));
+}
+
+// Index of the slide containing a document position (the previous slide when the position is between slides)
+export function slideIndexAt(slides: Slide[], pos: number): number {
+  const index = slides.findIndex((slide) => pos < slide.to);
+  return index === -1 ? Math.max(0, slides.length - 1) : index;
+}
+
+// Sanitized HTML of a slide's blocks
+export const slideHTML = (slide: Slide): string => fragmentToHTML(slide.content);
+
+// Styles and keyboard navigation of an exported deck (kept inline so the file works on its own)
+const DECK_STYLE = `
+body { margin: 0; background: #111; color: #f5f5f5; font-family: system-ui, sans-serif; overflow: hidden; }
+.slide { position: absolute; top: 50%; left: 50%; width: ${SLIDE_WIDTH}px; height: ${SLIDE_HEIGHT}px; box-sizing: border-box;
+  padding: 48px 64px; overflow: hidden; background: #1e1e1e; transform-origin: center; display: none; font-size: 24px; line-height: 1.4; }
+.slide.current { display: block; }
+.slide h1 { font-size: 48px; margin: 0 0 24px; }
+.slide h2 { font-size: 40px; margin: 0 0 20px; }
+.slide pre { background: #000; padding: 12px; font-size: 18px; }
+.slide img { max-width: 100%; }
+.notes { display: none; position: fixed; bottom: 0; left: 0; right: 0; max-height: 30%; overflow: auto; margin: 0; padding: 12px 24px;
+  background: rgba(0, 0, 0, 0.85); font-size: 16px; white-space: pre-wrap; }
+body.show-notes .slide.current + .notes { display: block; }
+.counter { position: fixed; right: 16px; bottom: 12px; color: #999; font-size: 14px; }
+`;
+
+const DECK_SCRIPT = `
+const slides = [...document.querySelectorAll('.slide')];
+const counter = document.querySelector('.counter');
+let index = Math.max(0, Math.min(slides.length - 1, Number(location.hash.slice(1)) - 1 || 0));
+function show(next) {
+  index = Math.max(0, Math.min(slides.length - 1, next));
+  slides.forEach((slide, i) => slide.classList.toggle('current', i === index));
+  counter.textContent = (index + 1) + ' / ' + slides.length;
+  history.replaceState(null, '', '#' + (index + 1));
+}
+function fit() {
+  const scale = Math.min(innerWidth / ${SLIDE_WIDTH}, innerHeight / ${SLIDE_HEIGHT});
+  slides.forEach((slide) => { slide.style.transform = 'translate(-50%, -50%) scale(' + scale + ')'; });
+}
+addEventListener('keydown', (event) => {
+  if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(event.key)) show(index + 1);
+  else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(event.key)) show(index - 1);
+  else if (event.key === 'Home') show(0);
+  else if (event.key === 'End') show(slides.length - 1);
+  else if (event.key === 'n') document.body.classList.toggle('show-notes');
+  else return;
+  event.preventDefault();
+});
+addEventListener('resize', fit);
+fit();
+show(index);
+`;
+
+/**
+ * Slides -> a standalone HTML page (arrow keys to navigate, N toggles the speaker notes)
+ */
+export function serializeDeck(slides: Slide[], title: string): string {
+  const sections = slides.map((slide, i) => [
+    `<section class="slide" aria-label="Slide ${i + 1}">${slideHTML(slide)}</section>`,
+    slide.notes ? `<aside class="notes">${escapeHTML(slide.notes)}</aside>` : '',
+  ].join('')).join('\n');
+  return `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeHTML(title)}</title>\n<style>${DECK_STYLE}</style>\n</head>\n<body>\n${sections}\n<div class="counter"></div>\n<script>${DECK_SCRIPT}</script>\n</body>\n</html>\n`;
+}
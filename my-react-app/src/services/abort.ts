@@ -0,0 +1,39 @@
+/**
+ * Helpers for cancelling AI work with AbortSignal
+ */
+
+// Error thrown when an operation is stopped through its AbortSignal (same shape the fetch API uses)
+export function createAbortError(): DOMException {
+  return new DOMException('Generation cancelled.', 'AbortError');
+}
+
+// True for errors produced by an aborted signal, regardless of which layer threw them
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Throw immediately if the signal has already been aborted
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+// Resolve after a delay; the pending timer is cleared and the promise rejects if the signal aborts first
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
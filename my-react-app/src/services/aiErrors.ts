@@ -0,0 +1,202 @@
+/**
+ * Typed errors for AI requests: providers classify a failure once, where its status is known,
+ * and the service (retries, model fallback) and the UI (Retry button) decide on the type
+ */
+
+import { isAbortError } from './abort';
+
+// Options shared by every AI error
+interface AIErrorOptions {
+  cause?: unknown; // Original provider / network error
+}
+
+// Base class for AI failures (used as-is for failures that fit no other type)
+export class AIError extends Error {
+  readonly retryable: boolean; // Worth sending the same request again
+
+  constructor(message: string, options: AIErrorOptions & { retryable?: boolean } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AIError';
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// Missing, invalid or unauthorized API key
+export class AuthError extends AIError {
+  constructor(message: string, options: AIErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// Too many requests or quota exhausted (retryAfterMs when the provider says how long to wait)
+export class RateLimitError extends AIError {
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null, options: AIErrorOptions = {}) {
+    super(
+      retryAfterMs === null
+        ? 'API quota exceeded. Please try again later.'
+        : `API quota exceeded. Please try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
+      { ...options, retryable: true }
+    );
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The provider is overloaded or failing on its side (HTTP 5xx)
+export class ServiceUnavailableError extends AIError {
+  constructor(options: AIErrorOptions = {}) {
+    super('The AI model is currently overloaded. Please try again in a moment.', { ...options, retryable: true });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+// A model doesn't exist or isn't offered to this key (model is null when the whole fallback chain failed)
+export class ModelUnavailableError extends AIError {
+  readonly model: string | null;
+
+  constructor(model: string | null, options: AIErrorOptions = {}) {
+    super(
+      model
+        ? `The AI model "${model}" is not available. Please check your API configuration.`
+        : 'None of the configured AI models are available. Please check your API configuration.',
+      options
+    );
+    this.name = 'ModelUnavailableError';
+    this.model = model;
+  }
+}
+
+// A model is skipped after repeated failures until its cooldown ends (see requestScheduler)
+export class CircuitOpenError extends AIError {
+  readonly model: string;
+  readonly retryAfterMs: number;
+
+  constructor(model: string, retryAfterMs: number) {
+    super(`The AI model "${model}" is failing and is paused for ${Math.ceil(retryAfterMs / 1000)} seconds. Please try again then.`);
+    this.name = 'CircuitOpenError';
+    this.model = model;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The provider could not be reached (offline, DNS, connection reset)
+export class NetworkError extends AIError {
+  constructor(options: AIErrorOptions = {}) {
+    super('Could not reach the AI service. Please check your connection.', { ...options, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+// The model answered without any text
+export class EmptyResponseError extends AIError {
+  constructor() {
+    super('Empty response from API. The model did not generate any content.');
+    this.name = 'EmptyResponseError';
+  }
+}
+
+// The provider refused the prompt or stopped the answer (reason as reported, e.g. SAFETY)
+export class SafetyBlockedError extends AIError {
+  readonly reason: string;
+
+  constructor(reason: string, options: AIErrorOptions = {}) {
+    super(`The AI provider blocked this request (${reason}). Try rewording the text.`, options);
+    this.name = 'SafetyBlockedError';
+    this.reason = reason;
+  }
+}
+
+// The model's answer doesn't have the structure asked for (problem describes what is wrong, for a repair prompt)
+export class MalformedOutputError extends AIError {
+  readonly problem: string;
+
+  constructor(problem: string) {
+    super(`The AI answer could not be used: ${problem}`);
+    this.name = 'MalformedOutputError';
+    this.problem = problem;
+  }
+}
+
+// The request can't be sent as it is (nothing to work on, an invalid template) - fix the input rather than retry
+export class InvalidRequestError extends AIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+// The generation settings are out of range or name a model the provider doesn't offer
+export class InvalidSettingsError extends InvalidRequestError {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid generation settings: ${problems.join(' ')}`);
+    this.name = 'InvalidSettingsError';
+    this.problems = problems;
+  }
+}
+
+// Today's usage reached the hard limit of the user's budget (the request was not sent)
+export class BudgetExceededError extends AIError {
+  constructor() {
+    super("Today's AI usage budget is used up. Raise the limit in the Usage panel to keep writing with AI.");
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// The text being rewritten was deleted while the AI worked, so there was nothing left to replace
+export class RewriteDiscardedError extends AIError {
+  constructor() {
+    super('The text being rewritten was deleted, so the rewrite was discarded.');
+    this.name = 'RewriteDiscardedError';
+  }
+}
+
+// True when the request may succeed if sent again
+export const isRetryableError = (error: unknown): boolean => error instanceof AIError && error.retryable;
+
+// What a provider knows about a failed HTTP request
+export interface HttpFailure {
+  status: number;
+  detail: string; // Response body or status text
+  provider: string; // Provider label, for the message
+  model: string; // Model the request was sent to
+  retryAfterMs?: number | null; // From the Retry-After header or the error body
+}
+
+/**
+ * Classify an HTTP error response from a provider
+ */
+export function errorFromStatus({ status, detail, provider, model, retryAfterMs = null }: HttpFailure): AIError {
+  const cause = new Error(`[${status}] ${detail}`.trim());
+  if (status === 401 || status === 403) {
+    return new AuthError(`Invalid API key for ${provider}. Please check your configuration.`, { cause });
+  }
+  if (status === 404) return new ModelUnavailableError(model, { cause });
+  if (status === 429) return new RateLimitError(retryAfterMs, { cause });
+  if (status >= 500) return new ServiceUnavailableError({ cause });
+  return new AIError(`The AI request failed: ${cause.message}`, { cause });
+}
+
+// Retry-After header (seconds or an HTTP date) -> milliseconds (null when missing or unreadable)
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Normalize anything thrown during generation: AI errors and cancellation pass through, the rest becomes an AIError
+ */
+export function toAIError(error: unknown): Error {
+  if (error instanceof AIError || isAbortError(error)) {
+    return error as Error;
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new AIError(`Failed to generate text: ${message}`, { cause: error });
+}
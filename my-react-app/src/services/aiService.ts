@@ -1,200 +1,631 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'; // Google's Gemini AI SDK
+import type { AIProvider, GenerationConfig, TokenUsage } from './providers'; // Pluggable AI backends
+import { createAbortError, isAbortError, throwIfAborted } from './abort'; // Cancellation helpers
+import { EmptyResponseError, InvalidRequestError, MalformedOutputError, ModelUnavailableError, toAIError } from './aiErrors'; // Typed failures
+import type { CircuitOpenError } from './aiErrors';
+import { createRequestScheduler } from './requestScheduler'; // Rate limit, circuit breakers, deduplication
+import type { RequestScheduler } from './requestScheduler';
+import { createResponseCache, responseCacheKey } from './responseCache'; // Recent prompt/response pairs
+import { addUsage } from './usage';
+import { DEFAULT_OUTLINE_SLIDES, MAX_OUTLINE_SLIDES, MAX_SLIDE_BULLETS, OUTLINE_JSON_SHAPE, parseDeckOutline } from './deckOutline'; // Deck outline validation
+import type { DeckOutline } from './deckOutline';
+import { DEFAULT_GENERATION_SETTINGS, TARGET_LENGTHS, validateGenerationSettings } from './generationSettings';
+import type { GenerationSettings } from './generationSettings';
+import { CONTINUE_TEMPLATE, SUMMARIZE_TEMPLATE, buildPromptVariables, renderPrompt } from './prompts'; // Prompt templates
+import type { PromptTemplate, PromptVariables } from './prompts';
 
 // Interface for AI continuation request (input to the service)
 export interface AIContinuationRequest {
-  text: string; // User's text that AI should continue from
+  before: string; // Text before the cursor that AI should continue from
+  after?: string; // Text after the cursor that the continuation should lead into (empty at document end)
+  settings?: GenerationSettings; // Model, creativity, length, tone and audience (defaults when omitted)
 }
 
+// How much surrounding text (in characters) is sent to the model around the cursor
+export interface ContextWindow {
+  before: number; // Characters before the cursor
+  after: number; // Characters after the cursor
+}
+
+export const DEFAULT_CONTEXT_WINDOW: ContextWindow = {
+  before: 2000, // Enough for several paragraphs of lead-in
+  after: 500, // Enough to see where the text goes next
+};
+
 // Interface for AI continuation response (output from the service)
 export interface AIContinuationResponse {
   continuation: string; // AI-generated text continuation
 }
 
+// Interface for alternative continuations (shown side by side for the user to pick one)
+export interface AIAlternativesResponse {
+  candidates: string[]; // Distinct continuations, at most the number requested
+}
+
+export const DEFAULT_CANDIDATE_COUNT = 3; // Alternatives offered by "Alternatives"
+
+// Rewrite commands available for a selected range
+export type RewriteCommand = 'rephrase' | 'shorten' | 'expand' | 'fixGrammar' | 'changeTone';
+
+// Tones offered by the "change tone" command
+export const REWRITE_TONES = ['professional', 'friendly', 'confident', 'casual', 'persuasive'] as const;
+export type RewriteTone = typeof REWRITE_TONES[number];
+
+// Interface for AI rewrite request (selected text plus what to do with it)
+export interface AIRewriteRequest {
+  text: string; // Selected text to rewrite
+  command: RewriteCommand; // Which rewrite to perform
+  tone?: RewriteTone; // Target tone for 'changeTone'
+}
+
+// Interface for AI rewrite response
+export interface AIRewriteResponse {
+  rewritten: string; // Replacement text for the selection
+}
+
+// AI actions offered on each slide of a deck
+export type SlideAction = 'concise' | 'example' | 'notes';
+
+// Interface for a slide action request (one slide as Markdown)
+export interface AISlideRequest {
+  text: string; // The slide's blocks, speaker notes included
+  action: SlideAction;
+}
+
+// Interface for a deck outline request (a topic, or the document when there is none)
+export interface AIOutlineRequest {
+  topic?: string; // One-line topic
+  text?: string; // Document (Markdown) to turn into a deck
+  slideCount?: number; // Slides asked for (DEFAULT_OUTLINE_SLIDES when omitted)
+}
+
+// Interface for an answer in a comment thread (the commented text and the discussion so far)
+export interface AICommentRequest {
+  quote: string; // Text the thread is anchored to
+  messages: { author: string; text: string }[]; // Thread so far, oldest first
+}
+
+// Interface for AI comment response
+export interface AICommentResponse {
+  reply: string; // Answer posted in the thread
+}
+
+// Interface for AI summary request
+export interface AISummaryRequest {
+  text: string; // Document (Markdown) to summarize
+}
+
+// Interface for a request built from a prompt template
+export interface AITemplateRequest {
+  template: PromptTemplate;
+  variables: PromptVariables; // Values for the template's placeholders (see buildPromptVariables)
+  settings?: GenerationSettings; // Model and creativity (defaults when omitted)
+}
+
+// What produced a generation (reported once a model has answered, recorded in the document's AI history)
+export interface GenerationInfo {
+  prompt: string; // Complete prompt sent to the model
+  provider: string; // Provider id
+  model: string; // Model that answered (after fallback)
+  config: GenerationConfig; // Sampling parameters used
+  cached?: boolean; // Answered from the response cache instead of the model
+  usage?: TokenUsage; // Tokens billed, once the response is complete and the backend reported them
+}
+
+// Callback receiving GenerationInfo (streams report it when the model answers and again with usage at the end)
+export type GenerationObserver = (info: GenerationInfo) => void;
+
+// Default sampling parameters (summaries, rewrites, and continuations without settings)
+const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  maxOutputTokens: 500, // Maximum tokens in response (controls length)
+  temperature: 0.7, // Creativity level (0-1, higher = more creative)
+  topP: 0.95, // Nucleus sampling parameter (controls diversity)
+  topK: 40, // Top-K sampling (limits token choices)
+};
+
+// Sampling parameters and model for one request
+interface GenerationOptions {
+  config: GenerationConfig;
+  model: string | null; // Only this model (null = the provider's fallback chain)
+  reuseCached: boolean; // Answer from the response cache when possible
+}
+
+const DEFAULT_GENERATION_OPTIONS: GenerationOptions = { config: DEFAULT_GENERATION_CONFIG, model: null, reuseCached: false };
+
+// Request options for user settings (length sets the token budget, creativity the temperature)
+const toGenerationOptions = (settings: GenerationSettings): GenerationOptions => ({
+  config: {
+    ...DEFAULT_GENERATION_CONFIG,
+    maxOutputTokens: TARGET_LENGTHS[settings.length].maxOutputTokens,
+    temperature: settings.temperature,
+  },
+  model: settings.model,
+  reuseCached: settings.reuseCached,
+});
+
+// Every successful response is cached; requests reuse it only when their settings allow it (inspected in the Cache panel)
+export const responseCache = createResponseCache();
+
+// Cache key of a request (the reuse flag itself doesn't change the answer)
+const cacheKeyFor = (provider: AIProvider, prompt: string, options: GenerationOptions) =>
+  responseCacheKey(provider.id, prompt, options.model, options.config);
+
+// Cached answer for a request that allows reuse (null otherwise)
+function cachedResponse(provider: AIProvider, prompt: string, options: GenerationOptions): { text: string; info: GenerationInfo } | null {
+  if (!options.reuseCached) return null;
+  const entry = responseCache.get(cacheKeyFor(provider, prompt, options));
+  return entry && {
+    text: entry.text,
+    info: { prompt, provider: provider.id, model: entry.model, config: entry.config, cached: true },
+  };
+}
+
+// Remember a complete response
+const cacheResponse = (provider: AIProvider, prompt: string, options: GenerationOptions, text: string, model: string) =>
+  responseCache.set({ key: cacheKeyFor(provider, prompt, options), prompt, text, provider: provider.id, model, config: options.config });
+
+// One scheduler per provider: rate limit, circuit breakers and in-flight requests belong to a backend
+const schedulers = new WeakMap<AIProvider, RequestScheduler>();
+
+function schedulerFor(provider: AIProvider): RequestScheduler {
+  let scheduler = schedulers.get(provider);
+  if (!scheduler) {
+    scheduler = createRequestScheduler();
+    schedulers.set(provider, scheduler);
+  }
+  return scheduler;
+}
+
+// Requests with the same prompt and options are the same request
+const requestKey = (prompt: string, options: GenerationOptions) => JSON.stringify([prompt, options]);
+
+/**
+ * Build the continuation prompt from the text around the cursor (instructions for the AI model)
+ */
+function buildContinuationPrompt(request: AIContinuationRequest): string {
+  if (!request.before.trim() && !request.after?.trim()) {
+    throw new InvalidRequestError('No text provided.'); // Error if there is no context at all
+  }
+  const variables = buildPromptVariables(request, request.settings ?? DEFAULT_GENERATION_SETTINGS);
+  return renderPrompt(CONTINUE_TEMPLATE, variables);
+}
+
 /**
- * Retry function with exponential backoff (handles transient API failures gracefully)
+ * Run an attempt against each of the provider's models in order until one succeeds.
+ * Models with an open circuit are skipped, and every attempt waits for the provider's rate limit.
  */
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>, // Function to retry (returns a Promise)
-  maxRetries: number = 3, // Maximum number of retry attempts
-  initialDelay: number = 1000 // Initial delay in milliseconds (1 second)
+async function withModelFallback<T>(
+  provider: AIProvider,
+  attempt: (model: string) => Promise<T>, // Performs the request against a single model
+  signal?: AbortSignal, // Stops walking the fallback chain when aborted
+  model: string | null = null // Model picked by the user (no fallback), null for the provider's chain
 ): Promise<T> {
-  let lastError: Error | null = null; // Track the last error encountered
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
+  const scheduler = schedulerFor(provider);
+  let lastModelError: Error | null = null; // Track errors from model attempts
+  let skipped: CircuitOpenError | null = null; // First model skipped because it is known to be down
+
+  for (const modelName of model ? [model] : provider.listModels()) {
+    throwIfAborted(signal); // Don't try the next model after cancellation
+    const circuitError = scheduler.circuitError(modelName);
+    if (circuitError) {
+      skipped ??= circuitError;
+      continue; // Failing recently - don't spend a request on it until its cooldown ends
+    }
+    await scheduler.acquire(signal); // Client-side rate limit (rejects if cancelled while waiting)
     try {
-      return await fn(); // Execute the function and return result if successful
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown error'); // Normalize error to Error type
-      
-      // Check if it's a retryable error (503, 429, or network errors) - don't retry on 404 (model not found) errors
-      const isRetryable = 
-        (lastError.message.includes('503') || // Service unavailable
-        lastError.message.includes('overloaded') || // Service overloaded
-        lastError.message.includes('429') || // Rate limit exceeded
-        lastError.message.includes('quota') || // Quota exceeded
-        lastError.message.includes('network') || // Network errors
-        lastError.message.includes('ECONNRESET') || // Connection reset
-        lastError.message.includes('ETIMEDOUT')) && // Connection timeout
-        !lastError.message.includes('404') && // Don't retry on 404 (model not found)
-        !lastError.message.includes('not found'); // Don't retry on "not found" errors
-      
-      if (!isRetryable || attempt === maxRetries - 1) {
-        throw lastError; // Throw error if not retryable or max retries reached
+      const result = await attempt(modelName);
+      scheduler.recordSuccess(modelName);
+      return result; // Success - use this model's result
+    } catch (modelError) {
+      if (isAbortError(modelError) || signal?.aborted) {
+        throw createAbortError(); // Cancelled - not a model failure
       }
-      
-      // Exponential backoff: delays increase exponentially (1s, 2s, 4s) to avoid overwhelming the API
-      const delay = initialDelay * Math.pow(2, attempt); // Calculate delay: 1000ms * 2^attempt
-      await new Promise(resolve => setTimeout(resolve, delay)); // Wait before retrying
+      lastModelError = toAIError(modelError);
+      scheduler.recordFailure(modelName, lastModelError);
+      // Model not found: try next model (model unavailable, not a fatal error) unless the user picked this one
+      if (lastModelError instanceof ModelUnavailableError && !model) {
+        continue; // Try next model in fallback chain
+      }
+      // For other errors (auth, quota, etc.), throw immediately (don't try other models)
+      throw lastModelError;
     }
   }
-  
-  throw lastError || new Error('Max retries exceeded'); // Throw error if all retries failed
+
+  // If we get here, all models failed (none were available) or were skipped
+  throw skipped ?? new ModelUnavailableError(null, { cause: lastModelError });
+}
+
+/**
+ * Generate a complete response for a prompt (cache, model fallback and typed errors)
+ */
+async function generateText(
+  prompt: string,
+  provider: AIProvider,
+  options: GenerationOptions,
+  signal?: AbortSignal,
+  onGeneration?: GenerationObserver
+): Promise<string> {
+  const { config } = options;
+  const cached = cachedResponse(provider, prompt, options);
+  if (cached) {
+    onGeneration?.(cached.info);
+    return cached.text;
+  }
+
+  // Identical requests already in flight (e.g. a double-click) share one call; it is aborted once every caller has cancelled
+  // (transient failures are retried by the editor machine, which sends the request again)
+  const { text, info } = await schedulerFor(provider).dedupe(requestKey(prompt, options), async (shared) => {
+    const result = await withModelFallback(provider, (model) =>
+      provider.generate({ prompt, model, config }, { signal: shared }),
+    shared, options.model);
+
+    // Validate that we actually got text content
+    const text = result.text.trim();
+    if (!text) {
+      throw new EmptyResponseError(); // Error if no text extracted
+    }
+    cacheResponse(provider, prompt, options, text, result.model);
+    return { text, info: { prompt, provider: provider.id, model: result.model, config, usage: result.usage } };
+  }, signal);
+  onGeneration?.(info);
+  return text;
 }
 
 /**
- * Main function to generate a complete paragraph based on user's text (wraps retry logic)
+ * Main function to generate a complete paragraph based on user's text
  */
 export async function continueWriting(
-  request: AIContinuationRequest // User's text input
+  request: AIContinuationRequest, // User's text input
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request and model fallback
+  onGeneration?: GenerationObserver // Told which model answered
 ): Promise<AIContinuationResponse> {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY; // Get API key from environment variables
-  
-  if (!apiKey) {
-    throw new Error(
-      'Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in your .env file.' // Error if API key is missing
-    );
+  const settings = request.settings ?? DEFAULT_GENERATION_SETTINGS;
+  validateGenerationSettings(settings, provider.listModels()); // Before anything is sent
+  return { continuation: await generateText(buildContinuationPrompt(request), provider, toGenerationOptions(settings), signal, onGeneration) };
+}
+
+/**
+ * Generate count alternative responses to a prompt: one call on providers that return several candidates
+ * (topped up with single calls if the backend returned fewer), count parallel calls otherwise
+ */
+async function generateCandidates(
+  prompt: string,
+  provider: AIProvider,
+  options: GenerationOptions,
+  count: number,
+  signal?: AbortSignal,
+  onGeneration?: GenerationObserver
+): Promise<string[]> {
+  const { config } = options;
+  const { candidates, info } = await schedulerFor(provider).dedupe(`${requestKey(prompt, options)}#${count}`, async (shared) => {
+    const generate = async (candidateCount: number) => {
+      const result = await withModelFallback(provider, (model) =>
+        provider.generate({ prompt, model, config, candidateCount }, { signal: shared }),
+      shared, options.model);
+      return { model: result.model, texts: result.candidates ?? [result.text], usage: result.usage };
+    };
+
+    const batches = provider.capabilities.candidates ? [await generate(count)] : [];
+    const missing = count - batches.reduce((total, batch) => total + batch.texts.length, 0);
+    batches.push(...await Promise.all(Array.from({ length: Math.max(0, missing) }, () => generate(1))));
+
+    const texts = [...new Set(batches.flatMap((batch) => batch.texts.map((text) => text.trim())))].filter(Boolean); // Distinct, non-empty
+    if (!texts.length) {
+      throw new EmptyResponseError();
+    }
+    const usages = batches.flatMap((batch) => (batch.usage ? [batch.usage] : []));
+    const usage = usages.length ? usages.reduce(addUsage) : undefined; // Every call made for these alternatives
+    return { candidates: texts.slice(0, count), info: { prompt, provider: provider.id, model: batches[0].model, config, usage } };
+  }, signal);
+  onGeneration?.(info);
+  return candidates;
+}
+
+/**
+ * Generate several alternative continuations of the user's text at once
+ */
+export async function continueWritingAlternatives(
+  request: AIContinuationRequest, // User's text input
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  count: number = DEFAULT_CANDIDATE_COUNT, // Alternatives wanted
+  signal?: AbortSignal, // Cancels every call and model fallback
+  onGeneration?: GenerationObserver // Told which model answered
+): Promise<AIAlternativesResponse> {
+  const settings = request.settings ?? DEFAULT_GENERATION_SETTINGS;
+  validateGenerationSettings(settings, provider.listModels());
+  const prompt = buildContinuationPrompt(request);
+  return { candidates: await generateCandidates(prompt, provider, toGenerationOptions(settings), count, signal, onGeneration) };
+}
+
+/**
+ * Open a stream on one model and wait for its first chunk (so model/availability errors surface before any text is shown)
+ */
+async function openStream(
+  provider: AIProvider,
+  prompt: string,
+  model: string,
+  config: GenerationConfig,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<{ first: string; rest: AsyncIterator<string>; model: string }> {
+  const iterator = provider.stream({ prompt, model, config }, { signal, onUsage })[Symbol.asyncIterator]();
+  // Skip leading whitespace-only chunks so the first yielded chunk carries real text
+  for (let step = await iterator.next(); !step.done; step = await iterator.next()) {
+    if (step.value.trim()) {
+      return { first: step.value.trimStart(), rest: iterator, model };
+    }
   }
+  throw new EmptyResponseError();
+}
+
+/**
+ * Read the response to a prompt: GenerationInfo once a model has answered, then the text chunks,
+ * then GenerationInfo again with the token usage when the backend reported it.
+ * Model fallback only applies until the first chunk arrives; later failures end the stream with an error.
+ */
+async function* readStream(
+  prompt: string,
+  provider: AIProvider,
+  options: GenerationOptions,
+  signal: AbortSignal
+): AsyncGenerator<string | GenerationInfo> {
+  const { config } = options;
+  const reported: { usage?: TokenUsage } = {}; // Filled in by the provider once the stream has ended
+  const { first, rest, model } = await withModelFallback(provider, (model) =>
+    openStream(provider, prompt, model, config, signal, (usage) => { reported.usage = usage; }),
+  signal, options.model);
 
-  const userText = request.text.trim(); // Remove leading/trailing whitespace from user input
-  
-  if (!userText) {
-    throw new Error('No text provided.'); // Error if user text is empty after trimming
+  const info: GenerationInfo = { prompt, provider: provider.id, model, config };
+  yield info;
+  yield first;
+  let text = first;
+  try {
+    for (let step = await rest.next(); !step.done; step = await rest.next()) {
+      throwIfAborted(signal); // Drop chunks that arrive after cancellation
+      text += step.value;
+      yield step.value;
+    }
+    cacheResponse(provider, prompt, options, text.trim(), model); // Only complete responses are cached
+    if (reported.usage) yield { ...info, usage: reported.usage };
+  } catch (error) {
+    throw toAIError(signal.aborted ? createAbortError() : error);
+  } finally {
+    await rest.return?.(); // Release the provider stream if the consumer stopped early
   }
+}
 
-  // Create prompt for generating a complete paragraph (instructions for the AI model)
-  const prompt = `Write a complete, well-formed paragraph based on the following text or topic.
+/**
+ * Stream the response to a prompt as it is generated, chunk by chunk (identical streams in flight are shared)
+ */
+async function* streamText(
+  prompt: string,
+  provider: AIProvider,
+  options: GenerationOptions,
+  signal?: AbortSignal,
+  onGeneration?: GenerationObserver
+): AsyncGenerator<string> {
+  // Providers without incremental output still fit the same interface: yield the whole response at once
+  if (!provider.capabilities.streaming) {
+    yield await generateText(prompt, provider, options, signal, onGeneration);
+    return;
+  }
 
-Write a full paragraph with 4-6 sentences that is coherent, engaging, and well-structured.
-If the input is a topic or idea, develop it into a complete paragraph.
-If the input is a partial thought, complete and expand it into a full paragraph.
+  const cached = cachedResponse(provider, prompt, options);
+  if (cached) {
+    onGeneration?.(cached.info);
+    yield cached.text; // All at once - there is nothing to wait for
+    return;
+  }
 
-User's text/topic:
-${userText}
+  const items = schedulerFor(provider).dedupeStream(requestKey(prompt, options), (shared) =>
+    readStream(prompt, provider, options, shared),
+  signal);
+  for await (const item of items) {
+    if (typeof item === 'string') yield item;
+    else onGeneration?.(item); // A model answered (or, at the end, its token usage)
+  }
+}
 
-Generate a complete paragraph:`;
+/**
+ * Stream a paragraph continuation as it is generated, chunk by chunk
+ */
+export function streamContinuation(
+  request: AIContinuationRequest, // User's text input
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request, model fallback and the open stream
+  onGeneration?: GenerationObserver // Told which model answered
+): AsyncGenerator<string> {
+  const settings = request.settings ?? DEFAULT_GENERATION_SETTINGS;
+  validateGenerationSettings(settings, provider.listModels()); // Throws before the stream is opened
+  return streamText(buildContinuationPrompt(request), provider, toGenerationOptions(settings), signal, onGeneration);
+}
 
-  // Wrap API call in retry logic with exponential backoff (handles transient failures)
-  return retryWithBackoff(async () => {
-    try {
-      // Initialize Gemini client with API key
-      const genAI = new GoogleGenerativeAI(apiKey);
-      
-      // Model fallback chain: try newer models first, fallback to older models if unavailable
-      const modelsToTry = [
-        'gemini-2.5-flash',    // Fast 2.5 model (preferred - fastest and newest)
-        'gemini-2.5-pro',      // Pro 2.5 model (more capable, slightly slower)
-        'gemini-1.5-flash',    // Fallback to 1.5 flash (older but still fast)
-        'gemini-1.5-pro',      // Fallback to 1.5 pro (older but more capable)
-        'gemini-pro',          // Last resort - older stable model (most compatible)
-      ];
-      
-      let lastModelError: Error | null = null; // Track errors from model attempts
-      let result; // Store successful result
-      
-      // Try each model in order until one succeeds
-      for (const modelName of modelsToTry) {
-        try {
-          const model = genAI.getGenerativeModel({
-            model: modelName, // Current model to try
-            generationConfig: {
-              maxOutputTokens: 500, // Maximum tokens in response (controls length)
-              temperature: 0.7, // Creativity level (0-1, higher = more creative)
-              topP: 0.95, // Nucleus sampling parameter (controls diversity)
-              topK: 40, // Top-K sampling (limits token choices)
-            },
-          });
-          result = await model.generateContent(prompt); // Generate content with current model
-          
-          // Verify we got a valid result before breaking (success - exit loop)
-          if (result && result.response) {
-            break; // Success, exit loop and use this result
-          }
-        } catch (modelError) {
-          lastModelError = modelError instanceof Error ? modelError : new Error('Unknown model error'); // Normalize error
-          // If it's a 404 (model not found), try next model (model unavailable, not a fatal error)
-          if (lastModelError.message.includes('404') || lastModelError.message.includes('not found')) {
-            continue; // Try next model in fallback chain
-          }
-          // For other errors (auth, quota, etc.), throw immediately (don't try other models)
-          throw lastModelError;
-        }
-      }
-      
-      // If we get here and no result, all models failed (none were available or all had errors)
-      if (!result) {
-        throw new Error(`No available models found. Last error: ${lastModelError?.message || 'Unknown error'}`);
-      }
-      
-      // Extract text from response - handle different response structures (API response format can vary)
-      const response = await result.response;
-      
-      // Try to get text from response using primary method
-      let text = '';
-      try {
-        text = response.text(); // Primary method: get text directly from response
-      } catch (textError) {
-        // If text() fails, try to get from candidates (fallback for different API response formats)
-        if (response.candidates && response.candidates.length > 0) {
-          const candidate = response.candidates[0]; // Get first candidate (usually the only one)
-          if (candidate.content && candidate.content.parts && candidate.content.parts.length > 0) {
-            // Extract text from parts array (some responses have text in parts)
-            text = candidate.content.parts
-              .map((part: any) => part.text || '') // Extract text from each part, default to empty string
-              .join('') // Join all parts into single string
-              .trim(); // Remove leading/trailing whitespace
-          }
-        }
-      }
-      
-      // If still no text, check candidates directly from result (second fallback method)
-      if (!text || !text.trim()) {
-        if (result.response?.candidates && result.response.candidates.length > 0) {
-          const candidate = result.response.candidates[0]; // Get first candidate
-          if (candidate.content?.parts) {
-            // Extract text from parts (alternative response structure)
-            text = candidate.content.parts
-              .map((part: any) => part.text || '') // Map parts to text strings
-              .join('') // Combine into single string
-              .trim(); // Clean whitespace
-          }
-        }
-      }
-      
-      // Validate that we actually got text content
-      if (!text || !text.trim()) {
-        throw new Error('Empty response from API. The model did not generate any content.'); // Error if no text extracted
-      }
+/**
+ * Stream a short summary of a document as it is generated
+ */
+export function streamSummary(
+  request: AISummaryRequest, // Document to summarize
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request, model fallback and the open stream
+  onGeneration?: GenerationObserver // Told which model answered
+): AsyncGenerator<string> {
+  const text = request.text.trim();
+  if (!text) {
+    throw new InvalidRequestError('No text provided.'); // Nothing to summarize
+  }
+
+  const prompt = renderPrompt(SUMMARIZE_TEMPLATE, buildPromptVariables({ document: text }, DEFAULT_GENERATION_SETTINGS));
+  return streamText(prompt, provider, DEFAULT_GENERATION_OPTIONS, signal, onGeneration);
+}
+
+// Instruction templates for each rewrite command
+const REWRITE_INSTRUCTIONS: Record<RewriteCommand, (tone?: RewriteTone) => string> = {
+  rephrase: () => 'Rephrase the text using different wording while keeping its meaning and length.',
+  shorten: () => 'Make the text noticeably shorter and more concise while keeping its key points.',
+  expand: () => 'Expand the text with more detail and explanation while keeping its meaning and style.',
+  fixGrammar: () => 'Fix spelling, grammar and punctuation mistakes. Change as little as possible.',
+  changeTone: (tone = 'professional') => `Rewrite the text in a ${tone} tone while keeping its meaning.`,
+};
+
+/**
+ * Rewrite a selected range of text according to a command (rephrase, shorten, expand, fix grammar, change tone)
+ */
+export async function rewriteText(
+  request: AIRewriteRequest, // Selected text and command
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request and model fallback
+  onGeneration?: GenerationObserver // Told which model answered
+): Promise<AIRewriteResponse> {
+  const text = request.text.trim();
+  if (!text) {
+    throw new InvalidRequestError('No text selected.'); // Nothing to rewrite
+  }
+
+  const prompt = `${REWRITE_INSTRUCTIONS[request.command](request.tone)}
+The text is Markdown. Keep its formatting (bold, italic, lists) and paragraph breaks where they make sense.
+Respond with only the rewritten Markdown, without quotes, code fences or commentary.
+
+Text:
+${text}
+
+Rewritten text:`;
+
+  return { rewritten: await generateText(prompt, provider, DEFAULT_GENERATION_OPTIONS, signal, onGeneration) };
+}
+
+// Instructions for each slide action
+const SLIDE_ACTION_INSTRUCTIONS: Record<SlideAction, string> = {
+  concise: 'Make this slide more concise: fewer, shorter bullet points that keep its key message.',
+  example: 'Add a short, concrete example that illustrates the point of this slide.',
+  notes: 'Write speaker notes for this slide (or improve the existing ones) without changing the slide itself.',
+};
 
-      return { continuation: text.trim() }; // Return trimmed text as continuation
-      
+/**
+ * Apply an AI action to one slide (make it more concise, add an example, write speaker notes)
+ */
+export async function rewriteSlide(
+  request: AISlideRequest, // The slide and what to do with it
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request and model fallback
+  onGeneration?: GenerationObserver // Told which model answered
+): Promise<AIRewriteResponse> {
+  const text = request.text.trim();
+  if (!text) {
+    throw new InvalidRequestError('The slide is empty.'); // Nothing to work on
+  }
+
+  const prompt = `${SLIDE_ACTION_INSTRUCTIONS[request.action]}
+The slide is Markdown. Keep its first heading as the slide title. Speaker notes go between a line "<!-- notes -->" and a line "<!-- /notes -->", separated from the rest by blank lines.
+Respond with only the slide's Markdown, without code fences or commentary.
+
+Slide:
+${text}
+
+Updated slide:`;
+
+  return { rewritten: await generateText(prompt, provider, DEFAULT_GENERATION_OPTIONS, signal, onGeneration) };
+}
+
+/**
+ * Answer in a review thread, given the commented text and the discussion so far
+ */
+export async function replyToComment(
+  request: AICommentRequest, // Commented text and thread
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request and model fallback
+  onGeneration?: GenerationObserver // Told which model answered
+): Promise<AICommentResponse> {
+  if (!request.messages.length) {
+    throw new InvalidRequestError('The thread has no comments yet.'); // Nothing to answer
+  }
+
+  const thread = request.messages.map((message) => `${message.author}: ${message.text}`).join('\n');
+  const prompt = `You are helping to review a document. Reply to the latest comment in the thread about the quoted text.
+Be brief and concrete: answer the question or suggest a change. When you suggest new wording, quote it.
+Respond with only your reply as plain text, without a name or greeting.
+
+Quoted text:
+${request.quote.trim() || '(the text was deleted)'}
+
+Thread:
+${thread}
+
+Reply:`;
+
+  return { reply: (await generateText(prompt, provider, DEFAULT_GENERATION_OPTIONS, signal, onGeneration)).trim() };
+}
+
+const MAX_OUTLINE_ATTEMPTS = 3; // Answers asked for before a malformed outline is reported
+const MAX_OUTLINE_SOURCE = 12000; // Characters of the document sent to be outlined
+
+// Outlines are longer and more structured than prose: a larger token budget and less randomness
+const OUTLINE_GENERATION_OPTIONS: GenerationOptions = {
+  ...DEFAULT_GENERATION_OPTIONS,
+  config: { ...DEFAULT_GENERATION_CONFIG, maxOutputTokens: 2000, temperature: 0.4 },
+};
+
+/**
+ * Ask the model for a slide deck outline (titles, bullets and speaker notes) of a topic or of the document.
+ * The answer is validated; a malformed one is sent back with what was wrong, up to MAX_OUTLINE_ATTEMPTS times.
+ */
+export async function generateDeckOutline(
+  request: AIOutlineRequest, // Topic or document, and the number of slides
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request and model fallback
+  onGeneration?: GenerationObserver // Told which model answered (once per attempt)
+): Promise<DeckOutline> {
+  const topic = request.topic?.trim();
+  const text = request.text?.trim().slice(0, MAX_OUTLINE_SOURCE);
+  if (!topic && !text) {
+    throw new InvalidRequestError('Enter a topic or write some text to outline.');
+  }
+  const slideCount = Math.min(MAX_OUTLINE_SLIDES, Math.max(1, request.slideCount ?? DEFAULT_OUTLINE_SLIDES));
+
+  const prompt = `Create an outline for a slide deck of about ${slideCount} slides ${topic ? `about: ${topic}` : 'presenting the document below'}.
+Each slide has a short title, up to ${MAX_SLIDE_BULLETS} brief bullet points and a few sentences of speaker notes.
+Respond with only a JSON object of this shape, without code fences or commentary:
+${OUTLINE_JSON_SHAPE}${text && !topic ? `\n\nDocument:\n${text}` : ''}`;
+
+  let problem: MalformedOutputError | null = null;
+  for (let attempt = 0; attempt < MAX_OUTLINE_ATTEMPTS; attempt++) {
+    const repair = problem ? `\n\nYour previous answer could not be used: ${problem.problem} Respond again with only the JSON object.` : '';
+    const answer = await generateText(prompt + repair, provider, OUTLINE_GENERATION_OPTIONS, signal, onGeneration);
+    try {
+      return parseDeckOutline(answer);
     } catch (error) {
-      // Enhanced error handling: convert API errors to user-friendly messages
-      if (error instanceof Error) {
-        if (error.message.includes('API_KEY') || error.message.includes('401')) {
-          throw new Error('Invalid Gemini API key. Please check your VITE_GEMINI_API_KEY.'); // Authentication error
-        }
-        if (error.message.includes('quota') || error.message.includes('429')) {
-          throw new Error('API quota exceeded. Please try again later.'); // Rate limit/quota error
-        }
-        if (error.message.includes('503') || error.message.includes('overloaded')) {
-          throw new Error('The AI model is currently overloaded. Please try again in a moment.'); // Service unavailable
-        }
-        if (error.message.includes('404') || error.message.includes('not found')) {
-          throw new Error('The requested AI model is not available. Please check your API configuration.'); // Model not found
-        }
-        throw new Error(`Failed to generate paragraph: ${error.message}`); // Generic error with original message
-      }
-      throw new Error('Failed to generate paragraph. Please try again.'); // Fallback for non-Error types
+      if (!(error instanceof MalformedOutputError)) throw error;
+      problem = error;
     }
-  }, 3, 1000); // Retry configuration: 3 retries with 1s initial delay (exponential backoff)
+  }
+  throw problem!;
+}
+
+/**
+ * Stream the answer to a prompt template ('insert' templates - shown as a suggestion at the cursor)
+ */
+export function streamTemplate(
+  request: AITemplateRequest, // Template and the values for its variables
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request, model fallback and the open stream
+  onGeneration?: GenerationObserver // Told which model answered
+): AsyncGenerator<string> {
+  const settings = request.settings ?? DEFAULT_GENERATION_SETTINGS;
+  validateGenerationSettings(settings, provider.listModels());
+  const prompt = renderPrompt(request.template, request.variables); // Throws on an invalid template
+  return streamText(prompt, provider, toGenerationOptions(settings), signal, onGeneration);
+}
+
+/**
+ * Generate the complete answer to a prompt template ('replace' templates - the answer replaces the selection)
+ */
+export async function generateFromTemplate(
+  request: AITemplateRequest, // Template and the values for its variables
+  provider: AIProvider, // Backend that performs the generation (injected by the caller)
+  signal?: AbortSignal, // Cancels the request and model fallback
+  onGeneration?: GenerationObserver // Told which model answered
+): Promise<string> {
+  const settings = request.settings ?? DEFAULT_GENERATION_SETTINGS;
+  validateGenerationSettings(settings, provider.listModels());
+  const prompt = renderPrompt(request.template, request.variables);
+  return generateText(prompt, provider, toGenerationOptions(settings), signal, onGeneration);
 }
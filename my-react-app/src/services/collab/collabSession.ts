@@ -0,0 +1,203 @@
+/**
+ * Connection of one editor to a collaboration room: joins, sends local steps and presence, applies the
+ * server's steps, and reconnects with backoff - catching up from the version it had when the connection dropped.
+ * Local steps the server never confirmed survive a reconnect, even when the server answers with a snapshot.
+ */
+import { withJitter } from '../requestScheduler';
+import type { ClientMessage, CollabPeer, CollabUser, DocJSON, PeerSelection, ServerMessage, StepJSON } from './protocol';
+
+// What the session needs from the editor (implemented by the ProseMirrorEditor handle)
+export interface CollabEditor {
+  getDocumentJSON: () => DocJSON;
+  startCollab: (doc: DocJSON, version: number, clientID: string, onUpdate: (selection: PeerSelection) => void, pending: StepJSON[]) => void; // Show the room's document, pending local steps re-applied on top
+  stopCollab: () => void;
+  receiveSteps: (steps: StepJSON[], clientIDs: string[]) => void;
+  getSendableSteps: () => { version: number; steps: StepJSON[] } | null; // Unconfirmed local steps
+  getCollabVersion: () => number | null; // null when the editor isn't collaborating
+  getConfirmedDocumentJSON: () => DocJSON | null; // Document as of that version (without unconfirmed local steps)
+  setPeers: (peers: CollabPeer[]) => void;
+}
+
+export type CollabStatus = 'connecting' | 'connected' | 'offline';
+
+export interface CollabSnapshot {
+  status: CollabStatus;
+  peers: CollabPeer[]; // Other editors in the room
+  error: string | null; // Last problem reported by the server or with its messages (cleared on the next connection)
+}
+
+export interface CollabSessionOptions {
+  url: string; // WebSocket URL of the collaboration server
+  room: string;
+  user: CollabUser;
+  clientID?: string; // Random by default
+  createSocket?: (url: string) => WebSocket; // Browser WebSocket by default
+}
+
+export interface CollabSession {
+  clientID: string;
+  start: (editor: CollabEditor) => void;
+  stop: () => void; // Leave the room (the editor keeps the document as it is)
+  getSnapshot: () => CollabSnapshot; // Same object until the status or peers change
+  subscribe: (listener: () => void) => () => void;
+}
+
+const RECONNECT_BASE_MS = 500; // First reconnect delay, doubled after each failed attempt
+const RECONNECT_MAX_MS = 10000;
+
+export const OFFLINE_SNAPSHOT: CollabSnapshot = { status: 'offline', peers: [], error: null };
+
+export function createCollabSession({
+  url,
+  room,
+  user,
+  clientID = crypto.randomUUID(),
+  createSocket = (socketUrl) => new WebSocket(socketUrl),
+}: CollabSessionOptions): CollabSession {
+  let editor: CollabEditor | null = null;
+  let socket: WebSocket | null = null;
+  let joined = false; // The editor shows the room's document (reconnects catch up from its version)
+  let attempts = 0; // Failed connection attempts since the last success
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let selection: PeerSelection | null = null; // Last local selection, re-sent after a reconnect
+  let snapshot = OFFLINE_SNAPSHOT;
+  const listeners = new Set<() => void>();
+
+  const update = (next: Partial<CollabSnapshot>) => {
+    snapshot = { ...snapshot, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message)); // Offline: steps stay unconfirmed until the rejoin
+  };
+
+  // Send unconfirmed steps (again after a rebase - the server drops ones not made on its current version)
+  const sendSteps = () => {
+    const sendable = joined ? editor?.getSendableSteps() : null;
+    if (sendable) send({ type: 'steps', ...sendable });
+  };
+
+  // Enter the room, catching up from the version the editor has (or from a snapshot when fresh)
+  const join = (fresh = !joined) => {
+    if (!editor) return;
+    const confirmed = fresh ? null : editor.getConfirmedDocumentJSON(); // Restarts a room the server forgot at this version
+    send({
+      type: 'join',
+      room,
+      clientID,
+      user,
+      version: confirmed ? editor.getCollabVersion() : null,
+      doc: confirmed ?? editor.getDocumentJSON(),
+    });
+  };
+
+  const handleLocalUpdate = (next: PeerSelection) => {
+    sendSteps();
+    if (selection?.anchor === next.anchor && selection.head === next.head) return;
+    selection = next;
+    send({ type: 'presence', selection });
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    if (!editor) return;
+    switch (message.type) {
+      case 'snapshot': {
+        // Unconfirmed local steps go on top of the room's document (it moved on in a way the editor can't catch up with)
+        const pending = joined ? editor.getSendableSteps()?.steps ?? [] : [];
+        editor.startCollab(message.doc, message.version, clientID, handleLocalUpdate, pending);
+        joined = true;
+        sendSteps();
+        send({ type: 'presence', selection });
+        break;
+      }
+      case 'steps': {
+        const version = editor.getCollabVersion();
+        if (version === null) return;
+        const skip = version - message.from; // Steps already applied (e.g. received before a rejoin)
+        if (skip < 0) {
+          join(); // Missed steps - ask to catch up
+          return;
+        }
+        if (skip < message.steps.length) {
+          try {
+            editor.receiveSteps(message.steps.slice(skip), message.clientIDs.slice(skip));
+          } catch {
+            update({ error: 'Received changes that do not fit this document - reloading the shared document.' });
+            join(true); // Out of step with the room: start again from its document
+            return;
+          }
+        }
+        sendSteps(); // What is still unconfirmed has been rebased onto the new version
+        break;
+      }
+      case 'presence': {
+        const peers = message.peers.filter((peer) => peer.clientID !== clientID);
+        editor.setPeers(peers);
+        update({ peers });
+        break;
+      }
+      case 'error':
+        update({ error: message.message });
+        break;
+    }
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    update({ status: 'connecting' });
+    const current = createSocket(url);
+    socket = current;
+    current.onopen = () => {
+      attempts = 0;
+      update({ status: 'connected', error: null });
+      join();
+      if (joined) sendSteps(); // Edits made while offline (dropped by the server if it moved on - resent after catching up)
+    };
+    current.onmessage = (event: MessageEvent) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(String(event.data)) as ServerMessage;
+      } catch {
+        update({ error: 'The collaboration server sent a message that could not be read.' });
+        if (joined) join(); // It may have carried steps - catch up from the version the editor has
+        return;
+      }
+      handleMessage(message);
+    };
+    current.onclose = () => {
+      if (socket !== current) return; // Stopped, or replaced by a newer connection
+      socket = null;
+      editor?.setPeers([]);
+      update({ status: 'offline', peers: [] });
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts++);
+      reconnectTimer = setTimeout(connect, withJitter(delay));
+    };
+  };
+
+  return {
+    clientID,
+    start: (target) => {
+      if (editor) return;
+      editor = target;
+      connect();
+    },
+    stop: () => {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      const closing = socket;
+      socket = null;
+      closing?.close();
+      if (joined) editor?.stopCollab();
+      editor = null;
+      joined = false;
+      attempts = 0;
+      update({ status: 'offline', peers: [], error: null });
+    },
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { CollabUser } from './protocol';
+
+const USER_KEY = 'chronicle.collabUser'; // localStorage key for the name and color shown to collaborators
+
+// Cursor colors handed out to new users (readable on the dark editor background)
+export const COLLAB_COLORS = ['#f28b82', '#fbbc04', '#81c995', '#78d9ec', '#8ab4ff', '#c58af9', '#ff8bcb', '#fcad70'];
+
+const randomUser = (): CollabUser => ({
+  name: `Writer ${Math.floor(100 + Math.random() * 900)}`,
+  color: COLLAB_COLORS[Math.floor(Math.random() * COLLAB_COLORS.length)],
+});
+
+// Stored user, or a new random one (saved so the color stays the same across sessions)
+export function loadCollabUser(): CollabUser {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USER_KEY) ?? 'null') as Partial<CollabUser> | null;
+    if (stored && typeof stored.name === 'string' && stored.name.trim() && typeof stored.color === 'string') {
+      return { name: stored.name, color: stored.color };
+    }
+  } catch {
+    // Corrupt entry - pick a new user
+  }
+  const user = randomUser();
+  saveCollabUser(user);
+  return user;
+}
+
+export function saveCollabUser(user: CollabUser): void {
+  try {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+  } catch {
+    // Storage can be disabled (private mode) - the user is picked again next time
+  }
+}
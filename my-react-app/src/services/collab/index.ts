@@ -0,0 +1,11 @@
+import { DEFAULT_COLLAB_PORT } from './protocol';
+
+export { DEFAULT_COLLAB_PORT } from './protocol';
+export type { ClientMessage, CollabPeer, CollabUser, DocJSON, PeerSelection, ServerMessage, StepJSON } from './protocol';
+export { OFFLINE_SNAPSHOT, createCollabSession } from './collabSession';
+export type { CollabEditor, CollabSession, CollabSessionOptions, CollabSnapshot, CollabStatus } from './collabSession';
+export { COLLAB_COLORS, loadCollabUser, saveCollabUser } from './collabUser';
+
+// Collaboration server the editor connects to (VITE_COLLAB_URL, or the local server started with npm run collab-server)
+export const collabServerUrl = (env: ImportMetaEnv = import.meta.env): string =>
+  env.VITE_COLLAB_URL || `ws://localhost:${DEFAULT_COLLAB_PORT}`;
@@ -0,0 +1,48 @@
+/**
+ * Messages between editors and the collaboration server (server/collabServer.ts), sent as JSON over a WebSocket.
+ * The server is the authority: it orders steps into versions and every editor rebases its own steps onto them.
+ */
+
+export type DocJSON = Record<string, unknown>; // Node.toJSON() of a document
+export type StepJSON = Record<string, unknown>; // Step.toJSON()
+
+// Who is editing (shown next to their cursor)
+export interface CollabUser {
+  name: string;
+  color: string; // CSS color of their cursor and selection
+}
+
+// A collaborator's selection (document positions at the version they sent it)
+export interface PeerSelection {
+  anchor: number;
+  head: number;
+}
+
+// Someone else in the room
+export interface CollabPeer {
+  clientID: string; // One per open editor (the same user may have several)
+  user: CollabUser;
+  selection: PeerSelection | null; // null until they have sent one
+}
+
+// Editor -> server
+export type ClientMessage =
+  | {
+      type: 'join'; // Enter a room (also sent again after a reconnect)
+      room: string;
+      clientID: string; // Kept across reconnects, so steps sent before a disconnect are recognized as this client's
+      user: CollabUser;
+      version: number | null; // Version the editor has (null on first join - the room's document replaces the editor's)
+      doc: DocJSON; // Starts the room when it doesn't exist yet (at version, so a rejoin sends its document as of that version)
+    }
+  | { type: 'steps'; version: number; steps: StepJSON[] } // Local steps made on top of version (dropped unless it is current)
+  | { type: 'presence'; selection: PeerSelection | null };
+
+// Server -> editor
+export type ServerMessage =
+  | { type: 'snapshot'; doc: DocJSON; version: number } // The room's document (first join, or too far behind to catch up)
+  | { type: 'steps'; from: number; steps: StepJSON[]; clientIDs: string[] } // Steps from version `from` on (own steps included)
+  | { type: 'presence'; peers: CollabPeer[] } // Everyone in the room, this editor included
+  | { type: 'error'; message: string };
+
+export const DEFAULT_COLLAB_PORT = 4444;
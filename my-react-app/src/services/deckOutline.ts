@@ -0,0 +1,84 @@
+/**
+ * Slide deck outlines generated by the AI: the JSON shape the model is asked for, its validation,
+ * and the Markdown (headings, bullet lists, speaker notes) inserted into the editor.
+ */
+import { MalformedOutputError } from './aiErrors';
+
+// One slide of an outline
+export interface OutlineSlide {
+  title: string;
+  bullets: string[]; // Inline Markdown
+  notes: string; // Speaker notes (empty when the model gave none)
+}
+
+export interface DeckOutline {
+  title: string; // Deck title (becomes the title slide)
+  slides: OutlineSlide[];
+}
+
+export const DEFAULT_OUTLINE_SLIDES = 8; // Slides asked for
+export const MAX_OUTLINE_SLIDES = 20;
+export const MAX_SLIDE_BULLETS = 8;
+const MAX_TITLE_LENGTH = 120;
+
+// JSON shape described to the model
+export const OUTLINE_JSON_SHAPE = '{"title": string, "slides": [{"title": string, "bullets": string[], "notes": string}]}';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A required single-line title
+function checkTitle(value: unknown, where: string): string {
+  if (typeof value !== 'string' || !value.trim()) throw new MalformedOutputError(`${where} needs a non-empty "title" string.`);
+  const title = value.replace(/\s+/g, ' ').trim();
+  if (title.length > MAX_TITLE_LENGTH) throw new MalformedOutputError(`${where} title is longer than ${MAX_TITLE_LENGTH} characters.`);
+  return title;
+}
+
+function checkSlide(value: unknown, index: number): OutlineSlide {
+  const where = `Slide ${index + 1}`;
+  if (!isObject(value)) throw new MalformedOutputError(`${where} is not an object.`);
+  const { bullets = [], notes = '' } = value;
+  if (!Array.isArray(bullets) || bullets.some((bullet) => typeof bullet !== 'string')) {
+    throw new MalformedOutputError(`${where} "bullets" must be an array of strings.`);
+  }
+  if (bullets.length > MAX_SLIDE_BULLETS) throw new MalformedOutputError(`${where} has more than ${MAX_SLIDE_BULLETS} bullets.`);
+  if (typeof notes !== 'string') throw new MalformedOutputError(`${where} "notes" must be a string.`);
+  return {
+    title: checkTitle(value.title, where),
+    bullets: (bullets as string[]).map((bullet) => bullet.replace(/\s+/g, ' ').trim()).filter(Boolean),
+    notes: notes.trim(),
+  };
+}
+
+/**
+ * Parse and validate the model's answer (a JSON object, possibly inside a code fence).
+ * Throws MalformedOutputError describing the first problem, so the model can be asked to fix it.
+ */
+export function parseDeckOutline(answer: string): DeckOutline {
+  const json = answer.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''); // Models often fence JSON anyway
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new MalformedOutputError('The answer is not valid JSON.');
+  }
+  if (!isObject(parsed)) throw new MalformedOutputError('The answer is not a JSON object.');
+  if (!Array.isArray(parsed.slides) || parsed.slides.length === 0) {
+    throw new MalformedOutputError('"slides" must be a non-empty array.');
+  }
+  if (parsed.slides.length > MAX_OUTLINE_SLIDES) throw new MalformedOutputError(`There are more than ${MAX_OUTLINE_SLIDES} slides.`);
+  return { title: checkTitle(parsed.title, 'The deck'), slides: parsed.slides.map(checkSlide) };
+}
+
+/**
+ * Outline -> Markdown: the deck title as a level 1 heading, each slide as a level 2 heading
+ * with its bullets and speaker notes (so splitting on headings gives one slide each)
+ */
+export function outlineToMarkdown(outline: DeckOutline): string {
+  const slides = outline.slides.map((slide) => [
+    `## ${slide.title}`,
+    ...(slide.bullets.length ? [slide.bullets.map((bullet) => `- ${bullet}`).join('\n')] : []),
+    ...(slide.notes ? [`<!-- notes -->\n\n${slide.notes}\n\n<!-- /notes -->`] : []),
+  ].join('\n\n'));
+  return [`# ${outline.title}`, ...slides].join('\n\n');
+}
@@ -0,0 +1,78 @@
+import type { DocumentMeta, DocumentStorage, StoredDocument } from './storage'; // Pluggable storage backends
+
+// JSON for a new, empty document (one empty paragraph)
+export const EMPTY_DOCUMENT_CONTENT: StoredDocument['content'] = {
+  type: 'doc',
+  content: [{ type: 'paragraph' }],
+};
+
+const DEFAULT_TITLE = 'Untitled';
+
+// Strip the content from a stored document
+const toMeta = ({ id, title, createdAt, updatedAt }: StoredDocument): DocumentMeta => ({ id, title, createdAt, updatedAt });
+
+// Load a document or fail with a readable error
+async function loadOrThrow(storage: DocumentStorage, id: string): Promise<StoredDocument> {
+  const document = await storage.load(id);
+  if (!document) {
+    throw new Error(`Document ${id} not found.`);
+  }
+  return document;
+}
+
+/**
+ * Create and save a new document
+ */
+export async function createDocument(
+  storage: DocumentStorage,
+  title: string = DEFAULT_TITLE,
+  content: StoredDocument['content'] = EMPTY_DOCUMENT_CONTENT
+): Promise<StoredDocument> {
+  const now = Date.now();
+  const document: StoredDocument = {
+    id: crypto.randomUUID(),
+    title: title.trim() || DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    content,
+  };
+  await storage.save(document);
+  return document;
+}
+
+/**
+ * Save new editor content for an existing document
+ */
+export async function saveDocumentContent(
+  storage: DocumentStorage,
+  id: string,
+  content: StoredDocument['content']
+): Promise<DocumentMeta> {
+  const document = { ...(await loadOrThrow(storage, id)), content, updatedAt: Date.now() };
+  await storage.save(document);
+  return toMeta(document);
+}
+
+/**
+ * Rename a document
+ */
+export async function renameDocument(storage: DocumentStorage, id: string, title: string): Promise<DocumentMeta> {
+  const document = { ...(await loadOrThrow(storage, id)), title: title.trim() || DEFAULT_TITLE, updatedAt: Date.now() };
+  await storage.save(document);
+  return toMeta(document);
+}
+
+/**
+ * Copy a document under a new id ("<title> (copy)")
+ */
+export async function duplicateDocument(storage: DocumentStorage, id: string): Promise<StoredDocument> {
+  const original = await loadOrThrow(storage, id);
+  return createDocument(storage, `${original.title} (copy)`, original.content);
+}
+
+/**
+ * Delete a document
+ */
+export async function deleteDocument(storage: DocumentStorage, id: string): Promise<void> {
+  await storage.remove(id);
+}
@@ -0,0 +1,72 @@
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import type { GenerationInfo } from './aiService';
+import type { GenerationKind, GenerationOutcome, GenerationRecord } from './storage';
+
+// A generation in progress: what produced it and how the document changed when its output was committed
+export interface PendingGeneration {
+  id: string; // Becomes the history record id (also stored on the aiGenerated marks of its text)
+  kind: GenerationKind;
+  info: GenerationInfo | null; // Set once a model has answered
+  text: string; // Output received so far (Markdown)
+  before: ProseMirrorNode | null; // Document before the first commit of this output
+  after: ProseMirrorNode | null; // Document after the latest commit (partial accepts commit several times)
+}
+
+// Start tracking a generation
+export const startGeneration = (kind: GenerationKind): PendingGeneration => ({
+  id: crypto.randomUUID(),
+  kind,
+  info: null,
+  text: '',
+  before: null,
+  after: null,
+});
+
+// Record a commit of AI output (keeps the first "before" and the latest "after")
+export const recordInsert = (generation: PendingGeneration, before: ProseMirrorNode, after: ProseMirrorNode): PendingGeneration => ({
+  ...generation,
+  before: generation.before ?? before,
+  after,
+});
+
+// Range that differs between two documents, in "after" positions (null when identical)
+export function changedRange(before: ProseMirrorNode, after: ProseMirrorNode): { from: number; to: number } | null {
+  const from = before.content.findDiffStart(after.content);
+  if (from === null) return null;
+  const end = before.content.findDiffEnd(after.content)!;
+  return { from, to: Math.max(from, end.b) };
+}
+
+/**
+ * Turn a finished generation into a history record (null when no model ever answered).
+ * current is the document JSON now - used as "before" when the output was never committed.
+ */
+export function toGenerationRecord(
+  generation: PendingGeneration,
+  documentId: string,
+  resolution: 'accepted' | 'rejected' | 'applied',
+  current: Record<string, unknown>
+): GenerationRecord | null {
+  const { info, before, after } = generation;
+  if (!info) return null;
+  // Rejecting the rest of a suggestion after accepting part of it still changed the document
+  const outcome: GenerationOutcome = resolution === 'rejected' && after ? 'partial' : resolution;
+
+  return {
+    id: generation.id,
+    documentId,
+    kind: generation.kind,
+    createdAt: Date.now(),
+    prompt: info.prompt,
+    provider: info.provider,
+    model: info.model,
+    config: info.config,
+    cached: info.cached,
+    usage: info.usage,
+    text: generation.text,
+    outcome,
+    range: before && after ? changedRange(before, after) : null,
+    before: before ? (before.toJSON() as Record<string, unknown>) : current,
+    after: after ? (after.toJSON() as Record<string, unknown>) : null,
+  };
+}
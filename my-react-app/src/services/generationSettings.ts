@@ -0,0 +1,125 @@
+import { InvalidSettingsError } from './aiErrors';
+
+// How much text Continue Writing produces
+export type TargetLength = 'sentence' | 'paragraph' | 'section';
+
+// Tones offered for continuations ('match' keeps the document's own tone)
+export const GENERATION_TONES = ['match', 'professional', 'friendly', 'confident', 'casual', 'persuasive'] as const;
+export type GenerationTone = typeof GENERATION_TONES[number];
+
+/**
+ * User-facing settings for Continue Writing (stored per user, optionally overridden per document)
+ */
+export interface GenerationSettings {
+  model: string | null; // Model to use (null = the provider's fallback chain)
+  temperature: number; // Creativity, 0-1 (higher = more creative)
+  length: TargetLength;
+  tone: GenerationTone;
+  audience: string; // Intended readers, free text (empty = general audience)
+  reuseCached: boolean; // Answer from the response cache when the same prompt was sent recently
+}
+
+// Prompt instructions and token budget for each target length
+export const TARGET_LENGTHS: Record<TargetLength, {
+  label: string;
+  instruction: string; // At the end of the text
+  bridgeInstruction: string; // Between existing text (kept shorter so it still leads into what follows)
+  maxOutputTokens: number;
+}> = {
+  sentence: { label: 'Sentence', instruction: '1-2 sentences', bridgeInstruction: '1 sentence', maxOutputTokens: 150 },
+  paragraph: { label: 'Paragraph', instruction: 'a full paragraph with 4-6 sentences', bridgeInstruction: '2-4 sentences', maxOutputTokens: 500 },
+  section: { label: 'Section', instruction: '2-4 paragraphs', bridgeInstruction: 'one or two short paragraphs', maxOutputTokens: 1500 },
+};
+
+export const MAX_AUDIENCE_LENGTH = 120; // Characters - the audience is a short description, not a prompt
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: null,
+  temperature: 0.7,
+  length: 'paragraph',
+  tone: 'match',
+  audience: '',
+  reuseCached: false,
+};
+
+/**
+ * Problems with a settings object (empty when valid). models are the selected provider's models.
+ */
+export function getSettingsErrors(settings: GenerationSettings, models: readonly string[]): string[] {
+  const errors: string[] = [];
+  if (settings.model !== null && !models.includes(settings.model)) {
+    errors.push(`Model "${settings.model}" is not offered by this provider.`);
+  }
+  if (!Number.isFinite(settings.temperature) || settings.temperature < 0 || settings.temperature > 1) {
+    errors.push('Creativity must be between 0 and 1.');
+  }
+  if (!(settings.length in TARGET_LENGTHS)) {
+    errors.push(`Unknown target length "${settings.length}".`);
+  }
+  if (!GENERATION_TONES.includes(settings.tone)) {
+    errors.push(`Unknown tone "${settings.tone}".`);
+  }
+  if (settings.audience.length > MAX_AUDIENCE_LENGTH) {
+    errors.push(`Audience must be at most ${MAX_AUDIENCE_LENGTH} characters.`);
+  }
+  return errors;
+}
+
+/**
+ * Throw InvalidSettingsError when settings can't be sent to the provider (checked before every continuation request)
+ */
+export function validateGenerationSettings(settings: GenerationSettings, models: readonly string[]): void {
+  const errors = getSettingsErrors(settings, models);
+  if (errors.length > 0) {
+    throw new InvalidSettingsError(errors);
+  }
+}
+
+const USER_SETTINGS_KEY = 'chronicle.generationSettings'; // localStorage key for the user's defaults
+const documentSettingsKey = (documentId: string) => `chronicle.generationSettings.${documentId}`; // Per-document override
+
+// Stored JSON -> settings (fields that are missing or of the wrong type fall back to the defaults)
+function parseSettings(json: string | null): GenerationSettings | null {
+  if (!json) return null;
+  try {
+    const stored = JSON.parse(json) as Partial<GenerationSettings>;
+    const pick = <K extends keyof GenerationSettings>(key: K, valid: boolean) =>
+      valid ? stored[key] as GenerationSettings[K] : DEFAULT_GENERATION_SETTINGS[key];
+    return {
+      model: pick('model', stored.model === null || typeof stored.model === 'string'),
+      temperature: pick('temperature', typeof stored.temperature === 'number'),
+      length: pick('length', typeof stored.length === 'string' && stored.length in TARGET_LENGTHS),
+      tone: pick('tone', GENERATION_TONES.includes(stored.tone as GenerationTone)),
+      audience: pick('audience', typeof stored.audience === 'string'),
+      reuseCached: pick('reuseCached', typeof stored.reuseCached === 'boolean'),
+    };
+  } catch {
+    return null; // Corrupt entry - treat as not set
+  }
+}
+
+const read = (key: string): GenerationSettings | null => {
+  try {
+    return parseSettings(localStorage.getItem(key));
+  } catch {
+    return null;
+  }
+};
+
+const write = (key: string, settings: GenerationSettings | null) => {
+  try {
+    if (settings) localStorage.setItem(key, JSON.stringify(settings));
+    else localStorage.removeItem(key);
+  } catch {
+    // Storage can be disabled (private mode) - settings simply won't persist
+  }
+};
+
+// The user's default settings
+export const loadUserSettings = (): GenerationSettings => read(USER_SETTINGS_KEY) ?? DEFAULT_GENERATION_SETTINGS;
+export const saveUserSettings = (settings: GenerationSettings): void => write(USER_SETTINGS_KEY, settings);
+
+// A document's own settings (null when it uses the user's defaults)
+export const loadDocumentSettings = (documentId: string): GenerationSettings | null => read(documentSettingsKey(documentId));
+export const saveDocumentSettings = (documentId: string, settings: GenerationSettings | null): void =>
+  write(documentSettingsKey(documentId), settings);
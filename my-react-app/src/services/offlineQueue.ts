@@ -0,0 +1,66 @@
+/**
+ * Continue Writing requests made while offline, replayed in order once the connection is back.
+ * The target position of each item lives in the editor (offlineQueuePlugin) so it follows later edits.
+ */
+
+// A queued request
+export interface QueuedRequest {
+  id: string;
+  documentId: string; // Document it was made in (replayed only while that document is open)
+  createdAt: number; // Epoch milliseconds
+  preview: string; // End of the text before the target position, to recognize it in the list
+  position?: number; // Target position while another document is open (the editor tracks it while its document is open)
+}
+
+export interface OfflineQueue {
+  items: () => QueuedRequest[]; // Oldest first (same array until the queue changes)
+  add: (item: QueuedRequest) => void;
+  remove: (id: string) => void;
+  setPosition: (id: string, position: number) => void;
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void; // Called after every change, returns the unsubscribe function
+}
+
+/**
+ * Create an empty queue
+ */
+export function createOfflineQueue(): OfflineQueue {
+  let items: QueuedRequest[] = [];
+  const listeners = new Set<() => void>();
+
+  const update = (next: QueuedRequest[]) => {
+    items = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    items: () => items,
+    add: (item) => update([...items, item]),
+    remove: (id) => {
+      if (items.some((item) => item.id === id)) update(items.filter((item) => item.id !== id));
+    },
+    setPosition: (id, position) => {
+      if (items.some((item) => item.id === id)) update(items.map((item) => (item.id === id ? { ...item, position } : item)));
+    },
+    clear: () => {
+      if (items.length) update([]);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// Whether the browser currently has a network connection
+export const isOnline = (): boolean => navigator.onLine;
+
+// Listen for the connection going down or coming back
+export function subscribeToConnectivity(listener: () => void): () => void {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+}
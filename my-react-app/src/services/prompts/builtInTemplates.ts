@@ -0,0 +1,116 @@
+import type { PromptTemplate } from './types';
+
+// Continue Writing: develops the text at the end of the document, or bridges into the text after the cursor
+export const CONTINUE_TEMPLATE: PromptTemplate = {
+  id: 'continue',
+  name: 'Continue writing',
+  description: 'Continues the text at the cursor',
+  version: 1,
+  output: 'insert',
+  builtIn: true,
+  body: `{{^after}}Write a complete, well-formed continuation based on the following text or topic.
+
+Write {{length}} that is coherent, engaging, and well-structured.
+If the input is a topic or idea, develop it.
+If the input is a partial thought, complete and expand it.
+Tone: {{tone}}.
+{{#audience}}Write for this audience: {{audience}}.
+{{/audience}}The text is Markdown. Answer in Markdown: use **bold**, *italic* or lists only where they genuinely help.
+
+User's text/topic:
+{{before}}
+
+Continuation:{{/after}}{{#after}}Continue the document at the cursor position marked [CURSOR].
+
+Write {{length}} that follow naturally from the text before the cursor and lead smoothly into the text after it.
+Tone: {{tone}}.
+{{#audience}}Write for this audience: {{audience}}.
+{{/audience}}Do not repeat or rewrite the text after the cursor.
+The text is Markdown; use the same Markdown conventions in your answer.
+Respond with only the text to insert.
+
+{{before}} [CURSOR] {{after}}
+
+Text to insert at [CURSOR]:{{/after}}`,
+};
+
+export const SUMMARIZE_TEMPLATE: PromptTemplate = {
+  id: 'summarize',
+  name: 'Summarize',
+  description: 'Short summary of the whole document',
+  version: 1,
+  output: 'insert',
+  builtIn: true,
+  body: `Summarize the following document in one short paragraph (2-4 sentences).
+Capture the main points only. Do not add information that is not in the document.
+The document is Markdown. Answer in Markdown, with only the summary.
+
+Document:
+{{document}}
+
+Summary:`,
+};
+
+const OUTLINE_TEMPLATE: PromptTemplate = {
+  id: 'outline',
+  name: 'Outline',
+  description: 'Structured outline of the document as headings and bullet points',
+  version: 1,
+  output: 'insert',
+  builtIn: true,
+  body: `Create an outline for the document below{{#title}}, titled "{{title}}"{{/title}}.
+Use Markdown: a heading for each main section and nested bullet points for the ideas under it.
+Cover what the document says and the natural next sections it is missing.
+{{#audience}}The intended audience: {{audience}}.
+{{/audience}}Respond with only the outline.
+
+Document:
+{{document}}
+
+Outline:`,
+};
+
+const TITLE_IDEAS_TEMPLATE: PromptTemplate = {
+  id: 'title-ideas',
+  name: 'Title ideas',
+  description: 'Five title suggestions for the document',
+  version: 1,
+  output: 'insert',
+  builtIn: true,
+  body: `Suggest five titles for the document below{{#title}} (its working title is "{{title}}"){{/title}}.
+Tone: {{tone}}.
+{{#audience}}The intended audience: {{audience}}.
+{{/audience}}Respond with only a Markdown bullet list of the titles.
+
+Document:
+{{document}}
+
+Titles:`,
+};
+
+const BULLETS_TO_PROSE_TEMPLATE: PromptTemplate = {
+  id: 'bullets-to-prose',
+  name: 'Bullets to prose',
+  description: 'Turns the selected bullet points into flowing paragraphs',
+  version: 1,
+  output: 'replace',
+  builtIn: true,
+  body: `Rewrite the following bullet points as flowing prose: well-connected paragraphs that keep every point.
+Tone: {{tone}}.
+{{#audience}}Write for this audience: {{audience}}.
+{{/audience}}The text is Markdown. Respond with only the rewritten Markdown, without quotes, code fences or commentary.
+
+Bullet points:
+{{selection}}
+
+Prose:`,
+};
+
+// Templates shipped with the app, in menu order
+export const BUILT_IN_TEMPLATES: readonly PromptTemplate[] = [
+  CONTINUE_TEMPLATE,
+  SUMMARIZE_TEMPLATE,
+  OUTLINE_TEMPLATE,
+  TITLE_IDEAS_TEMPLATE,
+  BULLETS_TO_PROSE_TEMPLATE,
+];
@@ -0,0 +1,39 @@
+import { TARGET_LENGTHS } from '../generationSettings';
+import type { GenerationSettings } from '../generationSettings';
+import type { PromptVariables } from './types';
+
+export { PROMPT_VARIABLES } from './types';
+export type { PromptTemplate, PromptVariable, PromptVariables, TemplateOutput } from './types';
+export { getTemplateErrors, renderPrompt, templateVariables } from './render';
+export { BUILT_IN_TEMPLATES, CONTINUE_TEMPLATE, SUMMARIZE_TEMPLATE } from './builtInTemplates';
+export { exportTemplates, loadUserTemplates, parseTemplatesJSON, saveUserTemplates } from './templateStore';
+
+// Longest document sent to the model (characters) - keeps prompts within model limits
+const DOCUMENT_MAX_CHARS = 12000;
+
+// Editor text a prompt can draw on (all Markdown)
+export interface PromptContext {
+  before?: string;
+  after?: string;
+  selection?: string;
+  document?: string;
+  title?: string;
+}
+
+/**
+ * Template variables from the editor text and the generation settings
+ */
+export function buildPromptVariables(context: PromptContext, settings: GenerationSettings): PromptVariables {
+  const after = context.after?.trim() ?? '';
+  const length = TARGET_LENGTHS[settings.length];
+  return {
+    before: context.before?.trim() ?? '',
+    after,
+    selection: context.selection?.trim() ?? '',
+    document: context.document?.trim().slice(0, DOCUMENT_MAX_CHARS) ?? '',
+    title: context.title?.trim() ?? '',
+    tone: settings.tone === 'match' ? 'match the existing text' : settings.tone,
+    length: after ? length.bridgeInstruction : length.instruction, // Between existing text: shorter, so it still leads into what follows
+    audience: settings.audience.trim(),
+  };
+}
@@ -0,0 +1,62 @@
+import { PROMPT_VARIABLES } from './types';
+import { InvalidRequestError } from '../aiErrors';
+import type { PromptTemplate, PromptVariable, PromptVariables } from './types';
+
+// {{#name}}...{{/name}} and {{^name}}...{{/name}} sections (innermost first, so nested sections work)
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}((?:(?!\{\{[#^/]\w+\}\})[\s\S])*)\{\{\/\2\}\}/g;
+// {{name}} placeholders
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+const isPromptVariable = (name: string): name is PromptVariable => Object.hasOwn(PROMPT_VARIABLES, name);
+
+// Resolve sections (repeated until none are left, since resolving an inner section can expose an outer one)
+function resolveSections(body: string, isSet: (name: string) => boolean): string {
+  let previous: string;
+  do {
+    previous = body;
+    body = body.replace(SECTION_PATTERN, (_match, kind: string, name: string, content: string) =>
+      (kind === '#') === isSet(name) ? content : '');
+  } while (body !== previous);
+  return body;
+}
+
+// Variables a template body uses (placeholders and sections)
+export function templateVariables(body: string): PromptVariable[] {
+  const names = new Set<PromptVariable>();
+  for (const [, name] of body.matchAll(/\{\{[#^/]?(\w+)\}\}/g)) {
+    if (isPromptVariable(name)) names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Problems with a template (empty when it can be saved and rendered)
+ */
+export function getTemplateErrors(template: Pick<PromptTemplate, 'name' | 'body'>): string[] {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('The template needs a name.');
+  if (!template.body.trim()) errors.push('The template body is empty.');
+
+  const unknown = [...template.body.matchAll(/\{\{[#^/]?(\w+)\}\}/g)]
+    .map(([, name]) => name)
+    .filter((name) => !isPromptVariable(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown variables: ${[...new Set(unknown)].join(', ')}.`);
+  }
+  if (/\{\{[#^/]\w+\}\}/.test(resolveSections(template.body, () => true))) {
+    errors.push('A {{#section}} or {{^section}} is not closed with a matching {{/section}}.');
+  }
+  return errors;
+}
+
+/**
+ * Fill a template's placeholders. Values are inserted as-is and never re-scanned for placeholders.
+ */
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): string {
+  const errors = getTemplateErrors(template);
+  if (errors.length > 0) {
+    throw new InvalidRequestError(`Invalid prompt template "${template.name}": ${errors.join(' ')}`);
+  }
+  const body = resolveSections(template.body, (name) => !!variables[name as PromptVariable]?.trim());
+  return body.replace(VARIABLE_PATTERN, (_match, name: string) => variables[name as PromptVariable]).trim();
+}
@@ -0,0 +1,81 @@
+import { BUILT_IN_TEMPLATES } from './builtInTemplates';
+import { getTemplateErrors } from './render';
+import type { PromptTemplate, TemplateOutput } from './types';
+
+const TEMPLATES_STORAGE_KEY = 'chronicle.promptTemplates'; // localStorage key for user templates
+const EXPORT_TYPE = 'chronicle-prompt-templates'; // Marks exported files
+const EXPORT_VERSION = 1; // Export file format version
+
+// Shape of an exported templates file
+interface TemplateExport {
+  type: typeof EXPORT_TYPE;
+  version: number;
+  templates: PromptTemplate[];
+}
+
+// Untrusted JSON -> template (null when required fields are missing or the template doesn't render)
+function toTemplate(value: unknown): PromptTemplate | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const t = value as Record<string, unknown>;
+  if (typeof t.name !== 'string' || typeof t.body !== 'string') return null;
+  const template: PromptTemplate = {
+    id: typeof t.id === 'string' && t.id ? t.id : crypto.randomUUID(),
+    name: t.name.trim(),
+    description: typeof t.description === 'string' ? t.description : '',
+    version: typeof t.version === 'number' && t.version >= 1 ? Math.floor(t.version) : 1,
+    output: (['insert', 'replace'] as TemplateOutput[]).includes(t.output as TemplateOutput) ? t.output as TemplateOutput : 'insert',
+    body: t.body,
+  };
+  return getTemplateErrors(template).length === 0 ? template : null;
+}
+
+// The user's own templates
+export function loadUserTemplates(): PromptTemplate[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(stored) ? stored.map(toTemplate).filter((t): t is PromptTemplate => t !== null) : [];
+  } catch {
+    return []; // Unavailable or corrupt storage - start without user templates
+  }
+}
+
+export function saveUserTemplates(templates: PromptTemplate[]): void {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // Storage can be disabled (private mode) - templates simply won't persist
+  }
+}
+
+/**
+ * Serialize user templates for download
+ */
+export function exportTemplates(templates: PromptTemplate[]): string {
+  const file: TemplateExport = {
+    type: EXPORT_TYPE,
+    version: EXPORT_VERSION,
+    templates,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse an exported templates file (a single template object or a plain array is accepted too).
+ * Imported templates never claim a built-in id; throws when the file contains no valid template.
+ */
+export function parseTemplatesJSON(json: string): PromptTemplate[] {
+  const data = JSON.parse(json) as unknown; // Throws on malformed JSON - caller reports it
+  const list = Array.isArray(data)
+    ? data
+    : typeof data === 'object' && data !== null && Array.isArray((data as TemplateExport).templates)
+      ? (data as TemplateExport).templates
+      : [data];
+
+  const templates = list.map(toTemplate).filter((t): t is PromptTemplate => t !== null);
+  if (templates.length === 0) {
+    throw new Error('The file contains no valid prompt templates.');
+  }
+  return templates.map((template) =>
+    BUILT_IN_TEMPLATES.some((builtIn) => builtIn.id === template.id) ? { ...template, id: crypto.randomUUID() } : template
+  );
+}
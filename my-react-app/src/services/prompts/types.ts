@@ -0,0 +1,33 @@
+// Variables a template can use, with the help text shown in the template editor
+export const PROMPT_VARIABLES = {
+  before: 'Text before the cursor (Markdown)',
+  after: 'Text after the cursor (Markdown, empty at the end of the document)',
+  selection: 'Selected text (Markdown, empty without a selection)',
+  document: 'The whole document (Markdown)',
+  title: 'Document title',
+  tone: 'Tone from the generation settings',
+  length: 'Target length from the generation settings (e.g. "1-2 sentences")',
+  audience: 'Audience from the generation settings (empty when not set)',
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+// Values for every variable (empty string when there is nothing to fill in)
+export type PromptVariables = Record<PromptVariable, string>;
+
+// What happens with the model's answer
+export type TemplateOutput = 'insert' | 'replace'; // Suggestion at the cursor / replaces the selection
+
+/**
+ * A named, versioned prompt. The body uses {{variable}} placeholders, plus {{#variable}}...{{/variable}}
+ * sections kept only when the variable is non-empty and {{^variable}}...{{/variable}} sections kept only when it is empty.
+ */
+export interface PromptTemplate {
+  id: string; // Stable id (built-ins use readable ids, user templates UUIDs)
+  name: string;
+  description: string;
+  version: number; // Starts at 1, bumped on every edit
+  output: TemplateOutput;
+  body: string;
+  builtIn?: boolean; // Shipped with the app (read-only - duplicate to customize)
+}
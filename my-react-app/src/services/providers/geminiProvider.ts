@@ -0,0 +1,161 @@
+import {
+  FinishReason,
+  GoogleGenerativeAI, // Google's Gemini AI SDK
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+} from '@google/generative-ai';
+import type { EnhancedGenerateContentResponse, UsageMetadata } from '@google/generative-ai';
+import type { AIProvider, GenerateRequest, TokenUsage } from './types';
+import { createRequestTracker } from './requestTracker';
+import { createAbortError } from '../abort';
+import { AuthError, NetworkError, SafetyBlockedError, errorFromStatus } from '../aiErrors';
+
+const LABEL = 'Google Gemini';
+
+// Model fallback chain: newer models first, older models if unavailable
+const GEMINI_MODELS = [
+  'gemini-2.5-flash',    // Fast 2.5 model (preferred - fastest and newest)
+  'gemini-2.5-pro',      // Pro 2.5 model (more capable, slightly slower)
+  'gemini-1.5-flash',    // Fallback to 1.5 flash (older but still fast)
+  'gemini-1.5-pro',      // Fallback to 1.5 pro (older but more capable)
+  'gemini-pro',          // Last resort - older stable model (most compatible)
+];
+
+// Finish reasons meaning the answer was withheld rather than completed
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/**
+ * Extract text from a Gemini response, falling back to raw candidate parts when text() throws
+ */
+function extractText(response: EnhancedGenerateContentResponse): string {
+  const blockReason = response.promptFeedback?.blockReason; // The prompt itself was refused
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockedError(finishReason);
+  try {
+    const text = response.text(); // Primary method: get text directly from response
+    if (text && text.trim()) return text;
+  } catch {
+    // text() throws on blocked or unusual responses - fall through to candidates
+  }
+  const parts = response.candidates?.[0]?.content?.parts ?? []; // First candidate (usually the only one)
+  return parts.map((part) => part.text || '').join(''); // Join all text parts into a single string
+}
+
+// Text of every candidate that wasn't withheld (the first one is also returned by extractText)
+function candidateTexts(response: EnhancedGenerateContentResponse): string[] {
+  return (response.candidates ?? [])
+    .filter((candidate) => !candidate.finishReason || !BLOCKED_FINISH_REASONS.includes(candidate.finishReason))
+    .map((candidate) => (candidate.content?.parts ?? []).map((part) => part.text || '').join(''));
+}
+
+// Gemini usage metadata -> token counts (streams report it on the last chunk)
+const toUsage = (metadata: UsageMetadata | undefined): TokenUsage | undefined => metadata && {
+  promptTokens: metadata.promptTokenCount ?? 0,
+  outputTokens: metadata.candidatesTokenCount ?? 0,
+  totalTokens: metadata.totalTokenCount ?? 0,
+};
+
+// google.rpc details in Gemini error bodies (ErrorInfo carries the reason, RetryInfo the delay, e.g. "37s")
+interface GeminiErrorDetail {
+  reason?: string;
+  retryDelay?: string;
+}
+
+/**
+ * Classify an SDK error (fetch errors carry the HTTP status and google.rpc details)
+ */
+function toProviderError(error: unknown, model: string): unknown {
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return createAbortError(); // Same cancellation error every provider throws
+  }
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const details = (error.errorDetails ?? []) as GeminiErrorDetail[];
+    if (details.some((detail) => detail.reason === 'API_KEY_INVALID')) {
+      return new AuthError(`Invalid API key for ${LABEL}. Please check your configuration.`, { cause: error }); // Sent as 400
+    }
+    const retryDelay = details.find((detail) => detail.retryDelay)?.retryDelay;
+    return errorFromStatus({
+      status: error.status ?? 0,
+      detail: error.message,
+      provider: LABEL,
+      model,
+      retryAfterMs: retryDelay ? parseFloat(retryDelay) * 1000 : null,
+    });
+  }
+  if (error instanceof GoogleGenerativeAIError && Object.getPrototypeOf(error) === GoogleGenerativeAIError.prototype) {
+    return new NetworkError({ cause: error }); // The SDK throws the base class when fetch fails or the stream breaks
+  }
+  return error;
+}
+
+/**
+ * Gemini implementation of AIProvider using the official SDK
+ */
+export function createGeminiProvider(apiKey: string | undefined): AIProvider {
+  const tracker = createRequestTracker();
+  const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null; // One client for every request
+
+  // Resolve a configured model handle (throws early if the API key is missing)
+  const getModel = ({ model, config, candidateCount }: GenerateRequest) => {
+    if (!genAI) {
+      throw new AuthError(
+        'Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in your .env file.' // Error if API key is missing
+      );
+    }
+    return genAI.getGenerativeModel({ model, generationConfig: { ...config, candidateCount } });
+  };
+
+  return {
+    id: 'gemini',
+    label: LABEL,
+    capabilities: { streaming: true, cancellation: true, offline: false, candidates: true },
+    listModels: () => [...GEMINI_MODELS],
+
+    async generate(request, options) {
+      const model = getModel(request);
+      const controller = tracker.begin(options?.signal);
+      try {
+        const result = await model.generateContent(request.prompt, { signal: controller.signal });
+        return {
+          text: extractText(result.response),
+          model: request.model,
+          candidates: candidateTexts(result.response),
+          usage: toUsage(result.response.usageMetadata),
+        };
+      } catch (error) {
+        throw toProviderError(error, request.model);
+      } finally {
+        tracker.end(controller);
+      }
+    },
+
+    async *stream(request, options) {
+      const model = getModel(request);
+      const controller = tracker.begin(options?.signal);
+      try {
+        const result = await model.generateContentStream(request.prompt, { signal: controller.signal });
+        let usage: TokenUsage | undefined;
+        for await (const chunk of result.stream) {
+          usage = toUsage(chunk.usageMetadata) ?? usage; // Running totals - the last one counts
+          const text = extractText(chunk);
+          if (text) yield text; // Skip empty keep-alive chunks
+        }
+        if (usage) options?.onUsage?.(usage);
+      } catch (error) {
+        throw toProviderError(error, request.model);
+      } finally {
+        tracker.end(controller);
+      }
+    },
+
+    cancel: () => tracker.cancelAll(),
+  };
+}
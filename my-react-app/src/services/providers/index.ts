@@ -0,0 +1,66 @@
+import type { AIProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+export type {
+  AIProvider,
+  GenerateRequest,
+  GenerateResult,
+  GenerationConfig,
+  ProviderCallOptions,
+  ProviderCapabilities,
+  TokenUsage,
+} from './types';
+export { createGeminiProvider, createMockProvider, createOpenAICompatibleProvider };
+
+const PROVIDER_STORAGE_KEY = 'chronicle.aiProvider'; // localStorage key for the user's runtime choice
+
+/**
+ * Build every provider available in this environment from Vite env variables
+ */
+export function createProviders(env: ImportMetaEnv = import.meta.env): AIProvider[] {
+  const providers: AIProvider[] = [
+    createGeminiProvider(env.VITE_GEMINI_API_KEY),
+    createMockProvider(),
+  ];
+  if (env.VITE_OPENAI_BASE_URL) {
+    providers.push(createOpenAICompatibleProvider({
+      baseUrl: env.VITE_OPENAI_BASE_URL,
+      apiKey: env.VITE_OPENAI_API_KEY,
+      models: (env.VITE_OPENAI_MODELS || 'gpt-4o-mini').split(',').map((model: string) => model.trim()).filter(Boolean),
+    }));
+  }
+  return providers;
+}
+
+/**
+ * Pick the provider to start with: saved choice, then VITE_AI_PROVIDER, then Gemini when keyed, else the mock
+ */
+export function resolveDefaultProviderId(providers: AIProvider[], env: ImportMetaEnv = import.meta.env): string {
+  const candidates = [
+    loadSelectedProviderId(),
+    env.VITE_AI_PROVIDER,
+    env.VITE_GEMINI_API_KEY ? 'gemini' : 'mock',
+  ];
+  const match = candidates.find((id) => id && providers.some((provider) => provider.id === id));
+  return match ?? providers[0].id;
+}
+
+// Read the last provider picked in the UI (null when storage is unavailable)
+function loadSelectedProviderId(): string | null {
+  try {
+    return localStorage.getItem(PROVIDER_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Remember the provider picked in the UI across reloads
+export function saveSelectedProviderId(id: string): void {
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch {
+    // Storage can be disabled (private mode) - selection simply won't persist
+  }
+}
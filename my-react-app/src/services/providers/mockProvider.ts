@@ -0,0 +1,94 @@
+import type { AIProvider, GenerateRequest, TokenUsage } from './types';
+import { createRequestTracker } from './requestTracker';
+import { delay } from '../abort';
+
+// Fixed sentence bank - output is picked deterministically from the prompt so tests and demos are repeatable
+const SENTENCES = [
+  'This idea opens up several directions worth exploring further.',
+  'Looking at it more closely reveals a pattern that is easy to miss at first.',
+  'Each step builds naturally on the one before it.',
+  'The result is clearer, more focused and easier for an audience to follow.',
+  'With that foundation in place, the next part of the story can unfold.',
+  'Small details like these are often what make the difference.',
+];
+
+// Simple string hash (djb2) used to seed sentence selection
+function hash(text: string): number {
+  let value = 5381;
+  for (let i = 0; i < text.length; i++) {
+    value = ((value << 5) + value + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+// A deck outline in the JSON shape the outline prompt asks for (see deckOutline.ts)
+function respondWithOutline(seed: number): string {
+  const slides = ['Introduction', 'Background', 'Key ideas', 'Next steps'].map((title, i) => ({
+    title,
+    bullets: [0, 1, 2].map((j) => SENTENCES[(seed + i + j * 7) % SENTENCES.length]),
+    notes: SENTENCES[(seed + i * 5) % SENTENCES.length],
+  }));
+  return JSON.stringify({ title: 'Mock presentation', slides });
+}
+
+// Build the deterministic response for a request (each alternative starts at a different sentence)
+function respond({ prompt }: GenerateRequest, alternative: number = 0): string {
+  const seed = hash(prompt) + alternative;
+  if (prompt.includes('"slides"')) return respondWithOutline(seed); // Outline requests expect JSON
+  const picked: string[] = [];
+  for (let i = 0; i < 4; i++) {
+    picked.push(SENTENCES[(seed + i * 7) % SENTENCES.length]); // Step through the bank with a fixed stride
+  }
+  return picked.join(' ');
+}
+
+// Rough token counts (about four characters per token) so usage accounting can be tried without a backend
+function estimateUsage(prompt: string, outputs: string[]): TokenUsage {
+  const tokens = (text: string) => Math.ceil(text.length / 4);
+  const promptTokens = tokens(prompt);
+  const outputTokens = outputs.reduce((sum, output) => sum + tokens(output), 0);
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+}
+
+/**
+ * Local provider that needs no network or API key - useful offline, in demos and in tests
+ */
+export function createMockProvider(latency: number = 300): AIProvider {
+  const tracker = createRequestTracker();
+
+  return {
+    id: 'mock',
+    label: 'Local mock',
+    capabilities: { streaming: true, cancellation: true, offline: true, candidates: true },
+    listModels: () => ['mock-writer'],
+
+    async generate(request, options) {
+      const controller = tracker.begin(options?.signal);
+      try {
+        await delay(latency, controller.signal); // Simulate network latency
+        const candidates = Array.from({ length: request.candidateCount ?? 1 }, (_, i) => respond(request, i));
+        return { text: candidates[0], model: request.model, candidates, usage: estimateUsage(request.prompt, candidates) };
+      } finally {
+        tracker.end(controller);
+      }
+    },
+
+    async *stream(request, options) {
+      const controller = tracker.begin(options?.signal);
+      try {
+        await delay(latency, controller.signal);
+        const text = respond(request);
+        const words = text.split(/(?<=\s)/); // Keep trailing whitespace on each word
+        for (const word of words) {
+          await delay(40, controller.signal); // Emit roughly one word per animation frame budget
+          yield word;
+        }
+        options?.onUsage?.(estimateUsage(request.prompt, [text]));
+      } finally {
+        tracker.end(controller);
+      }
+    },
+
+    cancel: () => tracker.cancelAll(),
+  };
+}
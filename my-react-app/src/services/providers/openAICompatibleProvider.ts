@@ -0,0 +1,131 @@
+import type { AIProvider, GenerateRequest, TokenUsage } from './types';
+import { createRequestTracker } from './requestTracker';
+import { isAbortError } from '../abort';
+import { AIError, NetworkError, errorFromStatus, parseRetryAfter } from '../aiErrors';
+
+const LABEL = 'OpenAI-compatible';
+
+// Connection settings for any server speaking the OpenAI chat completions API (OpenAI, Ollama, LM Studio, vLLM...)
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string; // Optional for local servers
+  models: string[]; // Models to try in order
+}
+
+// Shape of the bits of the chat completions response we read
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+}
+
+// OpenAI usage block -> token counts
+const toUsage = (usage: ChatCompletionResponse['usage']): TokenUsage | undefined => usage ? {
+  promptTokens: usage.prompt_tokens ?? 0,
+  outputTokens: usage.completion_tokens ?? 0,
+  totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+} : undefined;
+
+// The server couldn't be reached or the connection dropped (cancellation passes through)
+const connectionFailed = (error: unknown): never => {
+  throw isAbortError(error) ? error : new NetworkError({ cause: error });
+};
+
+// Response JSON; a body that doesn't parse means the server isn't speaking the API
+const parseResponse = (json: string): ChatCompletionResponse => {
+  try {
+    return JSON.parse(json) as ChatCompletionResponse;
+  } catch (error) {
+    throw new AIError(`The ${LABEL} server sent a response that could not be read.`, { cause: error });
+  }
+};
+
+/**
+ * Provider for OpenAI-compatible HTTP endpoints, including local inference servers
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): AIProvider {
+  const tracker = createRequestTracker();
+  const baseUrl = options.baseUrl.replace(/\/+$/, ''); // Strip trailing slashes
+
+  // POST to /chat/completions; HTTP and connection failures become typed AI errors
+  const post = async ({ prompt, model, config, candidateCount = 1 }: GenerateRequest, stream: boolean, signal: AbortSignal) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: config.maxOutputTokens,
+        temperature: config.temperature,
+        top_p: config.topP,
+        n: candidateCount, // Some local servers ignore it and answer once - the service makes up the difference
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}), // Usage arrives in a final chunk without choices
+      }),
+      signal,
+    }).catch(connectionFailed); // fetch rejects only when the server can't be reached
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromStatus({
+        status: response.status,
+        detail: `${response.statusText} ${detail}`.trim(),
+        provider: LABEL,
+        model,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: LABEL,
+    capabilities: { streaming: true, cancellation: true, offline: false, candidates: true },
+    listModels: () => [...options.models],
+
+    async generate(request, callOptions) {
+      const controller = tracker.begin(callOptions?.signal);
+      try {
+        const response = await post(request, false, controller.signal);
+        const body = parseResponse(await response.text().catch(connectionFailed));
+        const candidates = (body.choices ?? []).map((choice) => choice.message?.content ?? '');
+        return { text: candidates[0] ?? '', model: request.model, candidates, usage: toUsage(body.usage) };
+      } finally {
+        tracker.end(controller);
+      }
+    },
+
+    async *stream(request, callOptions) {
+      const controller = tracker.begin(callOptions?.signal);
+      try {
+        const response = await post(request, true, controller.signal);
+        if (!response.body) return;
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        // Parse server-sent events: each "data:" line carries one JSON delta
+        while (true) {
+          const { value, done } = await reader.read().catch(connectionFailed); // Rejects when the connection drops mid-stream
+          if (done) break;
+          buffer += value;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? ''; // Keep the incomplete trailing line for the next read
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+            const chunk = parseResponse(data);
+            const usage = toUsage(chunk.usage);
+            if (usage) callOptions?.onUsage?.(usage);
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text) yield text;
+          }
+        }
+      } finally {
+        tracker.end(controller);
+      }
+    },
+
+    cancel: () => tracker.cancelAll(),
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Tracks in-flight requests of a provider so cancel() can abort all of them at once
+ */
+export function createRequestTracker() {
+  const controllers = new Map<AbortController, () => void>(); // In-flight request -> removes its listener from the caller's signal
+
+  return {
+    // Start tracking a request; the returned controller is aborted by the caller's signal or by cancelAll()
+    begin(signal?: AbortSignal): AbortController {
+      const controller = new AbortController();
+      let detach = () => {};
+      if (signal) {
+        if (signal.aborted) {
+          controller.abort(signal.reason); // Caller already gave up before the request started
+        } else {
+          const forward = () => controller.abort(signal.reason);
+          signal.addEventListener('abort', forward, { once: true });
+          detach = () => signal.removeEventListener('abort', forward); // Long-lived signals would collect a listener per request
+        }
+      }
+      controllers.set(controller, detach);
+      return controller;
+    },
+    // Stop tracking a finished request
+    end(controller: AbortController): void {
+      controllers.get(controller)?.();
+      controllers.delete(controller);
+    },
+    // Abort every tracked request
+    cancelAll(): void {
+      controllers.forEach((detach, controller) => {
+        detach();
+        controller.abort();
+      });
+      controllers.clear();
+    },
+  };
+}
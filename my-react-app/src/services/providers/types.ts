@@ -0,0 +1,57 @@
+// Sampling parameters passed to a provider for a single generation
+export interface GenerationConfig {
+  maxOutputTokens: number; // Maximum tokens in response (controls length)
+  temperature: number; // Creativity level (0-1, higher = more creative)
+  topP: number; // Nucleus sampling parameter (controls diversity)
+  topK: number; // Top-K sampling (limits token choices)
+}
+
+// Request handed to a provider (prompt is already fully rendered by the service layer)
+export interface GenerateRequest {
+  prompt: string; // Complete prompt text sent to the model
+  model: string; // Model identifier to use (one of provider.listModels())
+  config: GenerationConfig; // Sampling parameters
+  candidateCount?: number; // Alternatives to return from generate() (only when capabilities.candidates; default 1)
+}
+
+// Tokens billed for one call, as reported by the backend (or estimated when it doesn't report them)
+export interface TokenUsage {
+  promptTokens: number; // Input tokens
+  outputTokens: number; // Generated tokens (every candidate)
+  totalTokens: number;
+}
+
+// Result of a non-streaming generation
+export interface GenerateResult {
+  text: string; // Generated text (untrimmed)
+  model: string; // Model that actually answered
+  candidates?: string[]; // Every alternative when more than one was requested (text is the first)
+  usage?: TokenUsage; // Missing when the backend doesn't report it
+}
+
+// Per-call options shared by generate and stream
+export interface ProviderCallOptions {
+  signal?: AbortSignal; // Optional signal used to abort the underlying request
+  onUsage?: (usage: TokenUsage) => void; // Called by stream() once the backend reports token counts (usually with the last chunk)
+}
+
+// Feature flags so callers can adapt to what a provider supports
+export interface ProviderCapabilities {
+  streaming: boolean; // Provider emits text incrementally via stream()
+  cancellation: boolean; // In-flight requests can be aborted
+  offline: boolean; // Provider works without network access
+  candidates: boolean; // generate() can return several alternatives in one call
+}
+
+/**
+ * Common interface every AI backend implements (Gemini, local mock, OpenAI-compatible HTTP)
+ */
+export interface AIProvider {
+  readonly id: string; // Stable identifier used for runtime selection
+  readonly label: string; // Human readable name shown in the UI
+  readonly capabilities: ProviderCapabilities;
+  listModels: () => string[]; // Models in preferred fallback order
+  generate: (request: GenerateRequest, options?: ProviderCallOptions) => Promise<GenerateResult>;
+  stream: (request: GenerateRequest, options?: ProviderCallOptions) => AsyncIterable<string>;
+  cancel: () => void; // Abort every request this provider currently has in flight
+}
@@ -0,0 +1,205 @@
+import { createAbortError, delay, throwIfAborted } from './abort';
+import { CircuitOpenError, ModelUnavailableError, ServiceUnavailableError } from './aiErrors';
+
+/**
+ * Request scheduling for one AI provider: client-side rate limit, per-model circuit breakers
+ * and in-flight deduplication, so outages and double-clicks don't multiply requests
+ */
+
+// Tuning for a provider's scheduler
+export interface SchedulerOptions {
+  burst: number; // Requests that can be sent back to back
+  refillIntervalMs: number; // One more request allowed per interval after the burst
+  failureThreshold: number; // Consecutive server failures that open a model's circuit
+  cooldownMs: number; // How long an open circuit skips the model
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  burst: 5,
+  refillIntervalMs: 4000, // 15 requests a minute, the free Gemini tier
+  failureThreshold: 3,
+  cooldownMs: 30000,
+};
+
+// Circuit state of one model (no entry = healthy)
+interface Circuit {
+  failures: number; // Consecutive counted failures
+  openedAt: number | null; // When the circuit opened (null while closed)
+}
+
+// An in-flight request shared by every caller that asked for it
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController; // Aborted once every caller has given up
+  callers: number;
+}
+
+// An in-flight stream shared by every caller; items are kept so late callers replay from the start
+interface SharedStream<T> {
+  items: T[];
+  done: boolean;
+  failed: boolean;
+  error: unknown;
+  controller: AbortController; // Aborted once every caller has stopped reading
+  callers: number;
+  changed: Promise<void>; // Resolves when items, done or failed change
+  notify: () => void;
+}
+
+export interface RequestScheduler {
+  acquire: (signal?: AbortSignal) => Promise<void>; // Wait for the rate limit to allow one more request
+  circuitError: (model: string) => CircuitOpenError | null; // Set while the model's circuit is open
+  recordSuccess: (model: string) => void;
+  recordFailure: (model: string, error: unknown) => void;
+  // Run a request once for every caller with the same key while it is in flight
+  dedupe: <T>(key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  // Same for streams: every caller receives every item
+  dedupeStream: <T>(key: string, open: (signal: AbortSignal) => AsyncIterable<T>, signal?: AbortSignal) => AsyncGenerator<T>;
+}
+
+// Spread a backoff delay over 50-100% of its value so clients that failed together don't retry together
+export const withJitter = (ms: number): number => ms / 2 + Math.random() * (ms / 2);
+
+/**
+ * Create the scheduler for one provider (see schedulerFor in aiService)
+ */
+export function createRequestScheduler(options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS): RequestScheduler {
+  // Token bucket: starts full, one token back per refill interval, never more than the burst
+  let tokens = options.burst;
+  let refilledAt = Date.now();
+  const refill = () => {
+    const added = Math.floor((Date.now() - refilledAt) / options.refillIntervalMs);
+    if (added === 0) return;
+    tokens = Math.min(options.burst, tokens + added);
+    refilledAt = tokens === options.burst ? Date.now() : refilledAt + added * options.refillIntervalMs;
+  };
+
+  const circuits = new Map<string, Circuit>();
+  const requests = new Map<string, SharedRequest<unknown>>();
+  const streams = new Map<string, SharedStream<unknown>>();
+
+  return {
+    async acquire(signal) {
+      for (refill(); tokens === 0; refill()) {
+        await delay(refilledAt + options.refillIntervalMs - Date.now(), signal);
+      }
+      tokens--;
+    },
+
+    circuitError(model) {
+      const circuit = circuits.get(model);
+      if (circuit?.openedAt == null) return null;
+      const remaining = circuit.openedAt + options.cooldownMs - Date.now();
+      // After the cooldown one trial request goes through; another failure reopens the circuit
+      return remaining > 0 ? new CircuitOpenError(model, remaining) : null;
+    },
+
+    recordSuccess(model) {
+      circuits.delete(model);
+    },
+
+    recordFailure(model, error) {
+      // Only failures of the model itself count - rate limits, network and auth errors say nothing about it
+      if (!(error instanceof ModelUnavailableError) && !(error instanceof ServiceUnavailableError)) return;
+      const circuit = circuits.get(model) ?? { failures: 0, openedAt: null };
+      circuit.failures = error instanceof ModelUnavailableError ? options.failureThreshold : circuit.failures + 1; // A missing model won't come back soon
+      if (circuit.failures >= options.failureThreshold) circuit.openedAt = Date.now();
+      circuits.set(model, circuit);
+    },
+
+    dedupe<T>(key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+      throwIfAborted(signal);
+      let shared = requests.get(key) as SharedRequest<T> | undefined;
+      if (!shared) {
+        const controller = new AbortController();
+        const entry: SharedRequest<T> = { promise: run(controller.signal), controller, callers: 0 };
+        entry.promise
+          .finally(() => {
+            if (requests.get(key) === entry) requests.delete(key);
+          })
+          .catch(() => {}); // Failures are reported to the callers
+        requests.set(key, entry);
+        shared = entry;
+      }
+      const entry = shared;
+      entry.callers++;
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          if (--entry.callers === 0) entry.controller.abort(); // Nobody is waiting any more
+          reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        entry.promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+      });
+    },
+
+    async *dedupeStream<T>(key: string, open: (signal: AbortSignal) => AsyncIterable<T>, signal?: AbortSignal): AsyncGenerator<T> {
+      throwIfAborted(signal);
+      let entry = streams.get(key) as SharedStream<T> | undefined;
+      if (!entry) {
+        const shared: SharedStream<T> = {
+          items: [],
+          done: false,
+          failed: false,
+          error: null,
+          controller: new AbortController(),
+          callers: 0,
+          changed: Promise.resolve(),
+          notify: () => {},
+        };
+        const reset = () => {
+          shared.changed = new Promise((resolve) => {
+            shared.notify = () => {
+              reset();
+              resolve();
+            };
+          });
+        };
+        reset();
+        streams.set(key, shared);
+        // Read the source once, in the background, for every caller
+        void (async () => {
+          try {
+            for await (const item of open(shared.controller.signal)) {
+              shared.items.push(item);
+              shared.notify();
+            }
+            shared.done = true;
+          } catch (error) {
+            shared.failed = true;
+            shared.error = error;
+          } finally {
+            if (streams.get(key) === shared) streams.delete(key);
+            shared.notify();
+          }
+        })();
+        entry = shared;
+      }
+
+      const shared = entry;
+      shared.callers++;
+      const onAbort = () => shared.notify(); // Wake the reader so it can stop
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        for (let index = 0; ; ) {
+          throwIfAborted(signal);
+          if (index < shared.items.length) {
+            yield shared.items[index++];
+          } else if (shared.failed) {
+            throw shared.error;
+          } else if (shared.done) {
+            return;
+          } else {
+            await shared.changed;
+          }
+        }
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (--shared.callers === 0 && !shared.done && !shared.failed) {
+          shared.controller.abort(); // Nobody is reading any more
+        }
+      }
+    },
+  };
+}
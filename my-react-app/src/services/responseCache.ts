@@ -0,0 +1,93 @@
+import type { GenerationConfig } from './providers';
+
+/**
+ * Bounded in-memory cache of recent prompt/response pairs (least recently used entries are evicted first)
+ */
+
+// A cached response and what produced it
+export interface CachedResponse {
+  key: string; // See responseCacheKey
+  prompt: string; // Prompt as sent
+  text: string; // Complete response
+  provider: string; // Provider id
+  model: string; // Model that answered
+  config: GenerationConfig; // Sampling parameters used
+  createdAt: number; // Epoch milliseconds
+  hits: number; // Times the response was reused
+}
+
+export interface ResponseCache {
+  get: (key: string) => CachedResponse | null; // Counts as a hit and marks the entry as recently used
+  set: (entry: Omit<CachedResponse, 'createdAt' | 'hits'>) => void;
+  remove: (key: string) => void;
+  clear: () => void;
+  entries: () => CachedResponse[]; // Most recently used first (same array until the cache changes)
+  subscribe: (listener: () => void) => () => void; // Called after every change, returns the unsubscribe function
+}
+
+export const RESPONSE_CACHE_LIMIT = 50; // Entries kept
+export const RESPONSE_CACHE_MAX_AGE = 60 * 60 * 1000; // Entries older than an hour are not reused
+
+// Whitespace differences (trailing spaces, re-wrapped lines) don't make a different request
+export const normalizePrompt = (prompt: string): string => prompt.replace(/\s+/g, ' ').trim();
+
+// Cache key: provider, normalized prompt, model choice and sampling parameters
+export const responseCacheKey = (provider: string, prompt: string, model: string | null, config: GenerationConfig): string =>
+  JSON.stringify([provider, normalizePrompt(prompt), model, config]);
+
+/**
+ * Create a response cache holding at most limit entries
+ */
+export function createResponseCache(limit: number = RESPONSE_CACHE_LIMIT, maxAge: number = RESPONSE_CACHE_MAX_AGE): ResponseCache {
+  const cache = new Map<string, CachedResponse>(); // Insertion order = least recently used first
+  const listeners = new Set<() => void>();
+  let snapshot: CachedResponse[] = [];
+
+  const changed = () => {
+    snapshot = [...cache.values()].reverse();
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    get(key) {
+      const entry = cache.get(key);
+      if (!entry) return null;
+      cache.delete(key);
+      if (Date.now() - entry.createdAt > maxAge) {
+        changed(); // Expired - dropped
+        return null;
+      }
+      const hit = { ...entry, hits: entry.hits + 1 };
+      cache.set(key, hit); // Move to the most recently used end
+      changed();
+      return hit;
+    },
+
+    set(entry) {
+      cache.delete(entry.key);
+      cache.set(entry.key, { ...entry, createdAt: Date.now(), hits: 0 });
+      for (const key of cache.keys()) {
+        if (cache.size <= limit) break;
+        cache.delete(key); // Evict the least recently used
+      }
+      changed();
+    },
+
+    remove(key) {
+      if (cache.delete(key)) changed();
+    },
+
+    clear() {
+      if (!cache.size) return;
+      cache.clear();
+      changed();
+    },
+
+    entries: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
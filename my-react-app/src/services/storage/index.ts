@@ -0,0 +1,59 @@
+import type { DocumentStorage, GenerationHistoryStorage } from './types';
+import { createIndexedDbHistoryStorage, createIndexedDbStorage } from './indexedDbStorage';
+import { createLocalStorageHistoryStorage, createLocalStorageStorage } from './localStorageStorage';
+
+export { HISTORY_LIMIT } from './types';
+export type {
+  DocumentMeta,
+  DocumentStorage,
+  GenerationHistoryStorage,
+  GenerationKind,
+  GenerationOutcome,
+  GenerationRecord,
+  StoredDocument,
+} from './types';
+export {
+  createIndexedDbHistoryStorage,
+  createIndexedDbStorage,
+  createLocalStorageHistoryStorage,
+  createLocalStorageStorage,
+};
+
+/**
+ * Pick the best storage backend available in this browser: IndexedDB, falling back to localStorage
+ * when IndexedDB is missing or can't be opened (e.g. some private browsing modes)
+ */
+export function createDocumentStorage(): DocumentStorage {
+  const fallback = createLocalStorageStorage();
+  if (typeof indexedDB === 'undefined') {
+    return fallback;
+  }
+  const primary = createIndexedDbStorage();
+  const active = primary.list().then(() => primary, () => fallback); // Probe IndexedDB once
+
+  return {
+    name: 'auto',
+    list: async () => (await active).list(),
+    load: async (id) => (await active).load(id),
+    save: async (document) => (await active).save(document),
+    remove: async (id) => (await active).remove(id),
+  };
+}
+
+/**
+ * Generation history storage, with the same IndexedDB-then-localStorage choice as createDocumentStorage
+ */
+export function createHistoryStorage(): GenerationHistoryStorage {
+  const fallback = createLocalStorageHistoryStorage();
+  if (typeof indexedDB === 'undefined') {
+    return fallback;
+  }
+  const primary = createIndexedDbHistoryStorage();
+  const active = primary.list('').then(() => primary, () => fallback); // Probe IndexedDB once
+
+  return {
+    list: async (documentId) => (await active).list(documentId),
+    add: async (record) => (await active).add(record),
+    clear: async (documentId) => (await active).clear(documentId),
+  };
+}
@@ -0,0 +1,102 @@
+import { HISTORY_LIMIT } from './types';
+import type { DocumentMeta, DocumentStorage, GenerationHistoryStorage, GenerationRecord, StoredDocument } from './types';
+
+const DB_NAME = 'chronicle'; // IndexedDB database name
+const DB_VERSION = 2; // Bump when adding stores or indexes
+const STORE = 'documents'; // Object store holding StoredDocument records keyed by id
+const HISTORY_STORE = 'generations'; // Object store holding GenerationRecord entries keyed by id
+const BY_DOCUMENT = 'documentId'; // Index on GenerationRecord.documentId
+
+// Wrap an IDBRequest in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Open (and create or upgrade) the database
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) {
+        req.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+      if (!req.result.objectStoreNames.contains(HISTORY_STORE)) { // Added in version 2
+        req.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex(BY_DOCUMENT, BY_DOCUMENT);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Document storage backed by IndexedDB (preferred - no size limits worth worrying about)
+ */
+export function createIndexedDbStorage(): DocumentStorage {
+  const database = openDatabase(); // Opened once, shared by all calls
+
+  // Run fn against the documents store inside a transaction
+  const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await database;
+    return request(fn(db.transaction(STORE, mode).objectStore(STORE)));
+  };
+
+  return {
+    name: 'indexedDB',
+    async list() {
+      const documents = await withStore('readonly', (store) => store.getAll() as IDBRequest<StoredDocument[]>);
+      return documents
+        .map(({ id, title, createdAt, updatedAt }): DocumentMeta => ({ id, title, createdAt, updatedAt }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async load(id) {
+      const document = await withStore('readonly', (store) => store.get(id) as IDBRequest<StoredDocument | undefined>);
+      return document ?? null;
+    },
+    async save(document) {
+      await withStore('readwrite', (store) => store.put(document));
+    },
+    async remove(id) {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+}
+
+/**
+ * Generation history backed by IndexedDB (same database as the documents)
+ */
+export function createIndexedDbHistoryStorage(): GenerationHistoryStorage {
+  const database = openDatabase();
+
+  // All records of a document, newest first
+  const listRecords = async (documentId: string): Promise<GenerationRecord[]> => {
+    const db = await database;
+    const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index(BY_DOCUMENT);
+    const records = await request(index.getAll(documentId) as IDBRequest<GenerationRecord[]>);
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  };
+
+  // Delete records by id in one transaction
+  const removeRecords = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await database;
+    const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+    await Promise.all(ids.map((id) => request(store.delete(id))));
+  };
+
+  return {
+    list: listRecords,
+    async add(record) {
+      const db = await database;
+      await request(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).put(record));
+      const records = await listRecords(record.documentId);
+      await removeRecords(records.slice(HISTORY_LIMIT).map((r) => r.id)); // Drop the oldest
+    },
+    async clear(documentId) {
+      await removeRecords((await listRecords(documentId)).map((r) => r.id));
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { HISTORY_LIMIT } from './types';
+import type { DocumentMeta, DocumentStorage, GenerationHistoryStorage, GenerationRecord, StoredDocument } from './types';
+
+const INDEX_KEY = 'chronicle.documents'; // JSON array of DocumentMeta
+const documentKey = (id: string) => `chronicle.document.${id}`; // One entry per document
+const historyKey = (documentId: string) => `chronicle.history.${documentId}`; // JSON array of GenerationRecord, newest first
+
+// Read the document index (empty when missing or corrupt)
+function readIndex(): DocumentMeta[] {
+  try {
+    return JSON.parse(localStorage.getItem(INDEX_KEY) ?? '[]') as DocumentMeta[];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(index: DocumentMeta[]): void {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+/**
+ * Document storage backed by localStorage (fallback when IndexedDB is unavailable)
+ */
+export function createLocalStorageStorage(): DocumentStorage {
+  return {
+    name: 'localStorage',
+    async list() {
+      return readIndex().sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async load(id) {
+      const raw = localStorage.getItem(documentKey(id));
+      return raw ? (JSON.parse(raw) as StoredDocument) : null;
+    },
+    async save(document) {
+      localStorage.setItem(documentKey(document.id), JSON.stringify(document));
+      const { id, title, createdAt, updatedAt } = document;
+      writeIndex([...readIndex().filter((meta) => meta.id !== id), { id, title, createdAt, updatedAt }]);
+    },
+    async remove(id) {
+      localStorage.removeItem(documentKey(id));
+      writeIndex(readIndex().filter((meta) => meta.id !== id));
+    },
+  };
+}
+
+/**
+ * Generation history backed by localStorage (fallback when IndexedDB is unavailable)
+ */
+export function createLocalStorageHistoryStorage(): GenerationHistoryStorage {
+  const read = (documentId: string): GenerationRecord[] => {
+    try {
+      return JSON.parse(localStorage.getItem(historyKey(documentId)) ?? '[]') as GenerationRecord[];
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    async list(documentId) {
+      return read(documentId);
+    },
+    async add(record) {
+      const records = [record, ...read(record.documentId)].slice(0, HISTORY_LIMIT);
+      localStorage.setItem(historyKey(record.documentId), JSON.stringify(records));
+    },
+    async clear(documentId) {
+      localStorage.removeItem(historyKey(documentId));
+    },
+  };
+}
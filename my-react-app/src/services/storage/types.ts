@@ -0,0 +1,63 @@
+import type { GenerationConfig, TokenUsage } from '../providers';
+
+// Summary of a stored document (what the document list needs)
+export interface DocumentMeta {
+  id: string; // Unique document id
+  title: string; // Title shown in the sidebar
+  createdAt: number; // Creation time (ms since epoch)
+  updatedAt: number; // Last save time (ms since epoch)
+}
+
+// A stored document: metadata plus the ProseMirror document as JSON
+export interface StoredDocument extends DocumentMeta {
+  content: Record<string, unknown>; // Result of Node.toJSON()
+}
+
+/**
+ * Storage backend for documents. IndexedDB and localStorage implement it today;
+ * a REST backend only has to implement the same four methods.
+ */
+export interface DocumentStorage {
+  readonly name: string; // Backend name (for diagnostics)
+  list: () => Promise<DocumentMeta[]>; // All documents, most recently updated first
+  load: (id: string) => Promise<StoredDocument | null>; // One document, or null if it doesn't exist
+  save: (document: StoredDocument) => Promise<void>; // Create or overwrite a document
+  remove: (id: string) => Promise<void>; // Delete a document (no-op if it doesn't exist)
+}
+
+// Most generations kept per document (oldest are dropped first - each one holds two document snapshots)
+export const HISTORY_LIMIT = 50;
+
+// What a generation was for
+export type GenerationKind = 'continue' | 'summarize' | 'rewrite' | 'template' | 'outline' | 'slide' | 'comment';
+
+// How the user handled the AI output
+export type GenerationOutcome = 'accepted' | 'partial' | 'rejected' | 'applied';
+
+// One AI generation in a document's history, with the document before and after it was applied
+export interface GenerationRecord {
+  id: string; // Unique record id
+  documentId: string; // Document the generation belongs to
+  kind: GenerationKind;
+  createdAt: number; // When the output was accepted, rejected or applied (ms since epoch)
+  prompt: string; // Complete prompt sent to the model
+  provider: string; // Provider id
+  model: string; // Model that answered (after fallback)
+  config: GenerationConfig; // Sampling parameters used
+  cached?: boolean; // Answered from the response cache
+  usage?: TokenUsage; // Tokens billed (missing for cached answers and backends that don't report usage)
+  text: string; // Generated Markdown
+  outcome: GenerationOutcome;
+  range: { from: number; to: number } | null; // Changed range in the "after" snapshot (null when nothing was inserted)
+  before: Record<string, unknown>; // Document JSON before the output was inserted
+  after: Record<string, unknown> | null; // Document JSON right after (null when rejected)
+}
+
+/**
+ * Storage backend for AI generation history, kept separately from documents so a REST backend can store it elsewhere
+ */
+export interface GenerationHistoryStorage {
+  list: (documentId: string) => Promise<GenerationRecord[]>; // Newest first
+  add: (record: GenerationRecord) => Promise<void>; // Store a record (drops the oldest beyond HISTORY_LIMIT)
+  clear: (documentId: string) => Promise<void>; // Delete a document's history
+}
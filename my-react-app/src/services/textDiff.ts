@@ -0,0 +1,60 @@
+// A run of text that is unchanged, added or removed between two versions
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+// Append a token to the diff, merging it into the previous part when the type matches
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+};
+
+/**
+ * Word-level diff between two texts. Common leading and trailing words are skipped before the
+ * (quadratic) longest-common-subsequence pass, so localized edits in long documents stay cheap.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  // lcs[i][j] = length of the longest common subsequence of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) push(parts, 'equal', a.slice(0, start).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      push(parts, 'equal', midA[i++]);
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push(parts, 'delete', midA[i++]); // Removed text is shown before what replaced it
+    } else {
+      push(parts, 'insert', midB[j++]);
+    }
+  }
+  if (endA < a.length) push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
@@ -0,0 +1,233 @@
+/**
+ * Token and cost accounting: what each generation used, totals per day, per document and per model,
+ * and the daily budget checked before Continue Writing.
+ */
+import type { TokenUsage } from './providers';
+
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number; // Prompt tokens
+  output: number; // Generated tokens
+}
+
+// Published list prices (models missing here are counted in tokens only)
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'mock-writer': { input: 0, output: 0 }, // Local mock - free
+};
+
+// Cost of a call in USD (null when the model has no known price)
+export function costOf(model: string, usage: TokenUsage): number | null {
+  const price = MODEL_PRICING[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+// Sum of two token counts (calls made for the same generation)
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+});
+
+// Amounts as shown in the Usage panel and history ($0.0042, 12.3k tokens)
+export const formatCost = (usd: number): string => `$${usd >= 1 || usd === 0 ? usd.toFixed(2) : usd.toPrecision(2)}`;
+export const formatTokens = (tokens: number): string => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+// Accumulated usage of a day, document or model
+export interface UsageTotals {
+  requests: number; // Generations counted
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // USD, priced requests only
+  unpriced: number; // Requests to models without a known price (their tokens are counted, their cost isn't)
+}
+
+export const EMPTY_TOTALS: UsageTotals = { requests: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, unpriced: 0 };
+
+// Everything recorded so far
+export interface UsageLedger {
+  days: Record<string, UsageTotals>; // Keyed by local date, YYYY-MM-DD
+  documents: Record<string, UsageTotals>; // Keyed by document id
+  models: Record<string, UsageTotals>; // Keyed by model
+}
+
+const EMPTY_LEDGER: UsageLedger = { days: {}, documents: {}, models: {} };
+
+export const USAGE_DAYS_KEPT = 90; // Older days are dropped when a new one starts
+
+// Local calendar day of a timestamp (budgets reset at local midnight)
+export function dayKey(time: number = Date.now()): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Milliseconds until the next local midnight, when today's totals start over
+export function msUntilNextDay(time: number = Date.now()): number {
+  const next = new Date(time);
+  next.setHours(24, 0, 0, 0);
+  return next.getTime() - time;
+}
+
+// The last count days, today first
+export const recentDays = (count: number): string[] =>
+  Array.from({ length: count }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - i); // Calendar days, so DST changes don't skip or repeat one
+    return dayKey(date.getTime());
+  });
+
+// One generation's usage
+export interface UsageEntry {
+  documentId: string | null; // Document it was made in
+  model: string; // Model that answered
+  usage: TokenUsage;
+  time?: number; // Epoch milliseconds (default now)
+}
+
+const addTotals = (totals: UsageTotals = EMPTY_TOTALS, usage: TokenUsage, cost: number | null): UsageTotals => ({
+  requests: totals.requests + 1,
+  promptTokens: totals.promptTokens + usage.promptTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  totalTokens: totals.totalTokens + usage.totalTokens,
+  cost: totals.cost + (cost ?? 0),
+  unpriced: totals.unpriced + (cost === null ? 1 : 0),
+});
+
+/**
+ * Ledger with one more generation counted
+ */
+export function recordUsage(ledger: UsageLedger, { documentId, model, usage, time }: UsageEntry): UsageLedger {
+  const cost = costOf(model, usage);
+  const day = dayKey(time);
+  const days = { ...ledger.days, [day]: addTotals(ledger.days[day], usage, cost) };
+  const kept = Object.keys(days).sort().slice(-USAGE_DAYS_KEPT);
+  return {
+    days: Object.fromEntries(kept.map((key) => [key, days[key]])),
+    documents: documentId ? { ...ledger.documents, [documentId]: addTotals(ledger.documents[documentId], usage, cost) } : ledger.documents,
+    models: { ...ledger.models, [model]: addTotals(ledger.models[model], usage, cost) },
+  };
+}
+
+// What a daily budget is counted in
+export type BudgetUnit = 'tokens' | 'usd';
+
+/**
+ * Daily limits for AI usage: past the soft limit Continue Writing warns, past the hard limit it is refused
+ */
+export interface UsageBudget {
+  unit: BudgetUnit;
+  soft: number | null; // null = no warning
+  hard: number | null; // null = never blocked
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { unit: 'usd', soft: null, hard: null };
+
+// Where today's usage stands against the budget
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export function budgetStatus(today: UsageTotals, budget: UsageBudget): BudgetStatus {
+  const used = budget.unit === 'usd' ? today.cost : today.totalTokens;
+  if (budget.hard !== null && used >= budget.hard) return 'exceeded';
+  if (budget.soft !== null && used >= budget.soft) return 'warning';
+  return 'ok';
+}
+
+// Problems with a budget (empty when valid)
+export function getBudgetErrors(budget: UsageBudget): string[] {
+  const errors: string[] = [];
+  const valid = (limit: number | null) => limit === null || (Number.isFinite(limit) && limit > 0);
+  if (!valid(budget.soft)) errors.push('The warning limit must be a positive number.');
+  if (!valid(budget.hard)) errors.push('The hard limit must be a positive number.');
+  if (budget.soft !== null && budget.hard !== null && budget.soft > budget.hard) {
+    errors.push('The warning limit should be below the hard limit.');
+  }
+  return errors;
+}
+
+const USAGE_KEY = 'chronicle.usage'; // localStorage key for the ledger
+const BUDGET_KEY = 'chronicle.usageBudget'; // localStorage key for the budget
+
+const readJSON = (key: string): unknown => {
+  try {
+    const json = localStorage.getItem(key);
+    return json ? JSON.parse(json) : null;
+  } catch {
+    return null; // Storage disabled or corrupt entry - treat as not set
+  }
+};
+
+const writeJSON = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be disabled (private mode) - usage simply won't persist
+  }
+};
+
+// Stored JSON -> ledger (each section must be an object, anything else starts empty)
+function parseLedger(stored: unknown): UsageLedger {
+  const section = (value: unknown) =>
+    value && typeof value === 'object' ? value as Record<string, UsageTotals> : {};
+  if (!stored || typeof stored !== 'object') return EMPTY_LEDGER;
+  const { days, documents, models } = stored as Partial<UsageLedger>;
+  return { days: section(days), documents: section(documents), models: section(models) };
+}
+
+// Stored JSON -> budget (fields of the wrong type fall back to the defaults)
+function parseBudget(stored: unknown): UsageBudget {
+  if (!stored || typeof stored !== 'object') return DEFAULT_USAGE_BUDGET;
+  const { unit, soft, hard } = stored as Partial<UsageBudget>;
+  const limit = (value: unknown) => (typeof value === 'number' && value > 0 ? value : null);
+  return { unit: unit === 'tokens' ? 'tokens' : 'usd', soft: limit(soft), hard: limit(hard) };
+}
+
+export const loadUsageBudget = (): UsageBudget => parseBudget(readJSON(BUDGET_KEY));
+export const saveUsageBudget = (budget: UsageBudget): void => writeJSON(BUDGET_KEY, budget);
+
+export interface UsageStore {
+  ledger: () => UsageLedger; // Same object until something is recorded
+  record: (entry: UsageEntry) => void;
+  forgetDocument: (documentId: string) => void; // Day and model totals keep its usage
+  reset: () => void;
+  subscribe: (listener: () => void) => () => void; // Called after every change, returns the unsubscribe function
+}
+
+/**
+ * Ledger persisted in localStorage
+ */
+export function createUsageStore(): UsageStore {
+  let ledger = parseLedger(readJSON(USAGE_KEY));
+  const listeners = new Set<() => void>();
+
+  const update = (next: UsageLedger) => {
+    ledger = next;
+    writeJSON(USAGE_KEY, ledger);
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    ledger: () => ledger,
+    record: (entry) => update(recordUsage(ledger, entry)),
+    forgetDocument(documentId) {
+      if (!(documentId in ledger.documents)) return;
+      const documents = Object.fromEntries(Object.entries(ledger.documents).filter(([id]) => id !== documentId));
+      update({ ...ledger, documents });
+    },
+    reset: () => update(EMPTY_LEDGER),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
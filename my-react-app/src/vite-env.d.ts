@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+// Environment variables read by the AI provider registry and the collaboration client
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string; // Google Gemini API key
+  readonly VITE_AI_PROVIDER?: string; // Default provider id: gemini | mock | openai-compatible
+  readonly VITE_OPENAI_BASE_URL?: string; // Base URL of an OpenAI-compatible server (enables that provider)
+  readonly VITE_OPENAI_API_KEY?: string; // Optional bearer token for the OpenAI-compatible server
+  readonly VITE_OPENAI_MODELS?: string; // Comma separated model list for the OpenAI-compatible server
+  readonly VITE_COLLAB_URL?: string; // WebSocket URL of the collaboration server (ws://localhost:4444 by default)
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}